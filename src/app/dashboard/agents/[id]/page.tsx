@@ -1,16 +1,42 @@
 'use client';
 
-import { useEffect, useState, useCallback, useMemo } from 'react';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import {
   agentApi,
+  DEFAULT_COMMAND_TIMEOUT_SECONDS,
+  isCommandTerminal,
+  listEventsSince,
+  pendingCommand,
+  streamAgent,
+  trackCommand,
   type Agent,
   type AgentEvent,
   type AgentCommand,
   type AgentGroup,
+  type AgentGroupRule,
+  type AgentRuleOverride,
+  type AgentStreamState,
 } from '@/lib/api';
+import {
+  buildCommandParams,
+  COMMAND_CATALOG,
+  defaultCommandValues,
+  getCommandDefinition,
+  type CommandFormValues,
+} from '@/lib/commands';
+import {
+  CommandParamsForm,
+  CommandPayloadPreview,
+} from '@/components/CommandParamsForm';
+import { applyRuleOverride } from '@/lib/rules';
+import { AgentRuleOverrides } from '@/components/AgentRuleOverrides';
+import { ScheduleManager } from '@/components/ScheduleManager';
+import { UpgradeRollout } from '@/components/UpgradeRollout';
 
 type Tab = 'events' | 'commands';
+type TelemetryRange = '1h' | '24h' | '7d';
+type ChartMetric = 'cpu' | 'memory' | 'disk';
 type EventFilter =
   | 'all'
   | 'status'
@@ -56,6 +82,27 @@ interface ProcessEntry {
   pid?: number;
 }
 
+interface TelemetryPoint {
+  timestamp: number;
+  cpu?: number;
+  memory?: number;
+  disk?: number;
+}
+
+const TELEMETRY_RANGES: { key: TelemetryRange; seconds: number }[] = [
+  { key: '1h', seconds: 3600 },
+  { key: '24h', seconds: 86400 },
+  { key: '7d', seconds: 604800 },
+];
+
+const TELEMETRY_CHART_BUCKETS = 120;
+
+// Only the most recent sends are shown inline under the command panel
+const TRACKED_COMMAND_LIMIT = 5;
+
+// Streamed events are prepended to the polled page; cap the buffer
+const EVENT_BUFFER_LIMIT = 200;
+
 export default function AgentDetailPage() {
   const params = useParams();
   const router = useRouter();
@@ -68,8 +115,32 @@ export default function AgentDetailPage() {
   const [loading, setLoading] = useState(true);
   const [tab, setTab] = useState<Tab>('events');
   const [commandAction, setCommandAction] = useState('ping');
+  const [commandValues, setCommandValues] = useState<CommandFormValues>({});
+  const [commandTimeout, setCommandTimeout] = useState(
+    () =>
+      getCommandDefinition('ping')?.defaultTimeout ??
+      DEFAULT_COMMAND_TIMEOUT_SECONDS,
+  );
   const [sendingCommand, setSendingCommand] = useState(false);
+  const [commandError, setCommandError] = useState('');
+  const [trackedCommands, setTrackedCommands] = useState<
+    { id: string; timeout: number }[]
+  >([]);
+  const commandTrackers = useRef(new Map<string, () => void>());
   const [updatingGroup, setUpdatingGroup] = useState(false);
+  const [telemetryRange, setTelemetryRange] = useState<TelemetryRange>('1h');
+  const [telemetryHistory, setTelemetryHistory] = useState<TelemetryPoint[]>(
+    [],
+  );
+  const [telemetryLoading, setTelemetryLoading] = useState(true);
+  // The page cap was hit before the start of the range
+  const [telemetryTruncated, setTelemetryTruncated] = useState(false);
+  // Read by the stream handler so a range change doesn't reopen the stream
+  const telemetryRangeRef = useRef(3600);
+  const [groupRules, setGroupRules] = useState<AgentGroupRule[]>([]);
+  const [ruleOverrides, setRuleOverrides] = useState<AgentRuleOverride[]>([]);
+  const [streamState, setStreamState] =
+    useState<AgentStreamState>('connecting');
 
   const fetchAll = useCallback(() => {
     Promise.all([
@@ -90,9 +161,134 @@ export default function AgentDetailPage() {
 
   useEffect(() => {
     fetchAll();
+  }, [fetchAll]);
+
+  const upsertCommand = useCallback((cmd: AgentCommand) => {
+    setCommands((prev) =>
+      prev.some((c) => c.id === cmd.id)
+        ? prev.map((c) => (c.id === cmd.id ? { ...c, ...cmd } : c))
+        : [cmd, ...prev],
+    );
+  }, []);
+
+  useEffect(() => {
+    const trackers = commandTrackers.current;
+    return () => {
+      trackers.forEach((stop) => stop());
+      trackers.clear();
+    };
+  }, []);
+
+  useEffect(
+    () =>
+      streamAgent(agentId, {
+        onStateChange: setStreamState,
+        onEvent: (ev) => {
+          setEvents((prev) =>
+            prev.some((e) => e.id === ev.id)
+              ? prev
+              : [ev, ...prev].slice(0, EVENT_BUFFER_LIMIT),
+          );
+          if (ev.type === 'telemetry') {
+            setTelemetryHistory((prev) =>
+              appendTelemetryPoint(
+                prev,
+                toTelemetryPoint(ev),
+                telemetryRangeRef.current,
+              ),
+            );
+          }
+          if (ev.type === 'status') {
+            const status = ev.data.status;
+            setAgent((prev) =>
+              prev
+                ? {
+                    ...prev,
+                    status:
+                      status === 'online' || status === 'offline'
+                        ? status
+                        : prev.status,
+                    last_seen_at: ev.created_at,
+                  }
+                : prev,
+            );
+          }
+        },
+        onCommand: upsertCommand,
+      }),
+    [agentId, upsertCommand],
+  );
+
+  // Poll only while the live stream is down
+  useEffect(() => {
+    if (streamState === 'open') return;
     const interval = setInterval(fetchAll, 30000);
     return () => clearInterval(interval);
-  }, [fetchAll]);
+  }, [fetchAll, streamState]);
+
+  const telemetryRangeSeconds =
+    TELEMETRY_RANGES.find((r) => r.key === telemetryRange)?.seconds ?? 3600;
+
+  useEffect(() => {
+    telemetryRangeRef.current = telemetryRangeSeconds;
+    let cancelled = false;
+    setTelemetryLoading(true);
+    fetchTelemetryHistory(agentId, telemetryRangeSeconds)
+      .then(({ points, truncated }) => {
+        if (cancelled) return;
+        setTelemetryHistory(points);
+        setTelemetryTruncated(truncated);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setTelemetryHistory([]);
+        setTelemetryTruncated(false);
+      })
+      .finally(() => {
+        if (!cancelled) setTelemetryLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [agentId, telemetryRangeSeconds]);
+
+  const agentGroupId = agent?.group_id || '';
+
+  useEffect(() => {
+    if (!agentGroupId) {
+      setGroupRules([]);
+      return;
+    }
+    agentApi
+      .listGroupRules(agentGroupId)
+      .then((res) => setGroupRules(res.rules))
+      .catch(() => setGroupRules([]));
+  }, [agentGroupId]);
+
+  const fetchRuleOverrides = useCallback(
+    () =>
+      agentApi
+        .listAgentRuleOverrides(agentId)
+        .then((res) => setRuleOverrides(res.overrides))
+        .catch(() => setRuleOverrides([])),
+    [agentId],
+  );
+
+  useEffect(() => {
+    fetchRuleOverrides();
+  }, [fetchRuleOverrides, agentGroupId]);
+
+  // Rules as they apply to this agent, so chart thresholds match what fires
+  const effectiveRules = useMemo(
+    () =>
+      groupRules.map((rule) =>
+        applyRuleOverride(
+          rule,
+          ruleOverrides.find((o) => o.rule_id === rule.id),
+        ),
+      ),
+    [groupRules, ruleOverrides],
+  );
 
   // ─── Derive latest snapshot from events ───
 
@@ -189,20 +385,78 @@ export default function AgentDetailPage() {
     return [];
   }, [events]);
 
+  const commandDefinition = getCommandDefinition(commandAction);
+  const commandParams = useMemo(
+    () => buildCommandParams(commandDefinition, commandValues),
+    [commandDefinition, commandValues],
+  );
+  const hasCommandErrors = Object.keys(commandParams.errors).length > 0;
+
   // ─── Handlers ───
 
+  const handleCommandActionChange = (action: string) => {
+    const definition = getCommandDefinition(action);
+    setCommandAction(action);
+    setCommandValues(defaultCommandValues(definition));
+    setCommandTimeout(
+      definition?.defaultTimeout ?? DEFAULT_COMMAND_TIMEOUT_SECONDS,
+    );
+    setCommandError('');
+  };
+
   const handleSendCommand = async () => {
-    if (!agent) return;
+    if (!agent || hasCommandErrors) return;
+    if (!Number.isFinite(commandTimeout) || commandTimeout < 1) {
+      setCommandError('Timeout must be at least 1 second.');
+      return;
+    }
     setSendingCommand(true);
+    setCommandError('');
     try {
-      await agentApi.sendCommand(agent.id, commandAction);
-      setTimeout(fetchAll, 1000);
-    } catch {
-      /* ignore */
+      const res = await agentApi.sendCommand(
+        agent.id,
+        commandAction,
+        commandParams.params,
+        commandTimeout,
+      );
+      const pending = pendingCommand(
+        agent.id,
+        commandAction,
+        commandParams.params,
+        res,
+      );
+      upsertCommand(pending);
+      setTrackedCommands((prev) =>
+        [{ id: pending.id, timeout: commandTimeout }, ...prev].slice(
+          0,
+          TRACKED_COMMAND_LIMIT,
+        ),
+      );
+      const stop = trackCommand(pending, {
+        timeout: commandTimeout,
+        onUpdate: (cmd) => {
+          upsertCommand(cmd);
+          if (isCommandTerminal(cmd.status)) {
+            commandTrackers.current.get(cmd.id)?.();
+            commandTrackers.current.delete(cmd.id);
+          }
+        },
+      });
+      commandTrackers.current.set(pending.id, stop);
+    } catch (err) {
+      setCommandError(
+        err instanceof Error ? err.message : 'Failed to send command.',
+      );
     }
     setSendingCommand(false);
   };
 
+  const dismissTrackedCommand = (commandId: string) => {
+    commandTrackers.current.get(commandId)?.();
+    commandTrackers.current.delete(commandId);
+    setTrackedCommands((prev) => prev.filter((t) => t.id !== commandId));
+  };
+
   const handleDelete = async () => {
     if (!agent) return;
     if (
@@ -283,9 +537,12 @@ export default function AgentDetailPage() {
                 {agent.status}
               </span>
             </div>
-            <p className="text-[12px] text-text-tertiary font-mono mt-0.5 truncate">
-              {agent.thing_name}
-            </p>
+            <div className="flex items-center gap-2 mt-0.5 min-w-0">
+              <p className="text-[12px] text-text-tertiary font-mono truncate">
+                {agent.thing_name}
+              </p>
+              <StreamIndicator state={streamState} />
+            </div>
           </div>
         </div>
         <button
@@ -342,6 +599,76 @@ export default function AgentDetailPage() {
             <InfoCard label="Disk" value="-" />
           )}
         </div>
+        <section className="bg-bg-secondary rounded-md border border-border-primary shadow-sm overflow-hidden">
+          <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 border-b border-border-primary">
+            <div className="text-[13px] font-semibold text-text-primary">
+              Telemetry history
+              {telemetryHistory.length > 0 && (
+                <span className="ml-2 text-[11px] font-normal text-text-tertiary">
+                  {telemetryHistory.length} samples
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-3">
+              {!telemetryLoading &&
+                telemetryTruncated &&
+                telemetryHistory.length > 0 && (
+                  <span
+                    className="text-[11px] text-accent-warning"
+                    title="Only the most recent samples were loaded for this range"
+                  >
+                    Partial data since{' '}
+                    {formatTime(telemetryHistory[0].timestamp)}
+                  </span>
+                )}
+              <div className="flex items-center bg-bg-primary border border-border-primary rounded-sm overflow-hidden">
+                {TELEMETRY_RANGES.map((r) => (
+                  <button
+                    key={r.key}
+                    type="button"
+                    onClick={() => setTelemetryRange(r.key)}
+                    className={`px-3 py-1 text-[12px] font-medium transition-colors cursor-pointer ${
+                      telemetryRange === r.key
+                        ? 'bg-accent-primary text-white'
+                        : 'text-text-secondary hover:text-text-primary hover:bg-bg-tertiary'
+                    }`}
+                  >
+                    {r.key}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+          {telemetryLoading ? (
+            <div className="p-4 text-[13px] text-text-tertiary text-center">
+              Loading telemetry...
+            </div>
+          ) : telemetryHistory.length === 0 ? (
+            <div className="p-4 text-[13px] text-text-tertiary text-center">
+              No telemetry in the last {telemetryRange}.
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 p-4">
+              {(
+                [
+                  { metric: 'cpu', label: 'CPU' },
+                  { metric: 'memory', label: 'Memory' },
+                  { metric: 'disk', label: 'Disk' },
+                ] as const
+              ).map((c) => (
+                <TelemetryChart
+                  key={c.metric}
+                  label={c.label}
+                  metric={c.metric}
+                  points={telemetryHistory}
+                  rangeSeconds={telemetryRangeSeconds}
+                  rules={effectiveRules}
+                />
+              ))}
+            </div>
+          )}
+        </section>
+
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
           <InfoCard
             label="OS / Arch"
@@ -515,20 +842,30 @@ export default function AgentDetailPage() {
         <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:gap-3">
           <select
             value={commandAction}
-            onChange={(e) => setCommandAction(e.target.value)}
+            onChange={(e) => handleCommandActionChange(e.target.value)}
             className="h-9 px-3 text-[13px] bg-bg-primary border border-border-primary rounded-sm text-text-primary focus:outline-none focus:border-border-focus transition-colors cursor-pointer w-full sm:w-auto min-w-0"
           >
-            <option value="ping">ping</option>
-            <option value="scan_health">scan_health</option>
-            <option value="scan_usb">scan_usb</option>
-            <option value="scan_process">scan_process</option>
-            <option value="scan_network">scan_network</option>
-            <option value="scan_all">scan_all</option>
+            {COMMAND_CATALOG.map((c) => (
+              <option key={c.action} value={c.action}>
+                {c.action}
+              </option>
+            ))}
           </select>
+          <label className="flex items-center gap-2 text-[12px] text-text-secondary shrink-0">
+            Timeout
+            <input
+              type="number"
+              min={1}
+              value={commandTimeout}
+              onChange={(e) => setCommandTimeout(Number(e.target.value))}
+              className="h-9 w-20 px-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm text-text-primary focus:outline-none focus:border-border-focus transition-colors"
+            />
+            s
+          </label>
           <div className="flex gap-2 sm:shrink-0">
             <button
               onClick={handleSendCommand}
-              disabled={sendingCommand}
+              disabled={sendingCommand || hasCommandErrors}
               className="h-9 flex-1 sm:flex-none px-4 bg-accent-primary hover:bg-accent-primary-hover text-white text-[13px] font-medium rounded-sm transition-colors disabled:opacity-50 cursor-pointer"
             >
               {sendingCommand ? 'Sending...' : 'Send'}
@@ -541,8 +878,60 @@ export default function AgentDetailPage() {
             </button>
           </div>
         </div>
+        <div className="mt-3 space-y-3">
+          <CommandParamsForm
+            definition={commandDefinition}
+            values={commandValues}
+            errors={commandParams.errors}
+            onChange={setCommandValues}
+          />
+          <CommandPayloadPreview
+            payload={{
+              action: commandAction,
+              params: commandParams.params,
+              timeout: commandTimeout,
+            }}
+          />
+        </div>
+        {commandError && (
+          <div className="mt-3 p-3 rounded-sm bg-accent-danger/10 border border-accent-danger/20 text-[13px] text-accent-danger">
+            {commandError}
+          </div>
+        )}
+        {trackedCommands.length > 0 && (
+          <div className="mt-4 space-y-2">
+            {trackedCommands.map((t) => {
+              const cmd = commands.find((c) => c.id === t.id);
+              if (!cmd) return null;
+              return (
+                <CommandProgress
+                  key={t.id}
+                  command={cmd}
+                  timeout={t.timeout}
+                  onDismiss={() => dismissTrackedCommand(t.id)}
+                />
+              );
+            })}
+          </div>
+        )}
       </div>
 
+      {/* ── Upgrade ── */}
+      <UpgradeRollout agents={[agent]} onFinished={fetchAll} />
+
+      {/* ── Scheduled Commands ── */}
+      <ScheduleManager agentId={agentId} commands={commands} />
+
+      {/* ── Rule Overrides ── */}
+      {agentGroupId && (
+        <AgentRuleOverrides
+          agentId={agentId}
+          rules={groupRules}
+          overrides={ruleOverrides}
+          onChanged={fetchRuleOverrides}
+        />
+      )}
+
       {/* ── Tabs: Events / Commands ── */}
       <div className="min-w-0">
         <div className="flex items-center gap-0 border-b border-border-primary overflow-x-auto">
@@ -580,6 +969,23 @@ export default function AgentDetailPage() {
 // Sub Components
 // ═══════════════════════════════════════════════════════════════════
 
+function StreamIndicator({ state }: { state: AgentStreamState }) {
+  const config: Record<AgentStreamState, { label: string; dot: string }> = {
+    connecting: { label: 'Connecting...', dot: 'bg-text-tertiary' },
+    open: { label: 'Live', dot: 'bg-accent-success' },
+    reconnecting: { label: 'Reconnecting...', dot: 'bg-accent-warning' },
+    polling: { label: 'Polling every 30s', dot: 'bg-text-tertiary' },
+    closed: { label: 'Disconnected', dot: 'bg-text-tertiary' },
+  };
+  const { label, dot } = config[state];
+  return (
+    <span className="inline-flex items-center gap-1 text-[11px] text-text-tertiary shrink-0">
+      <span className={`w-1.5 h-1.5 rounded-full ${dot}`} />
+      {label}
+    </span>
+  );
+}
+
 function InfoCard({
   label,
   value,
@@ -647,6 +1053,160 @@ function MetricCard({
   );
 }
 
+// Plots the per-bucket peak (not the average) so it compares against rule thresholds
+function TelemetryChart({
+  label,
+  metric,
+  points,
+  rangeSeconds,
+  rules,
+}: {
+  label: string;
+  metric: ChartMetric;
+  points: TelemetryPoint[];
+  rangeSeconds: number;
+  rules: AgentGroupRule[];
+}) {
+  const width = 300;
+  const height = 120;
+  const to = Math.floor(Date.now() / 1000);
+  const from = to - rangeSeconds;
+
+  const buckets = useMemo(() => {
+    const bucketSize = rangeSeconds / TELEMETRY_CHART_BUCKETS;
+    const peaks = new Map<number, { timestamp: number; value: number }>();
+    for (const p of points) {
+      const value = p[metric];
+      if (value == null || p.timestamp < from) continue;
+      const index = Math.min(
+        TELEMETRY_CHART_BUCKETS - 1,
+        Math.floor((p.timestamp - from) / bucketSize),
+      );
+      const existing = peaks.get(index);
+      if (!existing || value > existing.value) {
+        peaks.set(index, { timestamp: p.timestamp, value });
+      }
+    }
+    return Array.from(peaks.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([, v]) => v);
+  }, [points, metric, from, rangeSeconds]);
+
+  const thresholds = useMemo(
+    () =>
+      rules
+        .filter(
+          (r) =>
+            r.enabled &&
+            r.metric === metric &&
+            ['>=', '>', '<=', '<'].includes(r.operator) &&
+            r.threshold.trim() !== '' &&
+            !Number.isNaN(Number(r.threshold)),
+        )
+        .map((r) => ({ rule: r, value: Number(r.threshold) })),
+    [rules, metric],
+  );
+
+  const peak = buckets.reduce((max, b) => Math.max(max, b.value), 0);
+  const toX = (t: number) => ((t - from) / rangeSeconds) * width;
+  const toY = (v: number) =>
+    height - (Math.min(Math.max(v, 0), 100) / 100) * height;
+  const path = buckets
+    .map(
+      (b, i) =>
+        `${i === 0 ? 'M' : 'L'}${toX(b.timestamp).toFixed(1)},${toY(b.value).toFixed(1)}`,
+    )
+    .join(' ');
+
+  const severityStroke: Record<string, string> = {
+    critical: 'stroke-accent-danger',
+    warning: 'stroke-accent-warning',
+    info: 'stroke-accent-info',
+  };
+  const severityText: Record<string, string> = {
+    critical: 'text-accent-danger',
+    warning: 'text-accent-warning',
+    info: 'text-accent-info',
+  };
+
+  return (
+    <div className="bg-bg-primary rounded border border-border-primary p-3">
+      <div className="flex items-baseline justify-between gap-2 mb-2">
+        <span className="text-[12px] font-medium text-text-primary">
+          {label}
+        </span>
+        <span className="text-[11px] text-text-tertiary">
+          {buckets.length > 0 ? `peak ${peak.toFixed(1)}%` : 'no data'}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="none"
+        className="w-full h-[120px]"
+      >
+        {[25, 50, 75].map((v) => (
+          <line
+            key={v}
+            x1={0}
+            x2={width}
+            y1={toY(v)}
+            y2={toY(v)}
+            className="stroke-border-primary"
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {thresholds.map(({ rule, value }) => (
+          <line
+            key={rule.id}
+            x1={0}
+            x2={width}
+            y1={toY(value)}
+            y2={toY(value)}
+            className={severityStroke[rule.severity] || severityStroke.warning}
+            strokeWidth={1}
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {path && (
+          <path
+            d={path}
+            fill="none"
+            className="stroke-accent-secondary"
+            strokeWidth={1.5}
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+      {thresholds.length > 0 && (
+        <div className="mt-2 space-y-0.5">
+          {thresholds.map(({ rule, value }) => (
+            <div
+              key={rule.id}
+              className="flex items-center justify-between gap-2 text-[10px]"
+            >
+              <span
+                className={`truncate ${severityText[rule.severity] || severityText.warning}`}
+              >
+                {rule.name} ({rule.operator} {value})
+              </span>
+              {buckets.length > 0 && rule.operator.startsWith('>') && (
+                <span className="text-text-tertiary shrink-0">
+                  {value - peak > 0
+                    ? `${(value - peak).toFixed(1)} headroom`
+                    : 'crossed'}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function SeverityBadge({ severity }: { severity: string }) {
   const config: Record<string, string> = {
     critical: 'bg-accent-danger/10 text-accent-danger',
@@ -662,6 +1222,84 @@ function SeverityBadge({ severity }: { severity: string }) {
   );
 }
 
+// ─── Command Progress ───
+
+const COMMAND_STEPS = ['pending', 'delivered', 'done'] as const;
+
+function CommandProgress({
+  command,
+  timeout,
+  onDismiss,
+}: {
+  command: AgentCommand;
+  timeout: number;
+  onDismiss: () => void;
+}) {
+  const done = isCommandTerminal(command.status);
+  const reached = done ? 2 : command.status === 'delivered' ? 1 : 0;
+  const doneColor =
+    command.status === 'completed'
+      ? 'bg-accent-success'
+      : command.status === 'failed'
+        ? 'bg-accent-danger'
+        : 'bg-text-tertiary';
+
+  return (
+    <div className="rounded border border-border-primary bg-bg-primary p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <code className="text-[12px] font-mono text-text-primary">
+          {command.action}
+        </code>
+        <span className="text-[11px] text-text-tertiary font-mono">
+          {command.id.slice(0, 8)}
+        </span>
+        <span className="flex-1" />
+        <span className="text-[11px] text-text-tertiary">
+          {done ? command.status : `waiting up to ${timeout}s`}
+        </span>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-[11px] text-text-tertiary hover:text-text-primary cursor-pointer"
+          aria-label="Dismiss"
+        >
+          ✕
+        </button>
+      </div>
+      <div className="flex items-center gap-1">
+        {COMMAND_STEPS.map((step, i) => (
+          <div key={step} className="flex-1 flex items-center gap-1.5">
+            <div
+              className={`h-1.5 flex-1 rounded-full ${
+                i > reached
+                  ? 'bg-bg-tertiary'
+                  : i === 2
+                    ? doneColor
+                    : i === reached && !done
+                      ? 'bg-accent-warning animate-pulse'
+                      : 'bg-accent-info'
+              }`}
+            />
+            <span className="text-[10px] text-text-tertiary shrink-0">
+              {i === 2 && done ? command.status : step}
+            </span>
+          </div>
+        ))}
+      </div>
+      {command.error && (
+        <div className="text-[12px] text-accent-danger bg-accent-danger/5 border border-accent-danger/20 rounded p-2">
+          {command.error}
+        </div>
+      )}
+      {command.result != null && (
+        <pre className="bg-[#1e1e2e] text-[#a6adc8] rounded-sm p-3 text-[12px] font-mono overflow-x-auto max-h-[200px] overflow-y-auto">
+          {JSON.stringify(command.result, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+}
+
 // ─── Events Tab ───
 
 function EventsList({ events }: { events: AgentEvent[] }) {
@@ -1174,6 +1812,48 @@ function getEventSummary(event: AgentEvent): string {
   }
 }
 
+function toTelemetryPoint(ev: AgentEvent): TelemetryPoint {
+  const d = ev.data as Record<string, unknown>;
+  return {
+    timestamp: ev.created_at,
+    cpu: (d.cpu as SystemMetrics['cpu'])?.usagePercent,
+    memory: (d.memory as SystemMetrics['memory'])?.usagePercent,
+    disk: (d.disk as SystemMetrics['disk'])?.usagePercent,
+  };
+}
+
+// Skips a streamed point already plotted at the same timestamp and drops
+// points that have fallen out of the selected range
+function appendTelemetryPoint(
+  points: TelemetryPoint[],
+  point: TelemetryPoint,
+  rangeSeconds: number,
+): TelemetryPoint[] {
+  if (points.some((p) => p.timestamp === point.timestamp)) return points;
+  const since = Math.floor(Date.now() / 1000) - rangeSeconds;
+  return [...points.filter((p) => p.timestamp >= since), point].sort(
+    (a, b) => a.timestamp - b.timestamp,
+  );
+}
+
+async function fetchTelemetryHistory(
+  agentId: string,
+  rangeSeconds: number,
+): Promise<{ points: TelemetryPoint[]; truncated: boolean }> {
+  const since = Math.floor(Date.now() / 1000) - rangeSeconds;
+  const { events, truncated } = await listEventsSince(
+    agentId,
+    'telemetry',
+    since,
+  );
+  return {
+    points: events
+      .map(toTelemetryPoint)
+      .sort((a, b) => a.timestamp - b.timestamp),
+    truncated,
+  };
+}
+
 function formatTime(timestamp: number): string {
   return new Date(timestamp * 1000).toLocaleString('en-US', {
     month: 'short',
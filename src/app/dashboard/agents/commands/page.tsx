@@ -0,0 +1,614 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import {
+  agentApi,
+  ApiError,
+  DEFAULT_COMMAND_TIMEOUT_SECONDS,
+  isCommandTerminal,
+  listAllAgents,
+  pendingCommand,
+  trackCommand,
+  type Agent,
+  type AgentCommand,
+  type AgentGroup,
+} from '@/lib/api';
+import {
+  buildCommandParams,
+  COMMAND_CATALOG,
+  defaultCommandValues,
+  getCommandDefinition,
+  type CommandFormValues,
+} from '@/lib/commands';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import {
+  CommandParamsForm,
+  CommandPayloadPreview,
+} from '@/components/CommandParamsForm';
+
+type DispatchRow = {
+  action: string;
+  params: Record<string, unknown> | undefined;
+  timeout: number;
+  status: string;
+  command: AgentCommand | null;
+  error: string;
+  attempts: number;
+};
+
+type DispatchJob = Pick<DispatchRow, 'action' | 'params' | 'timeout'> & {
+  agentId: string;
+};
+
+const RETRYABLE_STATUSES = ['send_failed', 'failed', 'timeout'];
+
+const DEFAULT_CONCURRENCY = 5;
+
+export default function FleetCommandsPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const groupIdFromQuery = searchParams.get('groupId') || '';
+  const agentIdsFromQuery = searchParams.get('agents') || '';
+
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [groups, setGroups] = useState<AgentGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const [groupFilter, setGroupFilter] = useState(groupIdFromQuery);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(agentIdsFromQuery.split(',').filter(Boolean)),
+  );
+
+  const [action, setAction] = useState('ping');
+  const [commandValues, setCommandValues] = useState<CommandFormValues>({});
+  const [commandTimeout, setCommandTimeout] = useState(
+    () =>
+      getCommandDefinition('ping')?.defaultTimeout ??
+      DEFAULT_COMMAND_TIMEOUT_SECONDS,
+  );
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [dispatching, setDispatching] = useState(false);
+  const [rows, setRows] = useState<Record<string, DispatchRow>>({});
+  const trackers = useRef(new Map<string, () => void>());
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setLoading(true);
+        const [agentList, groupsRes] = await Promise.all([
+          listAllAgents(),
+          agentApi.listGroups(),
+        ]);
+        setAgents(agentList);
+        setGroups(groupsRes.groups);
+      } catch {
+        setError('Failed to load agents.');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    const active = trackers.current;
+    return () => {
+      active.forEach((stop) => stop());
+      active.clear();
+    };
+  }, []);
+
+  const groupName = useMemo(() => {
+    const map = new Map(groups.map((g) => [g.id, g.name]));
+    return (id?: string | null) => (id ? map.get(id) || '-' : '-');
+  }, [groups]);
+
+  const visibleAgents = useMemo(
+    () =>
+      agents.filter(
+        (a) =>
+          (!groupFilter || a.group_id === groupFilter) &&
+          (!statusFilter || a.status === statusFilter),
+      ),
+    [agents, groupFilter, statusFilter],
+  );
+
+  const targets = useMemo(
+    () => agents.filter((a) => selected.has(a.id)),
+    [agents, selected],
+  );
+
+  const dispatchedAgents = useMemo(
+    () => agents.filter((a) => rows[a.id]),
+    [agents, rows],
+  );
+
+  const summary = useMemo(() => {
+    const c: Record<string, number> = {};
+    for (const row of Object.values(rows)) {
+      c[row.status] = (c[row.status] || 0) + 1;
+    }
+    return c;
+  }, [rows]);
+
+  const failedIds = useMemo(
+    () =>
+      Object.entries(rows)
+        .filter(([, row]) => RETRYABLE_STATUSES.includes(row.status))
+        .map(([id]) => id),
+    [rows],
+  );
+
+  const commandDefinition = getCommandDefinition(action);
+  const commandParams = useMemo(
+    () => buildCommandParams(commandDefinition, commandValues),
+    [commandDefinition, commandValues],
+  );
+  const hasCommandErrors = Object.keys(commandParams.errors).length > 0;
+
+  const updateRow = useCallback(
+    (agentId: string, patch: Partial<DispatchRow>) => {
+      setRows((prev) => {
+        const current = prev[agentId];
+        if (!current) return prev;
+        return { ...prev, [agentId]: { ...current, ...patch } };
+      });
+    },
+    [],
+  );
+
+  const toggleSelected = (agentId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(agentId)) next.delete(agentId);
+      else next.add(agentId);
+      return next;
+    });
+  };
+
+  const selectVisible = () => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      for (const a of visibleAgents) next.add(a.id);
+      return next;
+    });
+  };
+
+  const handleActionChange = (nextAction: string) => {
+    const definition = getCommandDefinition(nextAction);
+    setAction(nextAction);
+    setCommandValues(defaultCommandValues(definition));
+    setCommandTimeout(
+      definition?.defaultTimeout ?? DEFAULT_COMMAND_TIMEOUT_SECONDS,
+    );
+  };
+
+  // All jobs share one pool so the concurrency limit holds across actions
+  const dispatch = async (jobs: DispatchJob[]) => {
+    if (jobs.length === 0) return;
+    const limit = Math.max(1, Math.floor(concurrency) || DEFAULT_CONCURRENCY);
+
+    setError('');
+    setDispatching(true);
+    for (const { agentId } of jobs) {
+      trackers.current.get(agentId)?.();
+      trackers.current.delete(agentId);
+    }
+    setRows((prev) => {
+      const next = { ...prev };
+      for (const job of jobs) {
+        next[job.agentId] = {
+          action: job.action,
+          params: job.params,
+          timeout: job.timeout,
+          status: 'queued',
+          command: null,
+          error: '',
+          attempts: (prev[job.agentId]?.attempts ?? 0) + 1,
+        };
+      }
+      return next;
+    });
+
+    await mapWithConcurrency(jobs, limit, async (job) => {
+      const { agentId } = job;
+      updateRow(agentId, { status: 'sending' });
+      try {
+        const res = await agentApi.sendCommand(
+          agentId,
+          job.action,
+          job.params,
+          job.timeout,
+        );
+        const pending = pendingCommand(agentId, job.action, job.params, res);
+        updateRow(agentId, { status: pending.status, command: pending });
+        const stop = trackCommand(pending, {
+          timeout: job.timeout,
+          onUpdate: (cmd) => {
+            updateRow(agentId, {
+              status: cmd.status,
+              command: cmd,
+              error: cmd.error || '',
+            });
+            if (isCommandTerminal(cmd.status)) {
+              trackers.current.delete(agentId);
+            }
+          },
+        });
+        trackers.current.set(agentId, stop);
+      } catch (err) {
+        updateRow(agentId, {
+          status: 'send_failed',
+          error: err instanceof ApiError ? err.message : 'Failed to send.',
+        });
+      }
+    });
+
+    setDispatching(false);
+  };
+
+  const sendToTargets = () => {
+    if (!Number.isFinite(commandTimeout) || commandTimeout < 1) {
+      setError('Timeout must be at least 1 second.');
+      return;
+    }
+    dispatch(
+      targets.map((a) => ({
+        agentId: a.id,
+        action,
+        params: commandParams.params,
+        timeout: commandTimeout,
+      })),
+    );
+  };
+
+  // Retries resend each row with the action, params and timeout it used
+  const retryRows = (agentIds: string[]) =>
+    dispatch(
+      agentIds.map((agentId) => ({
+        agentId,
+        action: rows[agentId].action,
+        params: rows[agentId].params,
+        timeout: rows[agentId].timeout,
+      })),
+    );
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 rounded-sm bg-accent-danger/10 border border-accent-danger/20 text-[13px] text-accent-danger">
+          {error}
+        </div>
+      )}
+
+      {/* ── Targets ── */}
+      <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm overflow-hidden">
+        <div className="flex flex-col gap-3 px-4 py-3 border-b border-border-primary sm:flex-row sm:items-center sm:justify-between">
+          <div className="text-[14px] font-semibold text-text-primary">
+            Targets
+            <span className="ml-2 text-[12px] font-normal text-text-tertiary">
+              {targets.length} selected
+            </span>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={groupFilter}
+              onChange={(e) => setGroupFilter(e.target.value)}
+              className="h-8 px-2 text-[12px] bg-bg-primary border border-border-primary rounded-sm"
+            >
+              <option value="">All groups</option>
+              {groups.map((g) => (
+                <option key={g.id} value={g.id}>
+                  {g.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="h-8 px-2 text-[12px] bg-bg-primary border border-border-primary rounded-sm"
+            >
+              <option value="">All statuses</option>
+              <option value="online">Online</option>
+              <option value="offline">Offline</option>
+            </select>
+            <button
+              type="button"
+              onClick={selectVisible}
+              disabled={visibleAgents.length === 0}
+              className="h-8 px-3 text-[12px] border border-border-primary rounded-sm text-text-secondary hover:bg-bg-tertiary disabled:opacity-50"
+            >
+              Select {visibleAgents.length} shown
+            </button>
+            <button
+              type="button"
+              onClick={() => setSelected(new Set())}
+              disabled={selected.size === 0}
+              className="h-8 px-3 text-[12px] border border-border-primary rounded-sm text-text-secondary hover:bg-bg-tertiary disabled:opacity-50"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+        {loading ? (
+          <div className="p-6 text-center text-[13px] text-text-tertiary">
+            Loading agents...
+          </div>
+        ) : visibleAgents.length === 0 ? (
+          <div className="p-6 text-center text-[13px] text-text-tertiary">
+            No matching agents.
+          </div>
+        ) : (
+          <div className="max-h-[320px] overflow-y-auto divide-y divide-border-primary">
+            {visibleAgents.map((a) => (
+              <label
+                key={a.id}
+                className="flex items-center gap-3 px-4 py-2.5 hover:bg-bg-tertiary/30 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(a.id)}
+                  onChange={() => toggleSelected(a.id)}
+                />
+                <div
+                  className={`w-2 h-2 rounded-full shrink-0 ${
+                    a.status === 'online'
+                      ? 'bg-accent-success'
+                      : a.status === 'revoked'
+                        ? 'bg-accent-danger'
+                        : 'bg-border-secondary'
+                  }`}
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="text-[13px] font-medium text-text-primary truncate">
+                    {a.display_name || a.name || a.thing_name}
+                  </div>
+                  <div className="text-[11px] text-text-tertiary font-mono truncate">
+                    {a.thing_name}
+                  </div>
+                </div>
+                <span className="text-[12px] text-text-tertiary shrink-0">
+                  {groupName(a.group_id)}
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* ── Command ── */}
+      <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm p-4 sm:p-5">
+        <h3 className="text-[14px] font-semibold text-text-primary mb-3">
+          Command
+        </h3>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+          <select
+            value={action}
+            onChange={(e) => handleActionChange(e.target.value)}
+            className="h-9 px-3 text-[13px] bg-bg-primary border border-border-primary rounded-sm text-text-primary w-full sm:w-auto"
+          >
+            {COMMAND_CATALOG.map((c) => (
+              <option key={c.action} value={c.action}>
+                {c.action}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-[12px] text-text-secondary">
+            Timeout
+            <input
+              type="number"
+              min={1}
+              value={commandTimeout}
+              onChange={(e) => setCommandTimeout(Number(e.target.value))}
+              className="h-9 w-20 px-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm text-text-primary"
+            />
+            s
+          </label>
+          <label className="flex items-center gap-2 text-[12px] text-text-secondary">
+            Concurrency
+            <input
+              type="number"
+              min={1}
+              max={50}
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              className="h-9 w-16 px-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm text-text-primary"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={sendToTargets}
+            disabled={
+              dispatching || hasCommandErrors || targets.length === 0
+            }
+            className="h-9 px-4 bg-accent-primary hover:bg-accent-primary-hover text-white text-[13px] font-medium rounded-sm transition-colors disabled:opacity-50 cursor-pointer"
+          >
+            {dispatching
+              ? 'Dispatching...'
+              : `Send to ${targets.length} agent${targets.length !== 1 ? 's' : ''}`}
+          </button>
+        </div>
+        <div className="mt-3 space-y-3">
+          <CommandParamsForm
+            definition={commandDefinition}
+            values={commandValues}
+            errors={commandParams.errors}
+            onChange={setCommandValues}
+          />
+          <CommandPayloadPreview
+            payload={{
+              action,
+              params: commandParams.params,
+              timeout: commandTimeout,
+            }}
+          />
+        </div>
+      </div>
+
+      {/* ── Results ── */}
+      {dispatchedAgents.length > 0 && (
+        <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm overflow-hidden">
+          <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 border-b border-border-primary">
+            <div className="flex flex-wrap items-center gap-2 text-[14px] font-semibold text-text-primary">
+              Results
+              {Object.entries(summary).map(([status, count]) => (
+                <span
+                  key={status}
+                  className={`text-[11px] font-medium px-2 py-0.5 rounded-full ${statusColor(status)}`}
+                >
+                  {status} {count}
+                </span>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => retryRows(failedIds)}
+              disabled={dispatching || failedIds.length === 0}
+              className="h-8 px-3 text-[12px] border border-accent-warning/40 text-accent-warning rounded-sm hover:bg-accent-warning/10 disabled:opacity-50"
+            >
+              Retry {failedIds.length} failed
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <div className="grid grid-cols-[1fr_110px_90px_90px_90px_80px] min-w-[640px] gap-3 px-4 py-2 border-b border-border-primary bg-bg-tertiary/50 text-[11px] font-medium text-text-secondary uppercase tracking-wide">
+              <div>Agent</div>
+              <div>Action</div>
+              <div>Sent</div>
+              <div>Delivered</div>
+              <div>Result</div>
+              <div />
+            </div>
+            <div className="divide-y divide-border-primary">
+              {dispatchedAgents.map((a) => {
+                const row = rows[a.id];
+                return (
+                  <details key={a.id} className="group">
+                    <summary className="grid grid-cols-[1fr_110px_90px_90px_90px_80px] min-w-[640px] gap-3 px-4 py-2.5 items-center list-none cursor-pointer hover:bg-bg-tertiary/30">
+                      <div className="min-w-0">
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.preventDefault();
+                            router.push(`/dashboard/agents/${a.id}`);
+                          }}
+                          className="text-[13px] font-medium text-text-primary truncate hover:text-accent-primary cursor-pointer"
+                        >
+                          {a.display_name || a.name || a.thing_name}
+                        </button>
+                        {row.attempts > 1 && (
+                          <span className="ml-2 text-[11px] text-text-tertiary">
+                            attempt {row.attempts}
+                          </span>
+                        )}
+                      </div>
+                      <code className="text-[12px] font-mono text-text-secondary truncate">
+                        {row.action}
+                      </code>
+                      <StageCell
+                        reached={
+                          !['queued', 'sending', 'send_failed'].includes(
+                            row.status,
+                          )
+                        }
+                        failed={row.status === 'send_failed'}
+                        active={row.status === 'sending'}
+                      />
+                      <StageCell
+                        reached={
+                          row.status === 'delivered' ||
+                          isCommandTerminal(row.status)
+                        }
+                        failed={false}
+                        active={row.status === 'pending'}
+                      />
+                      <span
+                        className={`inline-flex w-fit text-[11px] font-medium px-2 py-0.5 rounded-full ${statusColor(row.status)}`}
+                      >
+                        {isCommandTerminal(row.status) ||
+                        row.status === 'send_failed'
+                          ? row.status
+                          : '...'}
+                      </span>
+                      <div className="text-right">
+                        {RETRYABLE_STATUSES.includes(row.status) && (
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.preventDefault();
+                              retryRows([a.id]);
+                            }}
+                            className="text-[12px] px-2 py-1 rounded-sm border border-border-primary text-text-secondary hover:bg-bg-tertiary"
+                          >
+                            Retry
+                          </button>
+                        )}
+                      </div>
+                    </summary>
+                    <div className="px-4 pb-3 space-y-2">
+                      {row.error && (
+                        <div className="text-[12px] text-accent-danger bg-accent-danger/5 border border-accent-danger/20 rounded p-2">
+                          {row.error}
+                        </div>
+                      )}
+                      {row.command?.result != null ? (
+                        <pre className="bg-[#1e1e2e] text-[#a6adc8] rounded-sm p-3 text-[12px] font-mono overflow-x-auto max-h-[200px] overflow-y-auto">
+                          {JSON.stringify(row.command.result, null, 2)}
+                        </pre>
+                      ) : (
+                        !row.error && (
+                          <div className="text-[12px] text-text-tertiary">
+                            No result yet.
+                          </div>
+                        )
+                      )}
+                    </div>
+                  </details>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function StageCell({
+  reached,
+  failed,
+  active,
+}: {
+  reached: boolean;
+  failed: boolean;
+  active: boolean;
+}) {
+  return (
+    <div
+      className={`w-2.5 h-2.5 rounded-full ${
+        failed
+          ? 'bg-accent-danger'
+          : reached
+            ? 'bg-accent-success'
+            : active
+              ? 'bg-accent-warning animate-pulse'
+              : 'bg-bg-tertiary border border-border-secondary'
+      }`}
+    />
+  );
+}
+
+function statusColor(status: string): string {
+  const colors: Record<string, string> = {
+    queued: 'bg-bg-tertiary text-text-tertiary',
+    sending: 'bg-accent-warning/10 text-accent-warning',
+    pending: 'bg-accent-warning/10 text-accent-warning',
+    delivered: 'bg-accent-info/10 text-accent-info',
+    completed: 'bg-accent-success/10 text-accent-success',
+    failed: 'bg-accent-danger/10 text-accent-danger',
+    send_failed: 'bg-accent-danger/10 text-accent-danger',
+    timeout: 'bg-bg-tertiary text-text-tertiary',
+  };
+  return colors[status] || 'bg-bg-tertiary text-text-tertiary';
+}
@@ -0,0 +1,327 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ApiError, listAllAgents, type Agent } from '@/lib/api';
+import { downloadCsv, toCsv } from '@/lib/csv';
+import {
+  compareVersions,
+  fetchLatestAgentVersion,
+  isKnownVersion,
+  isVersionBehind,
+  normalizeVersion,
+} from '@/lib/releases';
+
+type VersionStatus = 'latest' | 'behind' | 'ahead' | 'unknown';
+
+type InventoryRow = {
+  os: string;
+  arch: string;
+  version: string;
+  count: number;
+};
+
+const OUTDATED_PREVIEW_LIMIT = 20;
+
+export default function AgentInventoryPage() {
+  const router = useRouter();
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [latestVersion, setLatestVersion] = useState('');
+  const [releaseError, setReleaseError] = useState('');
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setLoading(true);
+        // 폐기된 장비는 업그레이드 대상이 아니므로 제외
+        const list = await listAllAgents();
+        setAgents(list.filter((a) => a.status !== 'revoked'));
+      } catch (err) {
+        if (err instanceof ApiError) setError(err.message);
+        else setError('Failed to load agents.');
+      } finally {
+        setLoading(false);
+      }
+    })();
+
+    fetchLatestAgentVersion()
+      .then(setLatestVersion)
+      .catch((err) =>
+        setReleaseError(
+          err instanceof Error ? err.message : 'Failed to load latest version',
+        ),
+      );
+  }, []);
+
+  const versionStatus = (version: string): VersionStatus => {
+    if (!latestVersion || !isKnownVersion(version)) return 'unknown';
+    const cmp = compareVersions(version, latestVersion);
+    return cmp === 0 ? 'latest' : cmp < 0 ? 'behind' : 'ahead';
+  };
+
+  const rows = useMemo(() => {
+    const map = new Map<string, InventoryRow>();
+    for (const agent of agents) {
+      const os = agent.os || '';
+      const arch = agent.arch || '';
+      const version = agent.version ? normalizeVersion(agent.version) : '';
+      const key = `${os}|${arch}|${version}`;
+      const row = map.get(key) ?? { os, arch, version, count: 0 };
+      row.count++;
+      map.set(key, row);
+    }
+    return Array.from(map.values()).sort(
+      (a, b) =>
+        a.os.localeCompare(b.os) ||
+        a.arch.localeCompare(b.arch) ||
+        compareVersions(b.version, a.version),
+    );
+  }, [agents]);
+
+  const byPlatform = useMemo(() => {
+    const map = new Map<string, { os: string; arch: string; count: number }>();
+    for (const row of rows) {
+      const key = `${row.os}|${row.arch}`;
+      const entry = map.get(key) ?? { os: row.os, arch: row.arch, count: 0 };
+      entry.count += row.count;
+      map.set(key, entry);
+    }
+    return Array.from(map.values()).sort((a, b) => b.count - a.count);
+  }, [rows]);
+
+  const byVersion = useMemo(() => {
+    const map = new Map<string, number>();
+    for (const row of rows) {
+      map.set(row.version, (map.get(row.version) ?? 0) + row.count);
+    }
+    return Array.from(map.entries())
+      .map(([version, count]) => ({ version, count }))
+      .sort((a, b) => compareVersions(b.version, a.version));
+  }, [rows]);
+
+  // 비교할 수 없는 version은 최신으로 치지 않고 unknown으로 따로 센다
+  const knownAgents = agents.filter((a) => isKnownVersion(a.version));
+  const outdatedAgents = knownAgents.filter((a) =>
+    isVersionBehind(a.version, latestVersion),
+  );
+  const upToDate = latestVersion
+    ? knownAgents.length - outdatedAgents.length
+    : 0;
+  const unknownVersion = agents.length - knownAgents.length;
+
+  const handleExport = () => {
+    const csv = toCsv(
+      ['os', 'arch', 'version', 'agents', 'status', 'latest_version'],
+      rows.map((row) => [
+        row.os,
+        row.arch,
+        row.version,
+        row.count,
+        versionStatus(row.version),
+        latestVersion,
+      ]),
+    );
+    const date = new Date().toISOString().slice(0, 10);
+    downloadCsv(`agent-inventory-${date}.csv`, csv);
+  };
+
+  const percent = (count: number) =>
+    agents.length > 0 ? `${Math.round((count / agents.length) * 100)}%` : '-';
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 rounded-sm bg-accent-danger/10 border border-accent-danger/20 text-[13px] text-accent-danger">
+          {error}
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm p-4 sm:p-5">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <div className="space-y-1">
+            <div className="text-[12px] text-text-tertiary">Latest release</div>
+            <div className="flex items-center gap-2">
+              <input
+                value={latestVersion}
+                onChange={(e) =>
+                  setLatestVersion(normalizeVersion(e.target.value))
+                }
+                placeholder="e.g. 1.4.2"
+                className="h-9 w-36 px-3 text-[13px] font-mono bg-bg-primary border border-border-primary rounded-sm text-text-primary focus:outline-none focus:border-border-focus transition-colors"
+              />
+              {releaseError && (
+                <span className="text-[12px] text-accent-warning">
+                  {releaseError} — enter the version manually.
+                </span>
+              )}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={loading || rows.length === 0}
+            className="h-9 px-4 text-[13px] font-medium border border-border-primary rounded-sm text-text-secondary hover:bg-bg-tertiary transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export CSV
+          </button>
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mt-4">
+          {[
+            { label: 'Agents', value: agents.length, color: 'text-accent-info' },
+            {
+              label: 'Up to date',
+              value: upToDate,
+              color: 'text-accent-success',
+            },
+            {
+              label: 'Behind latest',
+              value: outdatedAgents.length,
+              color: 'text-accent-warning',
+            },
+            {
+              label: 'Unknown version',
+              value: unknownVersion,
+              color: 'text-text-tertiary',
+            },
+          ].map((stat) => (
+            <div key={stat.label}>
+              <div className="text-[12px] text-text-tertiary">{stat.label}</div>
+              <div className={`text-2xl font-bold ${stat.color}`}>
+                {loading ? '-' : stat.value}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* OS / Arch */}
+        <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-border-primary text-[14px] font-semibold text-text-primary">
+            By OS / Arch
+          </div>
+          {loading ? (
+            <div className="p-4 text-[13px] text-text-tertiary">Loading...</div>
+          ) : byPlatform.length === 0 ? (
+            <div className="p-4 text-[13px] text-text-tertiary">No agents.</div>
+          ) : (
+            <div className="divide-y divide-border-primary">
+              {byPlatform.map((p) => (
+                <button
+                  key={`${p.os}|${p.arch}`}
+                  type="button"
+                  onClick={() => {
+                    const qs = new URLSearchParams();
+                    if (p.os) qs.set('os', p.os);
+                    if (p.arch) qs.set('arch', p.arch);
+                    router.push(`/dashboard/agents?${qs}`);
+                  }}
+                  className="w-full grid grid-cols-[1fr_60px_50px] gap-3 px-4 py-2 text-left text-[13px] hover:bg-bg-tertiary/30 transition-colors cursor-pointer"
+                >
+                  <span className="text-text-primary font-mono truncate">
+                    {p.os ? `${p.os}/${p.arch || '?'}` : 'Unknown'}
+                  </span>
+                  <span className="text-right text-text-secondary">
+                    {p.count}
+                  </span>
+                  <span className="text-right text-text-tertiary">
+                    {percent(p.count)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Version */}
+        <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-border-primary text-[14px] font-semibold text-text-primary">
+            By Version
+          </div>
+          {loading ? (
+            <div className="p-4 text-[13px] text-text-tertiary">Loading...</div>
+          ) : byVersion.length === 0 ? (
+            <div className="p-4 text-[13px] text-text-tertiary">No agents.</div>
+          ) : (
+            <div className="divide-y divide-border-primary">
+              {byVersion.map((v) => (
+                <button
+                  key={v.version || 'unknown'}
+                  type="button"
+                  disabled={!v.version}
+                  onClick={() =>
+                    router.push(
+                      `/dashboard/agents?version=${encodeURIComponent(v.version)}`,
+                    )
+                  }
+                  className="w-full grid grid-cols-[1fr_auto_60px_50px] gap-3 px-4 py-2 text-left text-[13px] hover:bg-bg-tertiary/30 transition-colors cursor-pointer disabled:cursor-default"
+                >
+                  <span className="text-text-primary font-mono truncate">
+                    {v.version || 'Unknown'}
+                  </span>
+                  <VersionBadge status={versionStatus(v.version)} />
+                  <span className="text-right text-text-secondary">
+                    {v.count}
+                  </span>
+                  <span className="text-right text-text-tertiary">
+                    {percent(v.count)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Outdated agents */}
+      {outdatedAgents.length > 0 && (
+        <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-border-primary text-[14px] font-semibold text-text-primary">
+            Behind {latestVersion} ({outdatedAgents.length})
+          </div>
+          <div className="divide-y divide-border-primary">
+            {outdatedAgents.slice(0, OUTDATED_PREVIEW_LIMIT).map((agent) => (
+              <div
+                key={agent.id}
+                onClick={() => router.push(`/dashboard/agents/${agent.id}`)}
+                className="flex items-center justify-between gap-3 px-4 py-2 text-[13px] hover:bg-bg-tertiary/30 cursor-pointer transition-colors"
+              >
+                <span className="text-text-primary truncate">
+                  {agent.display_name || agent.name || agent.thing_name}
+                </span>
+                <span className="text-text-tertiary font-mono shrink-0">
+                  {agent.os}/{agent.arch} · v{normalizeVersion(agent.version)}
+                </span>
+              </div>
+            ))}
+            {outdatedAgents.length > OUTDATED_PREVIEW_LIMIT && (
+              <div className="px-4 py-2 text-[12px] text-text-tertiary">
+                and {outdatedAgents.length - OUTDATED_PREVIEW_LIMIT} more —
+                export the CSV for the full breakdown.
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function VersionBadge({ status }: { status: VersionStatus }) {
+  const style: Record<VersionStatus, string> = {
+    latest: 'bg-accent-success/10 text-accent-success',
+    behind: 'bg-accent-warning/10 text-accent-warning',
+    ahead: 'bg-accent-info/10 text-accent-info',
+    unknown: 'bg-bg-tertiary text-text-tertiary',
+  };
+  return (
+    <span
+      className={`inline-flex text-[11px] font-medium px-2 py-0.5 rounded-full ${style[status]}`}
+    >
+      {status}
+    </span>
+  );
+}
@@ -1,48 +1,263 @@
 'use client';
 
-import { useCallback, useEffect, useState } from 'react';
-import { useRouter } from 'next/navigation';
-import { agentApi, type Agent } from '@/lib/api';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import {
+  ApiError,
+  agentApi,
+  type Agent,
+  type AgentGroup,
+  type AgentSortKey,
+  STALE_AFTER_SECONDS,
+} from '@/lib/api';
+import { BulkAgentActions } from '@/components/BulkAgentActions';
+
+const PAGE_SIZE = 50;
+
+const STATUS_OPTIONS = [
+  { label: 'All', value: '' },
+  { label: 'Online', value: 'online' },
+  { label: 'Offline', value: 'offline' },
+  { label: 'Revoked', value: 'revoked' },
+];
+
+const OS_FILTER_OPTIONS = ['linux', 'darwin', 'windows'];
+const ARCH_FILTER_OPTIONS = ['amd64', 'arm64'];
+
+// 처음 클릭했을 때의 정렬 방향 — 시간 컬럼은 최신순이 기본
+const DEFAULT_SORT_ORDER: Record<AgentSortKey, 'asc' | 'desc'> = {
+  name: 'asc',
+  os: 'asc',
+  version: 'desc',
+  status: 'asc',
+  last_seen_at: 'desc',
+  created_at: 'desc',
+};
+
+const SORT_KEYS = Object.keys(DEFAULT_SORT_ORDER) as AgentSortKey[];
+
+// URL 쿼리가 필터의 유일한 출처 — 링크 공유, 뒤로가기 시 그대로 복원
+type AgentListFilters = {
+  status: string;
+  q: string;
+  group: string;
+  os: string;
+  arch: string;
+  version: string;
+  stale: boolean;
+  sort: AgentSortKey | '';
+  order: 'asc' | 'desc';
+  page: number;
+};
+
+function readFilters(searchParams: URLSearchParams): AgentListFilters {
+  const sort = searchParams.get('sort') || '';
+  const page = Number(searchParams.get('page'));
+  return {
+    status: searchParams.get('status') || '',
+    q: searchParams.get('q') || '',
+    group: searchParams.get('group') || '',
+    os: searchParams.get('os') || '',
+    arch: searchParams.get('arch') || '',
+    version: searchParams.get('version') || '',
+    stale: searchParams.get('stale') === '1',
+    sort: SORT_KEYS.includes(sort as AgentSortKey)
+      ? (sort as AgentSortKey)
+      : '',
+    order: searchParams.get('order') === 'asc' ? 'asc' : 'desc',
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+}
 
 export default function AgentsListPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const filters = useMemo(
+    () => readFilters(new URLSearchParams(searchParams.toString())),
+    [searchParams],
+  );
+
   const [agents, setAgents] = useState<Agent[]>([]);
   const [total, setTotal] = useState(0);
+  const [groups, setGroups] = useState<AgentGroup[]>([]);
   const [loading, setLoading] = useState(true);
-  const [statusFilter, setStatusFilter] = useState<string>('');
+  const [error, setError] = useState('');
+  const [searchInput, setSearchInput] = useState(filters.q);
+  // 페이지를 넘겨도 선택이 유지되도록 Agent 객체째 보관
+  const [selected, setSelected] = useState<Map<string, Agent>>(new Map());
 
-  const fetchAgents = useCallback(() => {
-    setLoading(true);
-    agentApi
-      .list({ status: statusFilter || undefined, limit: 50 })
-      .then((res) => {
-        setAgents(res.agents);
-        setTotal(res.total);
-      })
-      .catch(() => {})
-      .finally(() => setLoading(false));
-  }, [statusFilter]);
+  // 필터를 바꾸면 첫 페이지로 돌아간다 (page를 직접 바꿀 때만 유지)
+  const updateQuery = useCallback(
+    (patch: Partial<Record<keyof AgentListFilters, string>>) => {
+      const qs = new URLSearchParams(searchParams.toString());
+      for (const [key, value] of Object.entries(patch)) {
+        if (value) qs.set(key, value);
+        else qs.delete(key);
+      }
+      if (!('page' in patch)) qs.delete('page');
+      const query = qs.toString();
+      router.replace(`/dashboard/agents${query ? `?${query}` : ''}`);
+    },
+    [router, searchParams],
+  );
+
+  // 검색어 입력 중에는 요청이 겹치므로 마지막 요청의 응답만 반영한다
+  const latestRequest = useRef(0);
+
+  const fetchAgents = useCallback(async () => {
+    const request = ++latestRequest.current;
+    const res = await agentApi.list({
+      status: filters.status || undefined,
+      q: filters.q || undefined,
+      group_id: filters.group || undefined,
+      os: filters.os || undefined,
+      arch: filters.arch || undefined,
+      version: filters.version || undefined,
+      seen_before: filters.stale
+        ? Math.floor(Date.now() / 1000) - STALE_AFTER_SECONDS
+        : undefined,
+      sort: filters.sort || undefined,
+      order: filters.sort ? filters.order : undefined,
+      limit: PAGE_SIZE,
+      offset: (filters.page - 1) * PAGE_SIZE,
+    });
+    if (request !== latestRequest.current) return;
+    setAgents(res.agents);
+    setTotal(res.total);
+  }, [filters]);
 
   useEffect(() => {
-    fetchAgents();
+    let cancelled = false;
+    (async () => {
+      try {
+        setLoading(true);
+        setError('');
+        await fetchAgents();
+      } catch (err) {
+        if (cancelled) return;
+        if (err instanceof ApiError) setError(err.message);
+        else setError('Failed to load agents.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
   }, [fetchAgents]);
 
+  useEffect(() => {
+    agentApi
+      .listGroups()
+      .then((res) => setGroups(res.groups))
+      .catch(() => {});
+  }, []);
+
+  // 뒤로가기, Reset, 링크 등 입력창 밖에서 q가 바뀌면 입력창을 맞춘다
+  // 직접 보낸 값이 돌아온 경우는 그 사이 더 입력했을 수 있으니 건드리지 않음
+  const pushedQuery = useRef(filters.q);
+  useEffect(() => {
+    if (filters.q === pushedQuery.current) return;
+    pushedQuery.current = filters.q;
+    setSearchInput(filters.q);
+  }, [filters.q]);
+
+  // 입력이 멈춘 뒤에만 URL(=서버 검색)을 갱신
+  useEffect(() => {
+    const trimmed = searchInput.trim();
+    if (trimmed === filters.q) return;
+    const timer = setTimeout(() => {
+      pushedQuery.current = trimmed;
+      updateQuery({ q: trimmed });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput, filters.q, updateQuery]);
+
+  const toggleSelected = (agent: Agent) => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      if (next.has(agent.id)) next.delete(agent.id);
+      else next.set(agent.id, agent);
+      return next;
+    });
+  };
+
+  const allOnPageSelected =
+    agents.length > 0 && agents.every((a) => selected.has(a.id));
+
+  const toggleSelectPage = () => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      for (const agent of agents) {
+        if (allOnPageSelected) next.delete(agent.id);
+        else next.set(agent.id, agent);
+      }
+      return next;
+    });
+  };
+
+  const handleBulkDone = (succeededIds: string[]) => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      for (const id of succeededIds) next.delete(id);
+      return next;
+    });
+    fetchAgents().catch(() => {});
+  };
+
+  const handleSort = (key: AgentSortKey) => {
+    if (filters.sort === key) {
+      updateQuery({ order: filters.order === 'asc' ? 'desc' : 'asc' });
+    } else {
+      updateQuery({ sort: key, order: DEFAULT_SORT_ORDER[key] });
+    }
+  };
+
+  const hasFilters = !!(
+    filters.status ||
+    filters.q ||
+    filters.group ||
+    filters.os ||
+    filters.arch ||
+    filters.version ||
+    filters.stale
+  );
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const rangeStart = total === 0 ? 0 : (filters.page - 1) * PAGE_SIZE + 1;
+  const rangeEnd = Math.min(filters.page * PAGE_SIZE, total);
+
+  const sortHeader = (key: AgentSortKey, label: string) => (
+    <button
+      type="button"
+      onClick={() => handleSort(key)}
+      className={`flex items-center gap-1 uppercase tracking-wide cursor-pointer hover:text-text-primary ${
+        filters.sort === key ? 'text-text-primary' : ''
+      }`}
+    >
+      {label}
+      {filters.sort === key && (
+        <span className="text-[10px]">
+          {filters.order === 'asc' ? '▲' : '▼'}
+        </span>
+      )}
+    </button>
+  );
+
+  const selectClass =
+    'h-9 px-3 text-[13px] bg-bg-secondary border border-border-primary rounded-sm text-text-primary focus:outline-none focus:border-border-focus transition-colors cursor-pointer';
+
   return (
     <div className="space-y-4">
       {/* Toolbar: stack on mobile, row on sm+ */}
       <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
         <div className="flex flex-wrap items-center gap-2">
           <div className="flex items-center bg-bg-secondary border border-border-primary rounded-sm overflow-hidden">
-            {[
-              { label: 'All', value: '' },
-              { label: 'Online', value: 'online' },
-              { label: 'Offline', value: 'offline' },
-            ].map((opt) => (
+            {STATUS_OPTIONS.map((opt) => (
               <button
                 key={opt.value}
-                onClick={() => setStatusFilter(opt.value)}
+                onClick={() => updateQuery({ status: opt.value })}
                 className={`px-3 py-1.5 text-[13px] font-medium transition-colors cursor-pointer ${
-                  statusFilter === opt.value
+                  filters.status === opt.value
                     ? 'bg-accent-primary text-white'
                     : 'text-text-secondary hover:text-text-primary hover:bg-bg-tertiary'
                 }`}
@@ -77,6 +292,101 @@ export default function AgentsListPage() {
         </button>
       </div>
 
+      {/* Search + filters */}
+      <div className="flex flex-col gap-2 md:flex-row md:flex-wrap md:items-center">
+        <input
+          type="search"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="Search name, thing name, machine ID, description"
+          className="h-9 px-3 text-[13px] bg-bg-secondary border border-border-primary rounded-sm text-text-primary placeholder:text-text-tertiary focus:outline-none focus:border-border-focus transition-colors w-full md:w-80"
+        />
+        <select
+          value={filters.group}
+          onChange={(e) => updateQuery({ group: e.target.value })}
+          className={selectClass}
+        >
+          <option value="">All groups</option>
+          {groups.map((g) => (
+            <option key={g.id} value={g.id}>
+              {g.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.os}
+          onChange={(e) => updateQuery({ os: e.target.value })}
+          className={selectClass}
+        >
+          <option value="">All OS</option>
+          {OS_FILTER_OPTIONS.map((os) => (
+            <option key={os} value={os}>
+              {os}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.arch}
+          onChange={(e) => updateQuery({ arch: e.target.value })}
+          className={selectClass}
+        >
+          <option value="">All arch</option>
+          {ARCH_FILTER_OPTIONS.map((arch) => (
+            <option key={arch} value={arch}>
+              {arch}
+            </option>
+          ))}
+        </select>
+        <input
+          key={filters.version}
+          defaultValue={filters.version}
+          onBlur={(e) => updateQuery({ version: e.target.value.trim() })}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              updateQuery({ version: e.currentTarget.value.trim() });
+            }
+          }}
+          placeholder="Version"
+          className="h-9 px-3 text-[13px] font-mono bg-bg-secondary border border-border-primary rounded-sm text-text-primary placeholder:text-text-tertiary focus:outline-none focus:border-border-focus transition-colors w-full md:w-32"
+        />
+        <button
+          type="button"
+          onClick={() => updateQuery({ stale: filters.stale ? '' : '1' })}
+          className={`h-9 px-3 text-[13px] border rounded-sm transition-colors cursor-pointer ${
+            filters.stale
+              ? 'bg-accent-warning/10 border-accent-warning/30 text-accent-warning'
+              : 'bg-bg-secondary border-border-primary text-text-secondary hover:text-text-primary'
+          }`}
+        >
+          Stale (24h+)
+        </button>
+        {hasFilters && (
+          <button
+            type="button"
+            onClick={() => {
+              setSearchInput('');
+              router.replace('/dashboard/agents');
+            }}
+            className="h-9 px-3 text-[13px] text-text-secondary hover:text-text-primary cursor-pointer"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-sm bg-accent-danger/10 border border-accent-danger/20 text-[13px] text-accent-danger">
+          {error}
+        </div>
+      )}
+
+      <BulkAgentActions
+        selected={Array.from(selected.values())}
+        groups={groups}
+        onClear={() => setSelected(new Map())}
+        onDone={handleBulkDone}
+      />
+
       {/* Desktop: table | Mobile: card list */}
       <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm overflow-hidden">
         {loading ? (
@@ -86,11 +396,11 @@ export default function AgentsListPage() {
         ) : agents.length === 0 ? (
           <div className="p-8 text-center">
             <p className="text-text-tertiary text-sm mb-3">
-              {statusFilter
+              {hasFilters
                 ? 'No matching agents.'
                 : 'No agents registered yet.'}
             </p>
-            {!statusFilter && (
+            {!hasFilters && (
               <button
                 onClick={() => router.push('/dashboard/agents/register')}
                 className="text-[13px] text-accent-primary hover:text-accent-primary-hover font-medium cursor-pointer"
@@ -103,21 +413,36 @@ export default function AgentsListPage() {
           <>
             {/* Table: hidden on small, visible md+ */}
             <div className="hidden md:block overflow-x-auto">
-              <div className="grid grid-cols-[auto_1fr_120px_100px_80px_140px] min-w-[640px] gap-4 px-4 sm:px-5 py-3 border-b border-border-primary bg-bg-tertiary/50 text-[12px] font-medium text-text-secondary uppercase tracking-wide">
+              <div className="grid grid-cols-[auto_auto_1fr_120px_100px_80px_140px] min-w-[640px] gap-4 px-4 sm:px-5 py-3 border-b border-border-primary bg-bg-tertiary/50 text-[12px] font-medium text-text-secondary uppercase tracking-wide">
+                <input
+                  type="checkbox"
+                  checked={allOnPageSelected}
+                  onChange={toggleSelectPage}
+                  aria-label="Select all on this page"
+                  className="cursor-pointer"
+                />
                 <div className="w-3" />
-                <div>Name</div>
-                <div>OS / Arch</div>
-                <div>Version</div>
-                <div>Status</div>
-                <div>Last Seen</div>
+                <div>{sortHeader('name', 'Name')}</div>
+                <div>{sortHeader('os', 'OS / Arch')}</div>
+                <div>{sortHeader('version', 'Version')}</div>
+                <div>{sortHeader('status', 'Status')}</div>
+                <div>{sortHeader('last_seen_at', 'Last Seen')}</div>
               </div>
               <div className="divide-y divide-border-primary">
                 {agents.map((agent) => (
                   <div
                     key={agent.id}
                     onClick={() => router.push(`/dashboard/agents/${agent.id}`)}
-                    className="grid grid-cols-[auto_1fr_120px_100px_80px_140px] min-w-[640px] gap-4 px-4 sm:px-5 py-3 hover:bg-bg-tertiary/30 cursor-pointer transition-colors items-center"
+                    className="grid grid-cols-[auto_auto_1fr_120px_100px_80px_140px] min-w-[640px] gap-4 px-4 sm:px-5 py-3 hover:bg-bg-tertiary/30 cursor-pointer transition-colors items-center"
                   >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(agent.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={() => toggleSelected(agent)}
+                      aria-label={`Select ${agent.name || agent.thing_name}`}
+                      className="cursor-pointer"
+                    />
                     <div
                       className={`w-2.5 h-2.5 rounded-full shrink-0 ${
                         agent.status === 'online'
@@ -169,75 +494,116 @@ export default function AgentsListPage() {
             {/* Cards: visible on small, hidden md+ */}
             <div className="md:hidden divide-y divide-border-primary">
               {agents.map((agent) => (
-                <button
+                <div
                   key={agent.id}
-                  type="button"
-                  onClick={() => router.push(`/dashboard/agents/${agent.id}`)}
-                  className="w-full text-left px-4 py-3 hover:bg-bg-tertiary/30 active:bg-bg-tertiary/50 transition-colors cursor-pointer"
+                  className="flex items-start hover:bg-bg-tertiary/30 active:bg-bg-tertiary/50 transition-colors"
                 >
-                  <div className="flex items-start gap-3">
-                    <div
-                      className={`w-2.5 h-2.5 rounded-full shrink-0 mt-1.5 ${
-                        agent.status === 'online'
-                          ? 'bg-accent-success'
-                          : agent.status === 'revoked'
-                            ? 'bg-accent-danger'
-                            : 'bg-border-secondary'
-                      }`}
-                    />
-                    <div className="flex-1 min-w-0">
-                      <div className="text-[13px] font-medium text-text-primary truncate">
-                        {agent.name || agent.thing_name}
-                      </div>
-                      {agent.name && (
-                        <div className="text-[11px] text-text-tertiary font-mono truncate mt-0.5">
-                          {agent.thing_name}
+                  <input
+                    type="checkbox"
+                    checked={selected.has(agent.id)}
+                    onChange={() => toggleSelected(agent)}
+                    aria-label={`Select ${agent.name || agent.thing_name}`}
+                    className="ml-4 mt-4 cursor-pointer"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => router.push(`/dashboard/agents/${agent.id}`)}
+                    className="flex-1 min-w-0 text-left px-4 py-3 cursor-pointer"
+                  >
+                    <div className="flex items-start gap-3">
+                      <div
+                        className={`w-2.5 h-2.5 rounded-full shrink-0 mt-1.5 ${
+                          agent.status === 'online'
+                            ? 'bg-accent-success'
+                            : agent.status === 'revoked'
+                              ? 'bg-accent-danger'
+                              : 'bg-border-secondary'
+                        }`}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="text-[13px] font-medium text-text-primary truncate">
+                          {agent.name || agent.thing_name}
                         </div>
-                      )}
-                      <div className="flex flex-wrap items-center gap-2 mt-2 text-[12px] text-text-tertiary">
-                        {agent.os && (
-                          <span>
-                            {agent.os}/{agent.arch}
-                          </span>
+                        {agent.name && (
+                          <div className="text-[11px] text-text-tertiary font-mono truncate mt-0.5">
+                            {agent.thing_name}
+                          </div>
                         )}
-                        {agent.version && (
-                          <span className="font-mono">v{agent.version}</span>
-                        )}
-                        <span
-                          className={`inline-flex text-[11px] font-medium px-2 py-0.5 rounded-full ${
-                            agent.status === 'online'
-                              ? 'bg-accent-success/10 text-accent-success'
-                              : agent.status === 'revoked'
-                                ? 'bg-accent-danger/10 text-accent-danger'
-                                : 'bg-bg-tertiary text-text-tertiary'
-                          }`}
-                        >
-                          {agent.status}
-                        </span>
-                      </div>
-                      <div className="text-[11px] text-text-tertiary mt-1">
-                        Last seen:{' '}
-                        {agent.last_seen_at
-                          ? formatTimeAgo(agent.last_seen_at)
-                          : 'Never'}
+                        <div className="flex flex-wrap items-center gap-2 mt-2 text-[12px] text-text-tertiary">
+                          {agent.os && (
+                            <span>
+                              {agent.os}/{agent.arch}
+                            </span>
+                          )}
+                          {agent.version && (
+                            <span className="font-mono">v{agent.version}</span>
+                          )}
+                          <span
+                            className={`inline-flex text-[11px] font-medium px-2 py-0.5 rounded-full ${
+                              agent.status === 'online'
+                                ? 'bg-accent-success/10 text-accent-success'
+                                : agent.status === 'revoked'
+                                  ? 'bg-accent-danger/10 text-accent-danger'
+                                  : 'bg-bg-tertiary text-text-tertiary'
+                            }`}
+                          >
+                            {agent.status}
+                          </span>
+                        </div>
+                        <div className="text-[11px] text-text-tertiary mt-1">
+                          Last seen:{' '}
+                          {agent.last_seen_at
+                            ? formatTimeAgo(agent.last_seen_at)
+                            : 'Never'}
+                        </div>
                       </div>
+                      <svg
+                        className="w-4 h-4 text-text-tertiary shrink-0 mt-1"
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2"
+                      >
+                        <polyline points="9 18 15 12 9 6" />
+                      </svg>
                     </div>
-                    <svg
-                      className="w-4 h-4 text-text-tertiary shrink-0 mt-1"
-                      viewBox="0 0 24 24"
-                      fill="none"
-                      stroke="currentColor"
-                      strokeWidth="2"
-                    >
-                      <polyline points="9 18 15 12 9 6" />
-                    </svg>
-                  </div>
-                </button>
+                  </button>
+                </div>
               ))}
             </div>
           </>
         )}
       </div>
+
+      {/* Pagination */}
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between gap-3 text-[13px] text-text-secondary">
+          <span>
+            {rangeStart}–{rangeEnd} of {total}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              disabled={filters.page <= 1 || loading}
+              onClick={() => updateQuery({ page: String(filters.page - 1) })}
+              className="h-8 px-3 border border-border-primary rounded-sm hover:bg-bg-tertiary transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <span className="text-text-tertiary">
+              Page {filters.page} of {totalPages}
+            </span>
+            <button
+              type="button"
+              disabled={filters.page >= totalPages || loading}
+              onClick={() => updateQuery({ page: String(filters.page + 1) })}
+              className="h-8 px-3 border border-border-primary rounded-sm hover:bg-bg-tertiary transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -2,33 +2,7 @@
 
 import { useEffect, useState, type FormEvent } from 'react';
 import { agentApi, ApiError, type AgentGroup } from '@/lib/api';
-
-const AGENT_RELEASE_BASE =
-  process.env.NEXT_PUBLIC_AGENT_RELEASE_URL ||
-  'https://download.socquery.com/releases/latest';
-
-const OS_OPTIONS = [
-  { id: 'linux', label: 'Linux (x64)', asset: 'soc-linux', isWindows: false },
-  {
-    id: 'linux-arm64',
-    label: 'Linux (ARM64 / Raspberry Pi 4/5)',
-    asset: 'soc-linux-arm64',
-    isWindows: false,
-  },
-  {
-    id: 'darwin-arm64',
-    label: 'macOS (Apple Silicon)',
-    asset: 'soc-darwin-arm64',
-    isWindows: false,
-  },
-  {
-    id: 'darwin-amd64',
-    label: 'macOS (Intel)',
-    asset: 'soc-darwin-amd64',
-    isWindows: false,
-  },
-  { id: 'windows', label: 'Windows (x64)', asset: 'soc.exe', isWindows: true },
-] as const;
+import { AGENT_RELEASE_BASE, OS_OPTIONS } from '@/lib/releases';
 
 type TokenInfo = {
   token: string;
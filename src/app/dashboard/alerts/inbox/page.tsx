@@ -0,0 +1,408 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ApiError,
+  agentApi,
+  authApi,
+  listAllAgents,
+  type Agent,
+  type AgentAlertOccurrence,
+  type AgentGroup,
+  type AgentGroupRule,
+  type AlertListParams,
+  type AlertSilence,
+  type AlertStatus,
+} from '@/lib/api';
+import {
+  ALERT_STATUS_OPTIONS,
+  groupIntoIncidents,
+  INCIDENT_WINDOW_OPTIONS,
+} from '@/lib/alerts';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { METRIC_OPTIONS } from '@/lib/rules';
+import { AlertTriageList } from '@/components/AlertTriageList';
+import { AlertIncidentList } from '@/components/AlertIncidentList';
+
+type InboxFilters = {
+  status: AlertStatus | '';
+  severity: '' | 'info' | 'warning' | 'critical';
+  groupId: string;
+  metric: string;
+  agentId: string;
+  ruleId: string;
+  range: string;
+};
+
+const PAGE_SIZE = 50;
+
+const TIME_RANGES = [
+  { value: '1h', label: 'Last hour', seconds: 3600 },
+  { value: '24h', label: 'Last 24 hours', seconds: 86400 },
+  { value: '7d', label: 'Last 7 days', seconds: 7 * 86400 },
+  { value: '30d', label: 'Last 30 days', seconds: 30 * 86400 },
+  { value: '', label: 'All time', seconds: 0 },
+];
+
+const INITIAL_FILTERS: InboxFilters = {
+  status: 'open',
+  severity: '',
+  groupId: '',
+  metric: '',
+  agentId: '',
+  ruleId: '',
+  range: '24h',
+};
+
+export default function AlertInboxPage() {
+  const [filters, setFilters] = useState<InboxFilters>(INITIAL_FILTERS);
+  const [alerts, setAlerts] = useState<AgentAlertOccurrence[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // 새 알림이 끼어들면 목록이 밀리므로 화면 개수 대신 서버 offset을 따로 센다
+  const [nextOffset, setNextOffset] = useState(0);
+  const [exhausted, setExhausted] = useState(false);
+  const [error, setError] = useState('');
+
+  const [groups, setGroups] = useState<AgentGroup[]>([]);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [rules, setRules] = useState<AgentGroupRule[]>([]);
+  const [silences, setSilences] = useState<AlertSilence[]>([]);
+  const [currentUser, setCurrentUser] = useState('');
+  // 0이면 묶지 않고 발생 건별로 표시
+  const [incidentWindow, setIncidentWindow] = useState(15 * 60);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  // 필터 옵션: 그룹, 장비, 전체 그룹의 룰
+  useEffect(() => {
+    (async () => {
+      try {
+        const [groupsRes, agentList] = await Promise.all([
+          agentApi.listGroups(),
+          listAllAgents(),
+        ]);
+        setGroups(groupsRes.groups);
+        setAgents(agentList);
+        const ruleLists = await mapWithConcurrency(
+          groupsRes.groups,
+          5,
+          (g) =>
+            agentApi
+              .listGroupRules(g.id)
+              .then((res) => res.rules)
+              .catch(() => [] as AgentGroupRule[]),
+        );
+        setRules(ruleLists.flat());
+      } catch {
+        /* 필터 옵션 없이도 inbox는 동작 */
+      }
+    })();
+    agentApi
+      .listSilences()
+      .then((res) => setSilences(res.silences))
+      .catch(() => {});
+    authApi
+      .me()
+      .then((res) => setCurrentUser(res.user.name || res.user.email))
+      .catch(() => {});
+  }, []);
+
+  const queryParams = useMemo((): AlertListParams => {
+    const range = TIME_RANGES.find((r) => r.value === filters.range);
+    return {
+      status: filters.status || undefined,
+      severity: filters.severity || undefined,
+      group_id: filters.groupId || undefined,
+      metric: filters.metric || undefined,
+      agent_id: filters.agentId || undefined,
+      rule_id: filters.ruleId || undefined,
+      since: range?.seconds
+        ? Math.floor(Date.now() / 1000) - range.seconds
+        : undefined,
+    };
+  }, [filters]);
+
+  // 필터를 연달아 바꾸면 늦게 도착한 이전 응답은 버린다
+  const activeQuery = useRef(queryParams);
+
+  useEffect(() => {
+    activeQuery.current = queryParams;
+    let cancelled = false;
+    (async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const res = await agentApi.listAlerts({
+          ...queryParams,
+          limit: PAGE_SIZE,
+        });
+        if (cancelled) return;
+        setAlerts(res.alerts);
+        setTotal(res.total);
+        setNextOffset(res.alerts.length);
+        setExhausted(false);
+      } catch (err) {
+        if (cancelled) return;
+        if (err instanceof ApiError) setError(err.message);
+        else setError('Failed to load alerts.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [queryParams]);
+
+  const hasMore = !exhausted && nextOffset < total;
+
+  const loadMore = useCallback(async () => {
+    if (loading || loadingMore || !hasMore) return;
+    try {
+      setLoadingMore(true);
+      const res = await agentApi.listAlerts({
+        ...queryParams,
+        limit: PAGE_SIZE,
+        offset: nextOffset,
+      });
+      if (activeQuery.current !== queryParams) return;
+      // 페이지 사이에 새 알림이 들어오면 offset이 밀려 중복될 수 있다
+      const seen = new Set(alerts.map((a) => a.id));
+      const fresh = res.alerts.filter((a) => !seen.has(a.id));
+      setAlerts((prev) => [...prev, ...fresh]);
+      setTotal(res.total);
+      setNextOffset(nextOffset + res.alerts.length);
+      if (fresh.length === 0) setExhausted(true);
+    } catch {
+      // 실패한 채로 sentinel이 보이면 같은 요청을 반복하므로 자동 로딩을 멈춘다
+      setExhausted(true);
+      setError('Failed to load more alerts.');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [alerts, hasMore, loading, loadingMore, nextOffset, queryParams]);
+
+  // 목록 끝의 sentinel이 보이면 다음 페이지를 불러온다
+  useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) loadMore();
+      },
+      { rootMargin: '200px' },
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
+  const setFilter = <K extends keyof InboxFilters>(
+    key: K,
+    value: InboxFilters[K],
+  ) => setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const handleAlertUpdated = (updated: AgentAlertOccurrence) => {
+    setAlerts((prev) =>
+      prev.map((a) => (a.id === updated.id ? { ...a, ...updated } : a)),
+    );
+  };
+
+  const groupNames = useMemo(
+    () => Object.fromEntries(groups.map((g) => [g.id, g.name])),
+    [groups],
+  );
+
+  const silenceNames = useMemo(
+    () => Object.fromEntries(silences.map((s) => [s.id, s.name])),
+    [silences],
+  );
+
+  const incidents = useMemo(
+    () =>
+      incidentWindow > 0 ? groupIntoIncidents(alerts, incidentWindow) : [],
+    [alerts, incidentWindow],
+  );
+
+  const visibleRules = filters.groupId
+    ? rules.filter((r) => r.group_id === filters.groupId)
+    : rules;
+  const visibleAgents = filters.groupId
+    ? agents.filter((a) => a.group_id === filters.groupId)
+    : agents;
+
+  const selectClass =
+    'h-9 px-3 text-[13px] bg-bg-secondary border border-border-primary rounded-sm text-text-primary focus:outline-none focus:border-border-focus transition-colors cursor-pointer';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-2 md:flex-row md:flex-wrap md:items-center">
+        <select
+          value={filters.status}
+          onChange={(e) =>
+            setFilter('status', e.target.value as InboxFilters['status'])
+          }
+          className={selectClass}
+        >
+          {ALERT_STATUS_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
+            </option>
+          ))}
+          <option value="">Any status</option>
+        </select>
+        <select
+          value={filters.severity}
+          onChange={(e) =>
+            setFilter('severity', e.target.value as InboxFilters['severity'])
+          }
+          className={selectClass}
+        >
+          <option value="">Any severity</option>
+          <option value="critical">Critical</option>
+          <option value="warning">Warning</option>
+          <option value="info">Info</option>
+        </select>
+        <select
+          value={filters.range}
+          onChange={(e) => setFilter('range', e.target.value)}
+          className={selectClass}
+        >
+          {TIME_RANGES.map((r) => (
+            <option key={r.value} value={r.value}>
+              {r.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.groupId}
+          onChange={(e) =>
+            setFilters((prev) => ({
+              ...prev,
+              groupId: e.target.value,
+              agentId: '',
+              ruleId: '',
+            }))
+          }
+          className={selectClass}
+        >
+          <option value="">All groups</option>
+          {groups.map((g) => (
+            <option key={g.id} value={g.id}>
+              {g.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.metric}
+          onChange={(e) => setFilter('metric', e.target.value)}
+          className={selectClass}
+        >
+          <option value="">Any metric</option>
+          {METRIC_OPTIONS.map(({ value: m }) => (
+            <option key={m} value={m}>
+              {m}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.agentId}
+          onChange={(e) => setFilter('agentId', e.target.value)}
+          className={`${selectClass} max-w-[220px]`}
+        >
+          <option value="">All agents</option>
+          {visibleAgents.map((a) => (
+            <option key={a.id} value={a.id}>
+              {a.display_name || a.name || a.thing_name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.ruleId}
+          onChange={(e) => setFilter('ruleId', e.target.value)}
+          className={`${selectClass} max-w-[220px]`}
+        >
+          <option value="">All rules</option>
+          {visibleRules.map((r) => (
+            <option key={r.id} value={r.id}>
+              {filters.groupId
+                ? r.name
+                : `${groupNames[r.group_id] ?? '?'} / ${r.name}`}
+            </option>
+          ))}
+        </select>
+        <select
+          value={incidentWindow}
+          onChange={(e) => setIncidentWindow(Number(e.target.value))}
+          className={selectClass}
+        >
+          <option value={0}>No grouping</option>
+          {INCIDENT_WINDOW_OPTIONS.map((opt) => (
+            <option key={opt.seconds} value={opt.seconds}>
+              Group within {opt.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => setFilters(INITIAL_FILTERS)}
+          className="h-9 px-3 text-[13px] text-text-secondary hover:text-text-primary cursor-pointer"
+        >
+          Reset
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-sm bg-accent-danger/10 border border-accent-danger/20 text-[13px] text-accent-danger">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm overflow-hidden">
+        <div className="px-4 py-3 border-b border-border-primary text-[14px] font-semibold text-text-primary">
+          {loading ? 'Alerts' : `${total} alert${total !== 1 ? 's' : ''}`}
+          {!loading && incidentWindow > 0 && (
+            <span className="ml-2 text-[12px] font-normal text-text-tertiary">
+              {incidents.length} incident{incidents.length !== 1 ? 's' : ''}{' '}
+              in {alerts.length} loaded
+            </span>
+          )}
+        </div>
+        {loading ? (
+          <div className="p-4 text-[13px] text-text-tertiary">
+            Loading alerts...
+          </div>
+        ) : incidentWindow > 0 ? (
+          <AlertIncidentList
+            incidents={incidents}
+            currentUser={currentUser}
+            groupNames={groupNames}
+            silenceNames={silenceNames}
+            onUpdated={handleAlertUpdated}
+            emptyText="No alerts match these filters."
+          />
+        ) : (
+          <AlertTriageList
+            alerts={alerts}
+            currentUser={currentUser}
+            groupNames={groupNames}
+            silenceNames={silenceNames}
+            onUpdated={handleAlertUpdated}
+            emptyText="No alerts match these filters."
+          />
+        )}
+        <div ref={sentinelRef} />
+        {loadingMore && (
+          <div className="p-3 text-center text-[12px] text-text-tertiary">
+            Loading more...
+          </div>
+        )}
+        {!loading && !hasMore && !error && alerts.length > PAGE_SIZE && (
+          <div className="p-3 text-center text-[12px] text-text-tertiary">
+            End of results
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
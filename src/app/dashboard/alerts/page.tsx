@@ -11,13 +11,47 @@ import { useSearchParams } from 'next/navigation';
 import {
   ApiError,
   agentApi,
+  authApi,
   type AgentGroup,
   type AgentGroupAlertChannel,
+  type AgentGroupRule,
+  type AlertChannelRouting,
   type AgentAlertOccurrence,
+  type AlertChannelType,
+  type AlertSilence,
+  type AlertStatus,
 } from '@/lib/api';
+import { ALERT_STATUS_OPTIONS } from '@/lib/alerts';
+import { AlertTriageList } from '@/components/AlertTriageList';
+import { ChannelDeliveryLog } from '@/components/ChannelDeliveryLog';
+import { ChannelRoutingEditor } from '@/components/ChannelRoutingEditor';
+import { EscalationPolicyManager } from '@/components/EscalationPolicyManager';
+import { WebhookTemplateEditor } from '@/components/WebhookTemplateEditor';
+import {
+  buildChannelPayload,
+  CHANNEL_TYPES,
+  DEFAULT_ROUTING,
+  describeRouting,
+  getChannelType,
+  isDefaultRouting,
+  parseChannelOptions,
+  parseChannelRouting,
+  severityColor,
+  validateChannelTarget,
+} from '@/lib/channels';
+import {
+  DEFAULT_WEBHOOK_BODY,
+  sampleAlertOccurrence,
+  validateWebhookTemplate,
+} from '@/lib/webhooks';
 
 type WebhookMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 
+const HISTORY_STATUS_FILTERS: { value: AlertStatus | ''; label: string }[] = [
+  ...ALERT_STATUS_OPTIONS,
+  { value: '', label: 'All' },
+];
+
 export default function AlertsPage() {
   const searchParams = useSearchParams();
   const groupIdFromQuery = searchParams.get('groupId') || '';
@@ -25,37 +59,51 @@ export default function AlertsPage() {
   const [groups, setGroups] = useState<AgentGroup[]>([]);
   const [selectedGroupId, setSelectedGroupId] = useState('');
   const [channels, setChannels] = useState<AgentGroupAlertChannel[]>([]);
+  const [groupRules, setGroupRules] = useState<AgentGroupRule[]>([]);
   const [alertHistory, setAlertHistory] = useState<AgentAlertOccurrence[]>([]);
+  const [historyStatus, setHistoryStatus] = useState<AlertStatus | ''>('open');
+  const [currentUser, setCurrentUser] = useState('');
+  const [silences, setSilences] = useState<AlertSilence[]>([]);
+  // 템플릿 미리보기용 — 그룹의 가장 최근 알림
+  const [latestAlert, setLatestAlert] = useState<AgentAlertOccurrence | null>(
+    null,
+  );
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
   const [notice, setNotice] = useState('');
 
-  const [channelType, setChannelType] = useState<'email' | 'webhook'>('email');
+  const [channelType, setChannelType] = useState<AlertChannelType>('email');
   const [target, setTarget] = useState('');
+  const [channelOptions, setChannelOptions] = useState<Record<string, string>>(
+    {},
+  );
+  const [channelRouting, setChannelRouting] =
+    useState<AlertChannelRouting>(DEFAULT_ROUTING);
   const [webhookMethod, setWebhookMethod] = useState<WebhookMethod>('POST');
   const [webhookHeaders, setWebhookHeaders] = useState(
     '{\n  "Content-Type": "application/json"\n}',
   );
-  const [webhookBody, setWebhookBody] = useState('{\n  "event": "anomaly"\n}');
+  const [webhookBody, setWebhookBody] = useState(DEFAULT_WEBHOOK_BODY);
 
   const [editingId, setEditingId] = useState('');
+  const [deliveryLogId, setDeliveryLogId] = useState('');
   const [editTarget, setEditTarget] = useState('');
   const [editMethod, setEditMethod] = useState<WebhookMethod>('POST');
   const [editHeaders, setEditHeaders] = useState(
     '{\n  "Content-Type": "application/json"\n}',
   );
   const [editBody, setEditBody] = useState('');
+  const [editOptions, setEditOptions] = useState<Record<string, string>>({});
+  const [editRouting, setEditRouting] =
+    useState<AlertChannelRouting>(DEFAULT_ROUTING);
 
   const selectedGroup = useMemo(
     () => groups.find((g) => g.id === selectedGroupId) || null,
     [groups, selectedGroupId],
   );
 
-  const targetPlaceholder =
-    channelType === 'email'
-      ? 'alert@example.com'
-      : 'https://example.com/webhook/socquery';
+  const channelDefinition = getChannelType(channelType);
 
   const parseHeadersJson = (value: string): Record<string, string> => {
     if (!value.trim()) return {};
@@ -105,14 +153,20 @@ export default function AlertsPage() {
     setChannels(res.channels);
   }, []);
 
-  const fetchAlertHistory = useCallback(async (groupId: string) => {
-    if (!groupId) {
-      setAlertHistory([]);
-      return;
-    }
-    const res = await agentApi.listGroupAlerts(groupId, { limit: 50 });
-    setAlertHistory(res.alerts);
-  }, []);
+  const fetchAlertHistory = useCallback(
+    async (groupId: string, status: AlertStatus | '') => {
+      if (!groupId) {
+        setAlertHistory([]);
+        return;
+      }
+      const res = await agentApi.listGroupAlerts(groupId, {
+        status: status || undefined,
+        limit: 50,
+      });
+      setAlertHistory(res.alerts);
+    },
+    [],
+  );
 
   useEffect(() => {
     (async () => {
@@ -134,10 +188,66 @@ export default function AlertsPage() {
   }, [fetchChannels, selectedGroupId]);
 
   useEffect(() => {
-    fetchAlertHistory(selectedGroupId).catch(() =>
+    setLatestAlert(null);
+    setGroupRules([]);
+    if (!selectedGroupId) return;
+    agentApi
+      .listGroupAlerts(selectedGroupId, { limit: 1 })
+      .then((res) => setLatestAlert(res.alerts[0] ?? null))
+      .catch(() => {});
+    agentApi
+      .listGroupRules(selectedGroupId)
+      .then((res) => setGroupRules(res.rules))
+      .catch(() => {});
+  }, [selectedGroupId]);
+
+  useEffect(() => {
+    fetchAlertHistory(selectedGroupId, historyStatus).catch(() =>
       setError('Failed to load alert history.'),
     );
-  }, [fetchAlertHistory, selectedGroupId]);
+  }, [fetchAlertHistory, selectedGroupId, historyStatus]);
+
+  useEffect(() => {
+    authApi
+      .me()
+      .then((res) => setCurrentUser(res.user.name || res.user.email))
+      .catch(() => {});
+    agentApi
+      .listSilences()
+      .then((res) => setSilences(res.silences))
+      .catch(() => {});
+  }, []);
+
+  const previewAlert = useMemo(
+    () =>
+      latestAlert ??
+      (selectedGroup ? sampleAlertOccurrence(selectedGroup) : null),
+    [latestAlert, selectedGroup],
+  );
+
+  const ruleNames = useMemo(
+    () => Object.fromEntries(groupRules.map((r) => [r.id, r.name])),
+    [groupRules],
+  );
+
+  const silenceNames = useMemo(
+    () => Object.fromEntries(silences.map((s) => [s.id, s.name])),
+    [silences],
+  );
+
+  // 처리 후 현재 필터에 맞지 않는 알림은 목록에서 뺀다
+  const handleAlertUpdated = (updated: AgentAlertOccurrence) => {
+    setAlertHistory((prev) =>
+      prev
+        .map((a) => (a.id === updated.id ? { ...a, ...updated } : a))
+        .filter(
+          (a) =>
+            !historyStatus ||
+            a.id !== updated.id ||
+            (updated.status ?? 'open') === historyStatus,
+        ),
+    );
+  };
 
   const handleCreateChannel = async (e: FormEvent) => {
     e.preventDefault();
@@ -146,12 +256,24 @@ export default function AlertsPage() {
       return;
     }
     if (!target.trim()) {
-      setError('Please enter email or webhook URL.');
+      setError(
+        `Please enter the ${channelDefinition.targetLabel.toLowerCase()}.`,
+      );
+      return;
+    }
+    const targetError = validateChannelTarget(channelType, target.trim());
+    if (targetError) {
+      setError(targetError);
       return;
     }
 
     let headersPayload: Record<string, string> | undefined;
     if (channelType === 'webhook') {
+      const templateErrors = validateWebhookTemplate(webhookBody);
+      if (templateErrors.length > 0) {
+        setError(`Body template: ${templateErrors[0]}`);
+        return;
+      }
       try {
         headersPayload = parseHeadersJson(webhookHeaders);
       } catch (err) {
@@ -173,11 +295,18 @@ export default function AlertsPage() {
         webhook_method: channelType === 'webhook' ? webhookMethod : undefined,
         webhook_headers: channelType === 'webhook' ? headersPayload : undefined,
         webhook_body: channelType === 'webhook' ? webhookBody : undefined,
+        options:
+          channelDefinition.options.length > 0
+            ? compactOptions(channelOptions)
+            : undefined,
+        routing: isDefaultRouting(channelRouting) ? null : channelRouting,
       });
       setTarget('');
+      setChannelOptions({});
+      setChannelRouting(DEFAULT_ROUTING);
       setWebhookMethod('POST');
       setWebhookHeaders('{\n  "Content-Type": "application/json"\n}');
-      setWebhookBody('{\n  "event": "anomaly"\n}');
+      setWebhookBody(DEFAULT_WEBHOOK_BODY);
       setNotice('Alert channel added.');
       await fetchChannels(selectedGroupId);
     } catch (err) {
@@ -196,6 +325,8 @@ export default function AlertsPage() {
       channel.webhook_headers || '{\n  "Content-Type": "application/json"\n}',
     );
     setEditBody(channel.webhook_body || '');
+    setEditOptions(parseChannelOptions(channel));
+    setEditRouting(parseChannelRouting(channel));
   };
 
   const saveEdit = async (channel: AgentGroupAlertChannel) => {
@@ -204,9 +335,19 @@ export default function AlertsPage() {
       setError('Please enter the target (email or URL).');
       return;
     }
+    const targetError = validateChannelTarget(channel.type, editTarget.trim());
+    if (targetError) {
+      setError(targetError);
+      return;
+    }
 
     let headersPayload: Record<string, string> | undefined;
     if (channel.type === 'webhook') {
+      const templateErrors = validateWebhookTemplate(editBody);
+      if (templateErrors.length > 0) {
+        setError(`Body template: ${templateErrors[0]}`);
+        return;
+      }
       try {
         headersPayload = parseHeadersJson(editHeaders);
       } catch (err) {
@@ -227,6 +368,11 @@ export default function AlertsPage() {
         webhook_headers:
           channel.type === 'webhook' ? headersPayload : undefined,
         webhook_body: channel.type === 'webhook' ? editBody : undefined,
+        options:
+          getChannelType(channel.type).options.length > 0
+            ? compactOptions(editOptions)
+            : undefined,
+        routing: isDefaultRouting(editRouting) ? null : editRouting,
       });
       setEditingId('');
       setNotice('Channel settings saved.');
@@ -282,7 +428,8 @@ export default function AlertsPage() {
           Target group
         </h3>
         <p className="text-[12px] text-text-tertiary">
-          Alerts for the selected group will be sent via email or webhook.
+          Alerts for the selected group will be sent to its email, webhook,
+          chat and on-call channels.
         </p>
         {loading ? (
           <div className="text-[13px] text-text-tertiary">Loading groups...</div>
@@ -322,26 +469,59 @@ export default function AlertsPage() {
                 </label>
                 <select
                   value={channelType}
-                  onChange={(e) =>
-                    setChannelType(e.target.value as 'email' | 'webhook')
-                  }
+                  onChange={(e) => {
+                    setChannelType(e.target.value as AlertChannelType);
+                    setChannelOptions({});
+                  }}
                   className="w-full h-10 px-3 text-[14px] bg-bg-primary border border-border-primary rounded-sm"
                 >
-                  <option value="email">Email</option>
-                  <option value="webhook">Webhook</option>
+                  {CHANNEL_TYPES.map((t) => (
+                    <option key={t.value} value={t.value}>
+                      {t.label}
+                    </option>
+                  ))}
                 </select>
               </div>
               <div className="space-y-1 md:col-span-2">
                 <label className="text-[12px] text-text-secondary">
-                  {channelType === 'email' ? 'Email address' : 'Webhook URL'}
+                  {channelDefinition.targetLabel}
                 </label>
                 <input
                   value={target}
                   onChange={(e) => setTarget(e.target.value)}
-                  placeholder={targetPlaceholder}
+                  placeholder={channelDefinition.targetPlaceholder}
                   className="w-full h-10 px-3 text-[14px] bg-bg-primary border border-border-primary rounded-sm"
                 />
               </div>
+              {channelDefinition.options.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <label className="text-[12px] text-text-secondary">
+                    {field.label}
+                  </label>
+                  <input
+                    value={channelOptions[field.key] ?? ''}
+                    onChange={(e) =>
+                      setChannelOptions((prev) => ({
+                        ...prev,
+                        [field.key]: e.target.value,
+                      }))
+                    }
+                    placeholder={field.placeholder}
+                    className="w-full h-10 px-3 text-[14px] bg-bg-primary border border-border-primary rounded-sm"
+                  />
+                </div>
+              ))}
+              {previewAlert &&
+                channelType !== 'email' &&
+                channelType !== 'webhook' && (
+                  <div className="md:col-span-3">
+                    <ChannelPayloadPreview
+                      type={channelType}
+                      alert={previewAlert}
+                      options={channelOptions}
+                    />
+                  </div>
+                )}
               {channelType === 'webhook' && (
                 <>
                   <div className="space-y-1">
@@ -374,17 +554,26 @@ export default function AlertsPage() {
                   </div>
                   <div className="space-y-1 md:col-span-3">
                     <label className="text-[12px] text-text-secondary">
-                      Body (optional, string or JSON)
+                      Body template (optional, string or JSON)
                     </label>
-                    <textarea
-                      value={webhookBody}
-                      onChange={(e) => setWebhookBody(e.target.value)}
-                      className="w-full min-h-[120px] px-3 py-2 text-[13px] font-mono bg-bg-primary border border-border-primary rounded-sm"
-                    />
+                    {previewAlert && (
+                      <WebhookTemplateEditor
+                        value={webhookBody}
+                        onChange={setWebhookBody}
+                        previewAlert={previewAlert}
+                        previewIsSample={!latestAlert}
+                        textareaClassName="w-full min-h-[160px] px-3 py-2 text-[13px] font-mono bg-bg-primary border border-border-primary rounded-sm"
+                      />
+                    )}
                   </div>
                 </>
               )}
             </div>
+            <ChannelRoutingEditor
+              value={channelRouting}
+              onChange={setChannelRouting}
+              rules={groupRules}
+            />
             <button
               type="submit"
               disabled={saving}
@@ -409,16 +598,25 @@ export default function AlertsPage() {
                     <div className="flex flex-wrap items-start justify-between gap-2">
                       <div className="min-w-0">
                         <div className="text-[13px] font-medium text-text-primary">
-                          {channel.type === 'email' ? 'Email' : 'Webhook'}
+                          {getChannelType(channel.type).label}
                         </div>
                         <div className="text-[12px] text-text-tertiary mt-1 break-all">
-                          {channel.target}
+                          {channel.type === 'pagerduty'
+                            ? `Routing key ••••${channel.target.slice(-4)}`
+                            : channel.target}
                         </div>
                         {channel.type === 'webhook' && (
                           <div className="text-[12px] text-text-tertiary mt-1">
                             {channel.webhook_method || 'POST'}
                           </div>
                         )}
+                        <div className="text-[12px] text-text-tertiary mt-1">
+                          Receives:{' '}
+                          {describeRouting(
+                            parseChannelRouting(channel),
+                            ruleNames,
+                          )}
+                        </div>
                       </div>
                       <div className="flex flex-wrap items-center gap-2">
                         <span
@@ -441,6 +639,19 @@ export default function AlertsPage() {
                         >
                           {channel.enabled ? 'Disable' : 'Enable'}
                         </button>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setDeliveryLogId((prev) =>
+                              prev === channel.id ? '' : channel.id,
+                            )
+                          }
+                          className="text-[12px] px-2 py-1 rounded-sm border border-border-primary text-text-secondary hover:bg-bg-tertiary"
+                        >
+                          {deliveryLogId === channel.id
+                            ? 'Hide deliveries'
+                            : 'Test & deliveries'}
+                        </button>
                         <button
                           type="button"
                           onClick={() => startEdit(channel)}
@@ -458,13 +669,18 @@ export default function AlertsPage() {
                       </div>
                     </div>
 
+                    {deliveryLogId === channel.id && (
+                      <ChannelDeliveryLog
+                        group={selectedGroup}
+                        channel={channel}
+                      />
+                    )}
+
                     {editingId === channel.id && (
                       <div className="mt-3 p-3 rounded-sm border border-border-primary bg-bg-primary space-y-3">
                         <div className="space-y-1">
                           <label className="text-[12px] text-text-secondary">
-                            {channel.type === 'email'
-                              ? 'Email address'
-                              : 'Webhook URL'}
+                            {getChannelType(channel.type).targetLabel}
                           </label>
                           <input
                             value={editTarget}
@@ -473,6 +689,34 @@ export default function AlertsPage() {
                           />
                         </div>
 
+                        {getChannelType(channel.type).options.map((field) => (
+                          <div key={field.key} className="space-y-1">
+                            <label className="text-[12px] text-text-secondary">
+                              {field.label}
+                            </label>
+                            <input
+                              value={editOptions[field.key] ?? ''}
+                              onChange={(e) =>
+                                setEditOptions((prev) => ({
+                                  ...prev,
+                                  [field.key]: e.target.value,
+                                }))
+                              }
+                              placeholder={field.placeholder}
+                              className="w-full h-10 px-3 text-[14px] bg-bg-secondary border border-border-primary rounded-sm"
+                            />
+                          </div>
+                        ))}
+                        {previewAlert &&
+                          channel.type !== 'email' &&
+                          channel.type !== 'webhook' && (
+                            <ChannelPayloadPreview
+                              type={channel.type}
+                              alert={previewAlert}
+                              options={editOptions}
+                            />
+                          )}
+
                         {channel.type === 'webhook' && (
                           <>
                             <div className="space-y-1">
@@ -505,17 +749,27 @@ export default function AlertsPage() {
                             </div>
                             <div className="space-y-1">
                               <label className="text-[12px] text-text-secondary">
-                                Body (optional)
+                                Body template (optional)
                               </label>
-                              <textarea
-                                value={editBody}
-                                onChange={(e) => setEditBody(e.target.value)}
-                                className="w-full min-h-[100px] px-3 py-2 text-[13px] font-mono bg-bg-secondary border border-border-primary rounded-sm"
-                              />
+                              {previewAlert && (
+                                <WebhookTemplateEditor
+                                  value={editBody}
+                                  onChange={setEditBody}
+                                  previewAlert={previewAlert}
+                                  previewIsSample={!latestAlert}
+                                  textareaClassName="w-full min-h-[140px] px-3 py-2 text-[13px] font-mono bg-bg-secondary border border-border-primary rounded-sm"
+                                />
+                              )}
                             </div>
                           </>
                         )}
 
+                        <ChannelRoutingEditor
+                          value={editRouting}
+                          onChange={setEditRouting}
+                          rules={groupRules}
+                        />
+
                         <div className="flex items-center gap-2">
                           <button
                             type="button"
@@ -540,54 +794,116 @@ export default function AlertsPage() {
             )}
           </div>
 
+          <EscalationPolicyManager
+            groupId={selectedGroup.id}
+            channels={channels}
+          />
+
           <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm overflow-hidden">
-            <div className="px-4 py-3 border-b border-border-primary text-[14px] font-semibold text-text-primary">
-              Recent alerts
-            </div>
-            {alertHistory.length === 0 ? (
-              <div className="p-4 text-[13px] text-text-tertiary">
-                No alerts for this group yet.
-              </div>
-            ) : (
-              <div className="divide-y divide-border-primary">
-                {alertHistory.map((a) => (
-                  <div key={a.id} className="px-4 py-3">
-                    <div className="flex flex-wrap items-center justify-between gap-2">
-                      <div className="min-w-0">
-                        <div className="text-[13px] font-medium text-text-primary truncate">
-                          {a.rule_name || a.metric}
-                        </div>
-                        <div className="text-[12px] text-text-tertiary mt-1 break-all">
-                          {a.message || a.anomaly_type}
-                        </div>
-                        <div className="text-[12px] text-text-tertiary mt-1">
-                          Agent: {a.agent_display_name || a.agent_thing_name || a.agent_id}
-                        </div>
-                      </div>
-                      <div className="flex flex-wrap items-center gap-2">
-                        <span
-                          className={`text-[11px] px-2 py-1 rounded-sm ${
-                            a.severity === 'critical'
-                              ? 'bg-accent-danger/10 text-accent-danger'
-                              : a.severity === 'warning'
-                                ? 'bg-accent-warning/10 text-accent-warning'
-                                : 'bg-accent-info/10 text-accent-info'
-                          }`}
-                        >
-                          {a.severity}
-                        </span>
-                        <span className="text-[11px] px-2 py-1 rounded-sm bg-bg-tertiary text-text-secondary">
-                          {new Date(a.created_at * 1000).toLocaleString('en-US')}
-                        </span>
-                      </div>
-                    </div>
-                  </div>
+            <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 border-b border-border-primary">
+              <span className="text-[14px] font-semibold text-text-primary">
+                Recent alerts
+              </span>
+              <div className="flex items-center bg-bg-primary border border-border-primary rounded-sm overflow-hidden">
+                {HISTORY_STATUS_FILTERS.map((opt) => (
+                  <button
+                    key={opt.value}
+                    type="button"
+                    onClick={() => setHistoryStatus(opt.value)}
+                    className={`px-3 py-1 text-[12px] font-medium transition-colors cursor-pointer ${
+                      historyStatus === opt.value
+                        ? 'bg-accent-primary text-white'
+                        : 'text-text-secondary hover:bg-bg-tertiary'
+                    }`}
+                  >
+                    {opt.label}
+                  </button>
                 ))}
               </div>
-            )}
+            </div>
+            <AlertTriageList
+              alerts={alertHistory}
+              currentUser={currentUser}
+              silenceNames={silenceNames}
+              channels={channels}
+              onUpdated={handleAlertUpdated}
+              emptyText={
+                historyStatus
+                  ? `No ${historyStatus} alerts for this group.`
+                  : 'No alerts for this group yet.'
+              }
+            />
           </div>
         </>
       ) : null}
     </div>
   );
 }
+
+// 빈 값은 저장하지 않는다
+function compactOptions(
+  options: Record<string, string>,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(options)
+      .map(([k, v]) => [k, v.trim()])
+      .filter(([, v]) => v),
+  );
+}
+
+// 채팅·온콜 채널이 받게 될 payload와 severity 색상
+function ChannelPayloadPreview({
+  type,
+  alert,
+  options,
+}: {
+  type: AlertChannelType;
+  alert: AgentAlertOccurrence;
+  options: Record<string, string>;
+}) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-3 text-[11px] text-text-tertiary">
+        <span>Severity colors:</span>
+        {(['critical', 'warning', 'info'] as const).map((severity) => (
+          <span key={severity} className="flex items-center gap-1">
+            <span
+              className="inline-block w-2.5 h-2.5 rounded-full"
+              style={{ backgroundColor: severityColor(severity) }}
+            />
+            {severity}
+          </span>
+        ))}
+        <button
+          type="button"
+          onClick={() => setOpen((v) => !v)}
+          className="text-accent-primary hover:underline cursor-pointer"
+        >
+          {open ? 'Hide payload' : 'Preview payload'}
+        </button>
+      </div>
+      {open && (
+        <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
+          <pre className="max-h-[240px] overflow-auto px-3 py-2 text-[11px] font-mono whitespace-pre-wrap break-all bg-bg-tertiary/40 border border-border-primary rounded-sm text-text-secondary">
+            {JSON.stringify(
+              buildChannelPayload(type, alert, options, 'trigger'),
+              null,
+              2,
+            )}
+          </pre>
+          {type === 'pagerduty' && (
+            <pre className="max-h-[240px] overflow-auto px-3 py-2 text-[11px] font-mono whitespace-pre-wrap break-all bg-bg-tertiary/40 border border-border-primary rounded-sm text-text-secondary">
+              {'// sent when the alert is resolved\n'}
+              {JSON.stringify(
+                buildChannelPayload(type, alert, options, 'resolve'),
+                null,
+                2,
+              )}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
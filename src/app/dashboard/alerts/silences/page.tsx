@@ -0,0 +1,651 @@
+'use client';
+
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type FormEvent,
+} from 'react';
+import {
+  ApiError,
+  agentApi,
+  authApi,
+  listAllAgents,
+  type Agent,
+  type AgentAlertOccurrence,
+  type AgentGroup,
+  type AgentGroupRule,
+  type AlertSilence,
+  type AlertSilenceInput,
+} from '@/lib/api';
+import { formatDuration } from '@/lib/alerts';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import {
+  currentOrNextWindow,
+  fromLocalDateTimeInput,
+  RECURRENCE_OPTIONS,
+  silenceScope,
+  silenceState,
+  toLocalDateTimeInput,
+  type SilenceState,
+} from '@/lib/silences';
+import { AlertTriageList } from '@/components/AlertTriageList';
+
+type SilenceFormState = {
+  name: string;
+  scope: 'group' | 'agent' | 'rule';
+  groupId: string;
+  agentId: string;
+  ruleId: string;
+  startsAt: string;
+  endsAt: string;
+  recurrence: AlertSilence['recurrence'];
+  repeatUntil: string;
+  comment: string;
+};
+
+const QUICK_DURATIONS = [
+  { label: '1h', seconds: 3600 },
+  { label: '2h', seconds: 2 * 3600 },
+  { label: '4h', seconds: 4 * 3600 },
+  { label: '8h', seconds: 8 * 3600 },
+];
+
+const STATE_STYLE: Record<SilenceState, string> = {
+  active: 'bg-accent-warning/10 text-accent-warning',
+  scheduled: 'bg-accent-info/10 text-accent-info',
+  expired: 'bg-bg-tertiary text-text-tertiary',
+};
+
+function initialForm(): SilenceFormState {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    name: '',
+    scope: 'group',
+    groupId: '',
+    agentId: '',
+    ruleId: '',
+    startsAt: toLocalDateTimeInput(now),
+    endsAt: toLocalDateTimeInput(now + 2 * 3600),
+    recurrence: 'none',
+    repeatUntil: '',
+    comment: '',
+  };
+}
+
+export default function AlertSilencesPage() {
+  const [silences, setSilences] = useState<AlertSilence[]>([]);
+  const [groups, setGroups] = useState<AgentGroup[]>([]);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [rules, setRules] = useState<AgentGroupRule[]>([]);
+  const [currentUser, setCurrentUser] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [showExpired, setShowExpired] = useState(false);
+  const [form, setForm] = useState<SilenceFormState>(initialForm);
+
+  // 펼친 silence에서 음소거된 알림 — id별로 한 번만 불러온다
+  const [expandedId, setExpandedId] = useState('');
+  const [suppressed, setSuppressed] = useState<
+    Record<string, AgentAlertOccurrence[]>
+  >({});
+
+  const fetchSilences = useCallback(async () => {
+    const res = await agentApi.listSilences();
+    setSilences(res.silences);
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setLoading(true);
+        await fetchSilences();
+      } catch (err) {
+        if (err instanceof ApiError) setError(err.message);
+        else setError('Failed to load silences.');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [fetchSilences]);
+
+  // 범위 선택용: 그룹, 장비, 전체 그룹의 룰
+  useEffect(() => {
+    (async () => {
+      try {
+        const [groupsRes, agentList] = await Promise.all([
+          agentApi.listGroups(),
+          listAllAgents(),
+        ]);
+        setGroups(groupsRes.groups);
+        setAgents(agentList);
+        const ruleLists = await mapWithConcurrency(
+          groupsRes.groups,
+          5,
+          (g) =>
+            agentApi
+              .listGroupRules(g.id)
+              .then((res) => res.rules)
+              .catch(() => [] as AgentGroupRule[]),
+        );
+        setRules(ruleLists.flat());
+      } catch {
+        /* 이름 대신 id로 표시 */
+      }
+    })();
+    authApi
+      .me()
+      .then((res) => setCurrentUser(res.user.name || res.user.email))
+      .catch(() => {});
+  }, []);
+
+  const groupNames = useMemo(
+    () => Object.fromEntries(groups.map((g) => [g.id, g.name])),
+    [groups],
+  );
+  const silenceNames = useMemo(
+    () => Object.fromEntries(silences.map((s) => [s.id, s.name])),
+    [silences],
+  );
+
+  const now = Math.floor(Date.now() / 1000);
+  const visibleSilences = silences
+    .map((s) => ({ silence: s, state: silenceState(s, now) }))
+    .filter((s) => showExpired || s.state !== 'expired')
+    .sort((a, b) => {
+      const order = { active: 0, scheduled: 1, expired: 2 };
+      return (
+        order[a.state] - order[b.state] ||
+        a.silence.starts_at - b.silence.starts_at
+      );
+    });
+  const expiredCount = silences.filter(
+    (s) => silenceState(s, now) === 'expired',
+  ).length;
+
+  const setField = <K extends keyof SilenceFormState>(
+    key: K,
+    value: SilenceFormState[K],
+  ) => setForm((prev) => ({ ...prev, [key]: value }));
+
+  const scopeLabel = (s: AlertSilence) => {
+    const scope = silenceScope(s);
+    if (scope === 'agent') {
+      const agent = agents.find((a) => a.id === s.agent_id);
+      const label = agent
+        ? agent.display_name || agent.name || agent.thing_name
+        : s.agent_id;
+      return `Agent: ${label}`;
+    }
+    if (scope === 'rule') {
+      const rule = rules.find((r) => r.id === s.rule_id);
+      const group = s.group_id ? groupNames[s.group_id] : '';
+      return `Rule: ${group ? `${group} / ` : ''}${rule?.name ?? s.rule_id}`;
+    }
+    return `Group: ${(s.group_id && groupNames[s.group_id]) || s.group_id}`;
+  };
+
+  const applyQuickDuration = (seconds: number) => {
+    const start = Math.floor(Date.now() / 1000);
+    setForm((prev) => ({
+      ...prev,
+      startsAt: toLocalDateTimeInput(start),
+      endsAt: toLocalDateTimeInput(start + seconds),
+      recurrence: 'none',
+    }));
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    const startsAt = fromLocalDateTimeInput(form.startsAt);
+    const endsAt = fromLocalDateTimeInput(form.endsAt);
+    if (!form.name.trim()) {
+      setError('Name is required.');
+      return;
+    }
+    if (startsAt === null || endsAt === null || endsAt <= startsAt) {
+      setError('End time must be after start time.');
+      return;
+    }
+    if (form.scope === 'agent' ? !form.agentId : !form.groupId) {
+      setError(`Select ${form.scope === 'agent' ? 'an agent' : 'a group'}.`);
+      return;
+    }
+    if (form.scope === 'rule' && !form.ruleId) {
+      setError('Select a rule.');
+      return;
+    }
+
+    const data: AlertSilenceInput = {
+      name: form.name.trim(),
+      group_id: form.scope === 'agent' ? null : form.groupId,
+      agent_id: form.scope === 'agent' ? form.agentId : null,
+      rule_id: form.scope === 'rule' ? form.ruleId : null,
+      starts_at: startsAt,
+      ends_at: endsAt,
+      recurrence: form.recurrence,
+      repeat_until:
+        form.recurrence === 'none'
+          ? null
+          : fromLocalDateTimeInput(form.repeatUntil),
+      comment: form.comment.trim(),
+    };
+
+    try {
+      setSaving(true);
+      setError('');
+      await agentApi.createSilence(data);
+      await fetchSilences();
+      setForm(initialForm());
+      setShowForm(false);
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+      else setError('Failed to create silence.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // 진행 중인 구간을 지금 끝내고 이후 반복도 멈춘다 — 기록은 남긴다
+  const handleEndNow = async (s: AlertSilence) => {
+    const end = Math.floor(Date.now() / 1000);
+    const window = currentOrNextWindow(s, end);
+    if (!window) return;
+    try {
+      setError('');
+      await agentApi.updateSilence(s.id, {
+        starts_at: window.start,
+        ends_at: Math.max(end, window.start + 1),
+        recurrence: 'none',
+        repeat_until: null,
+      });
+      await fetchSilences();
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+      else setError('Failed to end silence.');
+    }
+  };
+
+  const handleDelete = async (s: AlertSilence) => {
+    if (!confirm(`Delete silence "${s.name}"?`)) return;
+    try {
+      setError('');
+      await agentApi.deleteSilence(s.id);
+      await fetchSilences();
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+      else setError('Failed to delete silence.');
+    }
+  };
+
+  const toggleSuppressed = async (id: string) => {
+    if (expandedId === id) {
+      setExpandedId('');
+      return;
+    }
+    setExpandedId(id);
+    if (suppressed[id]) return;
+    try {
+      const res = await agentApi.listAlerts({ suppressed_by: id, limit: 50 });
+      setSuppressed((prev) => ({ ...prev, [id]: res.alerts }));
+    } catch {
+      setError('Failed to load suppressed alerts.');
+    }
+  };
+
+  const handleAlertUpdated = (updated: AgentAlertOccurrence) => {
+    if (!updated.suppressed_by) return;
+    const id = updated.suppressed_by;
+    setSuppressed((prev) => ({
+      ...prev,
+      [id]: (prev[id] ?? []).map((a) =>
+        a.id === updated.id ? { ...a, ...updated } : a,
+      ),
+    }));
+  };
+
+  const scopeGroupRules = rules.filter((r) => r.group_id === form.groupId);
+  const inputClass =
+    'h-9 w-full px-3 text-[13px] bg-bg-primary border border-border-primary rounded-sm';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-[13px] text-text-secondary max-w-2xl">
+          Alerts that fire during a silence are still recorded, but no email or
+          webhook notifications are sent for them.
+        </p>
+        <button
+          type="button"
+          onClick={() => setShowForm((v) => !v)}
+          className="h-9 px-4 bg-accent-primary text-white text-[13px] font-medium rounded-sm hover:bg-accent-primary-hover cursor-pointer"
+        >
+          {showForm ? 'Cancel' : 'New silence'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-sm bg-accent-danger/10 border border-accent-danger/20 text-[13px] text-accent-danger">
+          {error}
+        </div>
+      )}
+
+      {showForm && (
+        <form
+          onSubmit={handleCreate}
+          className="bg-bg-secondary rounded-md border border-border-primary shadow-sm p-4 space-y-3"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <label className="text-[12px] text-text-secondary">Name</label>
+              <input
+                value={form.name}
+                onChange={(e) => setField('name', e.target.value)}
+                placeholder="e.g. POS replacement, store 12"
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-[12px] text-text-secondary">Scope</label>
+              <select
+                value={form.scope}
+                onChange={(e) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    scope: e.target.value as SilenceFormState['scope'],
+                    agentId: '',
+                    ruleId: '',
+                  }))
+                }
+                className={inputClass}
+              >
+                <option value="group">Whole group</option>
+                <option value="agent">Single agent</option>
+                <option value="rule">Single rule</option>
+              </select>
+            </div>
+            {form.scope === 'agent' ? (
+              <div className="space-y-1">
+                <label className="text-[12px] text-text-secondary">Agent</label>
+                <select
+                  value={form.agentId}
+                  onChange={(e) => setField('agentId', e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">Select agent</option>
+                  {agents.map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {a.display_name || a.name || a.thing_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <label className="text-[12px] text-text-secondary">Group</label>
+                <select
+                  value={form.groupId}
+                  onChange={(e) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      groupId: e.target.value,
+                      ruleId: '',
+                    }))
+                  }
+                  className={inputClass}
+                >
+                  <option value="">Select group</option>
+                  {groups.map((g) => (
+                    <option key={g.id} value={g.id}>
+                      {g.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {form.scope === 'rule' && (
+            <div className="space-y-1 md:w-1/3">
+              <label className="text-[12px] text-text-secondary">Rule</label>
+              <select
+                value={form.ruleId}
+                onChange={(e) => setField('ruleId', e.target.value)}
+                disabled={!form.groupId}
+                className={inputClass}
+              >
+                <option value="">
+                  {form.groupId ? 'Select rule' : 'Select a group first'}
+                </option>
+                {scopeGroupRules.map((r) => (
+                  <option key={r.id} value={r.id}>
+                    {r.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <label className="text-[12px] text-text-secondary">Starts</label>
+              <input
+                type="datetime-local"
+                value={form.startsAt}
+                onChange={(e) => setField('startsAt', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-[12px] text-text-secondary">Ends</label>
+              <input
+                type="datetime-local"
+                value={form.endsAt}
+                onChange={(e) => setField('endsAt', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex items-center gap-1 h-9">
+              <span className="text-[12px] text-text-tertiary mr-1">
+                From now
+              </span>
+              {QUICK_DURATIONS.map((d) => (
+                <button
+                  key={d.label}
+                  type="button"
+                  onClick={() => applyQuickDuration(d.seconds)}
+                  className="h-8 px-2 text-[12px] rounded-sm border border-border-primary text-text-secondary hover:bg-bg-tertiary cursor-pointer"
+                >
+                  {d.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <label className="text-[12px] text-text-secondary">Repeat</label>
+              <select
+                value={form.recurrence}
+                onChange={(e) =>
+                  setField(
+                    'recurrence',
+                    e.target.value as AlertSilence['recurrence'],
+                  )
+                }
+                className={inputClass}
+              >
+                {RECURRENCE_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {form.recurrence !== 'none' && (
+              <div className="space-y-1">
+                <label className="text-[12px] text-text-secondary">
+                  Repeat until (optional)
+                </label>
+                <input
+                  type="datetime-local"
+                  value={form.repeatUntil}
+                  onChange={(e) => setField('repeatUntil', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-[12px] text-text-secondary">Comment</label>
+            <textarea
+              value={form.comment}
+              onChange={(e) => setField('comment', e.target.value)}
+              rows={2}
+              placeholder="Why alerts are silenced (ticket, contractor, ...)"
+              className="w-full px-3 py-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="h-9 px-4 bg-accent-primary text-white text-[13px] font-medium rounded-sm hover:bg-accent-primary-hover disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Create silence'}
+          </button>
+        </form>
+      )}
+
+      <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm overflow-hidden">
+        <div className="px-4 py-3 border-b border-border-primary flex items-center justify-between">
+          <span className="text-[14px] font-semibold text-text-primary">
+            Silences
+          </span>
+          {expiredCount > 0 && (
+            <label className="flex items-center gap-2 text-[12px] text-text-secondary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showExpired}
+                onChange={(e) => setShowExpired(e.target.checked)}
+              />
+              Show expired ({expiredCount})
+            </label>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="p-4 text-[13px] text-text-tertiary">
+            Loading silences...
+          </div>
+        ) : visibleSilences.length === 0 ? (
+          <div className="p-4 text-[13px] text-text-tertiary">
+            No active or scheduled silences.
+          </div>
+        ) : (
+          <div className="divide-y divide-border-primary">
+            {visibleSilences.map(({ silence: s, state }) => {
+              const window = currentOrNextWindow(s, now);
+              const isExpanded = expandedId === s.id;
+              return (
+                <div key={s.id}>
+                  <div className="px-4 py-3 flex flex-wrap items-start justify-between gap-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="text-[13px] font-medium text-text-primary">
+                          {s.name}
+                        </span>
+                        <span
+                          className={`text-[11px] px-2 py-0.5 rounded-sm ${STATE_STYLE[state]}`}
+                        >
+                          {state}
+                        </span>
+                      </div>
+                      <div className="text-[12px] text-text-secondary">
+                        {scopeLabel(s)}
+                      </div>
+                      <div className="text-[12px] text-text-tertiary">
+                        {window
+                          ? `${formatDateTime(window.start)} – ${formatDateTime(window.end)}`
+                          : `${formatDateTime(s.starts_at)} – ${formatDateTime(s.ends_at)}`}
+                        {' · '}
+                        {formatDuration(s.ends_at - s.starts_at)}
+                        {s.recurrence !== 'none' &&
+                          ` · ${RECURRENCE_OPTIONS.find((o) => o.value === s.recurrence)?.label.toLowerCase()}`}
+                        {s.recurrence !== 'none' &&
+                          s.repeat_until &&
+                          ` until ${formatDateTime(s.repeat_until)}`}
+                        {s.created_by && ` · by ${s.created_by}`}
+                      </div>
+                      {s.comment && (
+                        <div className="text-[12px] text-text-secondary whitespace-pre-wrap">
+                          {s.comment}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => toggleSuppressed(s.id)}
+                        className="h-7 px-2 text-[12px] rounded-sm border border-border-primary text-text-secondary hover:bg-bg-tertiary cursor-pointer"
+                      >
+                        {isExpanded ? 'Hide' : 'Suppressed alerts'}
+                      </button>
+                      {state === 'active' && (
+                        <button
+                          type="button"
+                          onClick={() => handleEndNow(s)}
+                          className="h-7 px-2 text-[12px] rounded-sm border border-border-primary text-text-secondary hover:bg-bg-tertiary cursor-pointer"
+                        >
+                          End now
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(s)}
+                        className="h-7 px-2 text-[12px] rounded-sm border border-accent-danger/40 text-accent-danger hover:bg-accent-danger/10 cursor-pointer"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                  {isExpanded && (
+                    <div className="ml-6 border-l border-border-primary bg-bg-primary/40">
+                      {suppressed[s.id] ? (
+                        <AlertTriageList
+                          alerts={suppressed[s.id]}
+                          currentUser={currentUser}
+                          groupNames={groupNames}
+                          silenceNames={silenceNames}
+                          onUpdated={handleAlertUpdated}
+                          emptyText="No alerts were suppressed by this silence."
+                        />
+                      ) : (
+                        <div className="p-4 text-[13px] text-text-tertiary">
+                          Loading...
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function formatDateTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
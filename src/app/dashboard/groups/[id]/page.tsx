@@ -8,6 +8,9 @@ import {
   type Agent,
   type AgentGroup,
 } from '@/lib/api';
+import { GroupConfigClone } from '@/components/GroupConfigClone';
+import { ScheduleManager } from '@/components/ScheduleManager';
+import { UpgradeRollout } from '@/components/UpgradeRollout';
 
 export default function GroupDetailPage() {
   const params = useParams();
@@ -114,6 +117,15 @@ export default function GroupDetailPage() {
           >
             Open Alerts
           </button>
+          <button
+            type="button"
+            onClick={() =>
+              router.push(`/dashboard/agents/commands?groupId=${groupId}`)
+            }
+            className="h-9 px-3 border border-border-primary text-[13px] rounded-sm hover:bg-bg-tertiary"
+          >
+            Send Command
+          </button>
           <button
             type="button"
             onClick={() => router.push('/dashboard/groups')}
@@ -172,6 +184,14 @@ export default function GroupDetailPage() {
         </div>
       </div>
 
+      <GroupConfigClone groupId={groupId} />
+
+      <ScheduleManager groupId={groupId} />
+
+      {agents.length > 0 && (
+        <UpgradeRollout agents={agents} onFinished={fetchAll} />
+      )}
+
       <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm overflow-hidden">
         <div className="px-4 py-3 border-b border-border-primary text-[14px] font-semibold text-text-primary">
           Agents in this Group
@@ -61,6 +61,8 @@ const AGENTS_GROUP = {
   ),
   children: [
     { label: 'List', href: '/dashboard/agents' },
+    { label: 'Fleet Commands', href: '/dashboard/agents/commands' },
+    { label: 'Inventory', href: '/dashboard/agents/inventory' },
     { label: 'Register Agent', href: '/dashboard/agents/register' },
   ],
 };
@@ -107,6 +109,10 @@ const RULES_ITEM = {
       <circle cx="18" cy="12" r="2" />
     </svg>
   ),
+  children: [
+    { label: 'Group Rules', href: '/dashboard/rules' },
+    { label: 'Library', href: '/dashboard/rules/library' },
+  ],
 };
 
 const ALERTS_ITEM = {
@@ -127,6 +133,11 @@ const ALERTS_ITEM = {
       <path d="M18 16v-5a6 6 0 1 0-12 0v5l-2 2h16l-2-2z" />
     </svg>
   ),
+  children: [
+    { label: 'Inbox', href: '/dashboard/alerts/inbox' },
+    { label: 'Silences', href: '/dashboard/alerts/silences' },
+    { label: 'Group Channels', href: '/dashboard/alerts' },
+  ],
 };
 
 export default function DashboardLayout({
@@ -223,15 +234,25 @@ export default function DashboardLayout({
       ? 'Overview'
       : pathname.startsWith('/dashboard/groups')
         ? 'Groups'
-        : pathname.startsWith('/dashboard/rules')
-          ? 'Rules'
-          : pathname.startsWith('/dashboard/alerts')
-            ? 'Alerts'
-            : pathname === '/dashboard/agents/register'
-              ? 'Register Agent'
-              : pathname.startsWith('/dashboard/agents')
-                ? 'Agents'
-                : 'Dashboard';
+        : pathname === '/dashboard/rules/library'
+          ? 'Rule Library'
+          : pathname.startsWith('/dashboard/rules')
+            ? 'Rules'
+            : pathname === '/dashboard/alerts/inbox'
+              ? 'Alert Inbox'
+              : pathname === '/dashboard/alerts/silences'
+                ? 'Silences'
+                : pathname.startsWith('/dashboard/alerts')
+                  ? 'Alerts'
+                  : pathname === '/dashboard/agents/register'
+                    ? 'Register Agent'
+                    : pathname === '/dashboard/agents/commands'
+                      ? 'Fleet Commands'
+                      : pathname === '/dashboard/agents/inventory'
+                        ? 'Inventory'
+                        : pathname.startsWith('/dashboard/agents')
+                          ? 'Agents'
+                          : 'Dashboard';
 
   const SidebarContent = () => (
     <>
@@ -324,28 +345,74 @@ export default function DashboardLayout({
           {GROUPS_ITEM.icon}
           {GROUPS_ITEM.label}
         </Link>
-        <Link
-          href={RULES_ITEM.href}
-          className={`flex items-center gap-3 px-3 py-2 rounded-sm text-[13px] font-medium transition-colors ${
-            pathname.startsWith('/dashboard/rules')
-              ? 'bg-bg-sidebar-active text-text-sidebar-active'
-              : 'text-text-sidebar hover:bg-bg-sidebar-hover hover:text-text-sidebar-active'
-          }`}
-        >
-          {RULES_ITEM.icon}
-          {RULES_ITEM.label}
-        </Link>
-        <Link
-          href={ALERTS_ITEM.href}
-          className={`flex items-center gap-3 px-3 py-2 rounded-sm text-[13px] font-medium transition-colors ${
-            pathname.startsWith('/dashboard/alerts')
-              ? 'bg-bg-sidebar-active text-text-sidebar-active'
-              : 'text-text-sidebar hover:bg-bg-sidebar-hover hover:text-text-sidebar-active'
-          }`}
-        >
-          {ALERTS_ITEM.icon}
-          {ALERTS_ITEM.label}
-        </Link>
+        <div>
+          <Link
+            href={RULES_ITEM.href}
+            className={`flex items-center gap-3 px-3 py-2 rounded-sm text-[13px] font-medium transition-colors ${
+              pathname.startsWith('/dashboard/rules')
+                ? 'bg-bg-sidebar-active text-text-sidebar-active'
+                : 'text-text-sidebar hover:bg-bg-sidebar-hover hover:text-text-sidebar-active'
+            }`}
+          >
+            {RULES_ITEM.icon}
+            {RULES_ITEM.label}
+          </Link>
+          <div className="ml-6 mt-0.5 space-y-0.5 border-l border-white/10 pl-3">
+            {RULES_ITEM.children.map((child) => {
+              const isChildActive =
+                child.href === '/dashboard/rules'
+                  ? pathname === '/dashboard/rules'
+                  : pathname.startsWith(child.href);
+              return (
+                <Link
+                  key={child.href}
+                  href={child.href}
+                  className={`block py-1.5 rounded-sm text-[12px] font-medium transition-colors ${
+                    isChildActive
+                      ? 'text-text-sidebar-active'
+                      : 'text-text-sidebar hover:text-text-sidebar-active'
+                  }`}
+                >
+                  {child.label}
+                </Link>
+              );
+            })}
+          </div>
+        </div>
+        <div>
+          <Link
+            href={ALERTS_ITEM.href}
+            className={`flex items-center gap-3 px-3 py-2 rounded-sm text-[13px] font-medium transition-colors ${
+              pathname.startsWith('/dashboard/alerts')
+                ? 'bg-bg-sidebar-active text-text-sidebar-active'
+                : 'text-text-sidebar hover:bg-bg-sidebar-hover hover:text-text-sidebar-active'
+            }`}
+          >
+            {ALERTS_ITEM.icon}
+            {ALERTS_ITEM.label}
+          </Link>
+          <div className="ml-6 mt-0.5 space-y-0.5 border-l border-white/10 pl-3">
+            {ALERTS_ITEM.children.map((child) => {
+              const isChildActive =
+                child.href === '/dashboard/alerts'
+                  ? pathname === '/dashboard/alerts'
+                  : pathname.startsWith(child.href);
+              return (
+                <Link
+                  key={child.href}
+                  href={child.href}
+                  className={`block py-1.5 rounded-sm text-[12px] font-medium transition-colors ${
+                    isChildActive
+                      ? 'text-text-sidebar-active'
+                      : 'text-text-sidebar hover:text-text-sidebar-active'
+                  }`}
+                >
+                  {child.label}
+                </Link>
+              );
+            })}
+          </div>
+        </div>
         <div className="mt-1">
           <Link
             href={AGENTS_GROUP.href}
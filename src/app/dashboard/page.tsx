@@ -1,112 +1,434 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
-import { agentApi, type Agent } from "@/lib/api";
+import {
+  agentApi,
+  listAllAgents,
+  STALE_AFTER_SECONDS,
+  type Agent,
+  type AgentAlertOccurrence,
+  type AgentEvent,
+  type AgentGroup,
+} from "@/lib/api";
+import { mapWithConcurrency } from "@/lib/concurrency";
+
+type UsageMetric = "cpu" | "memory" | "disk";
+
+type AgentUsage = {
+  agent: Agent;
+  timestamp: number;
+  cpu?: number;
+  memory?: number;
+  disk?: number;
+};
+
+const GROUP_CATEGORIES: { value: AgentGroup["category"]; label: string }[] = [
+  { value: "store", label: "Store" },
+  { value: "region", label: "Region" },
+  { value: "device_type", label: "Device Type" },
+  { value: "customer", label: "Customer" },
+];
+
+const USAGE_METRICS: { key: UsageMetric; label: string }[] = [
+  { key: "cpu", label: "CPU" },
+  { key: "memory", label: "Memory" },
+  { key: "disk", label: "Disk" },
+];
+
+const ANOMALY_WINDOW_SECONDS = 24 * 3600;
+const ANOMALY_LIST_LIMIT = 50;
+// 최근 접속한 온라인 장비 중 일부만 최신 telemetry를 조회한다
+const USAGE_SAMPLE_SIZE = 50;
+const USAGE_MAX_AGE_SECONDS = 3600;
+const FETCH_CONCURRENCY = 5;
+const TOP_LIMIT = 5;
+const STALE_AGENTS_HREF = "/dashboard/agents?stale=1&sort=last_seen_at&order=asc";
 
 export default function DashboardOverview() {
   const router = useRouter();
   const [agents, setAgents] = useState<Agent[]>([]);
+  const [groups, setGroups] = useState<AgentGroup[]>([]);
+  const [anomalies, setAnomalies] = useState<AgentAlertOccurrence[]>([]);
+  const [anomalyTotal, setAnomalyTotal] = useState(0);
+  const [usage, setUsage] = useState<AgentUsage[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingDetails, setLoadingDetails] = useState(true);
 
   useEffect(() => {
-    agentApi
-      .list({ limit: 100 })
-      .then((res) => setAgents(res.agents))
-      .catch(() => {})
-      .finally(() => setLoading(false));
+    (async () => {
+      let agentList: Agent[] = [];
+      let groupList: AgentGroup[] = [];
+      try {
+        [agentList, { groups: groupList }] = await Promise.all([
+          listAllAgents(),
+          agentApi.listGroups(),
+        ]);
+        setAgents(agentList);
+        setGroups(groupList);
+      } catch {
+        /* ignore */
+      } finally {
+        setLoading(false);
+      }
+
+      // 알림과 장비별 telemetry는 개수가 많아 타일 표시 후 이어서 불러온다
+      try {
+        const since = Math.floor(Date.now() / 1000) - ANOMALY_WINDOW_SECONDS;
+        try {
+          const res = await agentApi.listAlerts({
+            severity: "critical",
+            since,
+            limit: ANOMALY_LIST_LIMIT,
+          });
+          setAnomalies(res.alerts);
+          setAnomalyTotal(res.total);
+        } catch {
+          /* ignore */
+        }
+
+        const sample = agentList
+          .filter((a) => a.status === "online")
+          .sort((a, b) => (b.last_seen_at ?? 0) - (a.last_seen_at ?? 0))
+          .slice(0, USAGE_SAMPLE_SIZE);
+        const usageList = await mapWithConcurrency(
+          sample,
+          FETCH_CONCURRENCY,
+          (agent) =>
+            agentApi
+              .getEvents(agent.id, { type: "telemetry", limit: 1 })
+              .then((res) => toAgentUsage(agent, res.events[0]))
+              .catch(() => null),
+        );
+        const usageSince = Math.floor(Date.now() / 1000) - USAGE_MAX_AGE_SECONDS;
+        setUsage(
+          usageList.filter(
+            (u): u is AgentUsage => u !== null && u.timestamp >= usageSince,
+          ),
+        );
+      } finally {
+        setLoadingDetails(false);
+      }
+    })();
   }, []);
 
+  const now = Math.floor(Date.now() / 1000);
   const online = agents.filter((a) => a.status === "online").length;
   const offline = agents.filter((a) => a.status === "offline").length;
-  const total = agents.length;
+  const revoked = agents.filter((a) => a.status === "revoked").length;
+  const staleAgents = agents
+    .filter(
+      (a) =>
+        a.status !== "revoked" &&
+        (!a.last_seen_at || now - a.last_seen_at > STALE_AFTER_SECONDS),
+    )
+    .sort((a, b) => (a.last_seen_at ?? 0) - (b.last_seen_at ?? 0));
 
   const stats = [
-    { label: "Total Agents", value: total, color: "text-accent-info" },
-    { label: "Online", value: online, color: "text-accent-success" },
-    { label: "Offline", value: offline, color: "text-text-tertiary" },
+    {
+      label: "Total Agents",
+      value: agents.length,
+      color: "text-accent-info",
+      href: "/dashboard/agents",
+    },
+    {
+      label: "Online",
+      value: online,
+      color: "text-accent-success",
+      href: "/dashboard/agents?status=online",
+    },
+    {
+      label: "Offline",
+      value: offline,
+      color: "text-text-tertiary",
+      href: "/dashboard/agents?status=offline",
+    },
+    {
+      label: "Revoked",
+      value: revoked,
+      color: "text-accent-danger",
+      href: "/dashboard/agents?status=revoked",
+    },
+    {
+      label: "Stale (24h+)",
+      value: staleAgents.length,
+      color: "text-accent-warning",
+      href: STALE_AGENTS_HREF,
+    },
   ];
 
+  // 온라인 장비가 표본 크기를 넘으면 Top 타일은 일부 장비만 반영한다
+  const usageSampled = online > USAGE_SAMPLE_SIZE;
+
+  const agentCountByGroup = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const agent of agents) {
+      if (!agent.group_id) continue;
+      counts.set(agent.group_id, (counts.get(agent.group_id) ?? 0) + 1);
+    }
+    return counts;
+  }, [agents]);
+
+  const ungroupedCount = agents.filter((a) => !a.group_id).length;
+
+  const topUsage = (metric: UsageMetric) =>
+    usage
+      .filter((u) => typeof u[metric] === "number")
+      .sort((a, b) => (b[metric] ?? 0) - (a[metric] ?? 0))
+      .slice(0, TOP_LIMIT);
+
+  const agentName = (agent: Agent) =>
+    agent.display_name || agent.name || agent.thing_name;
+
   return (
     <div className="space-y-6">
       {/* Stats */}
-      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
         {stats.map((stat) => (
-          <div
+          <button
             key={stat.label}
-            className="bg-bg-secondary rounded-[var(--radius-md)] border border-border-primary p-5 shadow-[var(--shadow-sm)]"
+            type="button"
+            onClick={() => router.push(stat.href)}
+            className="text-left bg-bg-secondary rounded-[var(--radius-md)] border border-border-primary p-5 shadow-[var(--shadow-sm)] hover:border-border-secondary transition-colors cursor-pointer"
           >
             <div className="text-[13px] text-text-secondary mb-1">{stat.label}</div>
             <div className={`text-3xl font-bold ${stat.color}`}>
               {loading ? "-" : stat.value}
             </div>
-          </div>
+          </button>
         ))}
       </div>
 
-      {/* Recent agents */}
-      <div className="bg-bg-secondary rounded-[var(--radius-md)] border border-border-primary shadow-[var(--shadow-sm)]">
-        <div className="flex items-center justify-between px-5 py-4 border-b border-border-primary">
-          <h2 className="text-[14px] font-semibold text-text-primary">Recent Agents</h2>
-          <button
-            onClick={() => router.push("/dashboard/agents")}
-            className="text-[13px] text-accent-primary hover:text-accent-primary-hover font-medium cursor-pointer"
-          >
-            View all
-          </button>
-        </div>
-        <div className="divide-y divide-border-primary">
-          {loading ? (
-            <div className="p-8 text-center text-text-tertiary text-sm">Loading...</div>
-          ) : agents.length === 0 ? (
-            <div className="p-8 text-center">
-              <p className="text-text-tertiary text-sm mb-3">No agents registered yet.</p>
-              <button
-                onClick={() => router.push("/dashboard/agents/register")}
-                className="text-[13px] text-accent-primary hover:text-accent-primary-hover font-medium cursor-pointer"
-              >
-                Register your first agent
-              </button>
+      {/* Agents per group category */}
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+        {GROUP_CATEGORIES.map((category) => {
+          const categoryGroups = groups
+            .filter((g) => g.category === category.value)
+            .map((g) => ({ group: g, count: agentCountByGroup.get(g.id) ?? 0 }))
+            .sort((a, b) => b.count - a.count);
+          return (
+            <div
+              key={category.value}
+              className="bg-bg-secondary rounded-[var(--radius-md)] border border-border-primary shadow-[var(--shadow-sm)]"
+            >
+              <div className="flex items-center justify-between px-5 py-3 border-b border-border-primary">
+                <h2 className="text-[14px] font-semibold text-text-primary">
+                  {category.label}
+                </h2>
+                <span className="text-[12px] text-text-tertiary">
+                  {categoryGroups.reduce((sum, g) => sum + g.count, 0)} agents
+                </span>
+              </div>
+              <div className="divide-y divide-border-primary max-h-56 overflow-y-auto">
+                {categoryGroups.length === 0 ? (
+                  <div className="px-5 py-4 text-[13px] text-text-tertiary">
+                    {loading ? "Loading..." : "No groups."}
+                  </div>
+                ) : (
+                  categoryGroups.map(({ group, count }) => (
+                    <button
+                      key={group.id}
+                      type="button"
+                      onClick={() => router.push(`/dashboard/agents?group=${group.id}`)}
+                      className="w-full flex items-center justify-between gap-2 px-5 py-2 text-left hover:bg-bg-tertiary/50 transition-colors cursor-pointer"
+                    >
+                      <span className="text-[13px] text-text-primary truncate">
+                        {group.name}
+                      </span>
+                      <span className="text-[13px] font-medium text-text-secondary">
+                        {count}
+                      </span>
+                    </button>
+                  ))
+                )}
+              </div>
             </div>
-          ) : (
-            agents.slice(0, 5).map((agent) => (
-              <div
-                key={agent.id}
-                onClick={() => router.push(`/dashboard/agents/${agent.id}`)}
-                className="flex items-center gap-4 px-5 py-3 hover:bg-bg-tertiary/50 cursor-pointer transition-colors"
-              >
+          );
+        })}
+      </div>
+      {!loading && ungroupedCount > 0 && (
+        <p className="text-[12px] text-text-tertiary -mt-3">
+          {ungroupedCount} agent{ungroupedCount !== 1 ? "s are" : " is"} not assigned to any group.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        {/* Critical anomalies */}
+        <div className="bg-bg-secondary rounded-[var(--radius-md)] border border-border-primary shadow-[var(--shadow-sm)]">
+          <div className="flex items-center justify-between px-5 py-4 border-b border-border-primary">
+            <h2 className="text-[14px] font-semibold text-text-primary">
+              Critical Anomalies (24h)
+              {!loadingDetails && anomalyTotal > 0 && (
+                <span className="ml-2 text-[12px] font-normal text-text-tertiary">
+                  {anomalyTotal}
+                </span>
+              )}
+            </h2>
+            <button
+              onClick={() => router.push("/dashboard/alerts")}
+              className="text-[13px] text-accent-primary hover:text-accent-primary-hover font-medium cursor-pointer"
+            >
+              Alerts
+            </button>
+          </div>
+          <div className="divide-y divide-border-primary max-h-80 overflow-y-auto">
+            {loadingDetails ? (
+              <div className="p-6 text-center text-text-tertiary text-sm">Loading...</div>
+            ) : anomalies.length === 0 ? (
+              <div className="p-6 text-center text-text-tertiary text-sm">
+                No critical anomalies in the last 24 hours.
+              </div>
+            ) : (
+              anomalies.map((alert) => (
                 <div
-                  className={`w-2 h-2 rounded-full shrink-0 ${
-                    agent.status === "online"
-                      ? "bg-accent-success"
-                      : agent.status === "revoked"
-                        ? "bg-accent-danger"
-                        : "bg-text-tertiary"
-                  }`}
-                />
-                <div className="flex-1 min-w-0">
-                  <div className="text-[13px] font-medium text-text-primary truncate">
-                    {agent.name || agent.thing_name}
+                  key={alert.id}
+                  onClick={() => router.push(`/dashboard/agents/${alert.agent_id}`)}
+                  className="px-5 py-3 hover:bg-bg-tertiary/50 cursor-pointer transition-colors"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-[13px] font-medium text-text-primary truncate">
+                      {alert.agent_display_name || alert.agent_thing_name || alert.agent_id}
+                    </span>
+                    <span className="text-[12px] text-text-tertiary shrink-0">
+                      {formatTimeAgo(alert.created_at)}
+                    </span>
                   </div>
-                  <div className="text-[12px] text-text-tertiary">
-                    {agent.os && `${agent.os}/${agent.arch}`}
-                    {agent.version && ` v${agent.version}`}
+                  <div className="text-[12px] text-accent-danger truncate">
+                    {alert.rule_name ? `${alert.rule_name}: ` : ""}
+                    {alert.message}
                   </div>
                 </div>
-                <div className="text-[12px] text-text-tertiary shrink-0">
-                  {agent.last_seen_at
-                    ? formatTimeAgo(agent.last_seen_at)
-                    : "Never"}
-                </div>
-              </div>
-            ))
+              ))
+            )}
+          </div>
+          {!loadingDetails && anomalyTotal > anomalies.length && (
+            <div className="px-5 py-2 border-t border-border-primary text-[12px] text-text-tertiary">
+              Showing the latest {anomalies.length} of {anomalyTotal}.
+            </div>
           )}
         </div>
+
+        {/* Stale agents */}
+        <div className="bg-bg-secondary rounded-[var(--radius-md)] border border-border-primary shadow-[var(--shadow-sm)]">
+          <div className="flex items-center justify-between px-5 py-4 border-b border-border-primary">
+            <h2 className="text-[14px] font-semibold text-text-primary">
+              Stale Agents
+            </h2>
+            <button
+              onClick={() => router.push(STALE_AGENTS_HREF)}
+              className="text-[13px] text-accent-primary hover:text-accent-primary-hover font-medium cursor-pointer"
+            >
+              View all
+            </button>
+          </div>
+          <div className="divide-y divide-border-primary">
+            {loading ? (
+              <div className="p-6 text-center text-text-tertiary text-sm">Loading...</div>
+            ) : staleAgents.length === 0 ? (
+              <div className="p-6 text-center text-text-tertiary text-sm">
+                Every agent has checked in within 24 hours.
+              </div>
+            ) : (
+              staleAgents.slice(0, 8).map((agent) => (
+                <div
+                  key={agent.id}
+                  onClick={() => router.push(`/dashboard/agents/${agent.id}`)}
+                  className="flex items-center justify-between gap-4 px-5 py-3 hover:bg-bg-tertiary/50 cursor-pointer transition-colors"
+                >
+                  <span className="text-[13px] font-medium text-text-primary truncate">
+                    {agentName(agent)}
+                  </span>
+                  <span className="text-[12px] text-accent-warning shrink-0">
+                    {agent.last_seen_at ? formatTimeAgo(agent.last_seen_at) : "Never"}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Top resource usage */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {USAGE_METRICS.map((metric) => {
+          const top = topUsage(metric.key);
+          return (
+            <div
+              key={metric.key}
+              className="bg-bg-secondary rounded-[var(--radius-md)] border border-border-primary shadow-[var(--shadow-sm)]"
+            >
+              <div className="flex items-center justify-between gap-2 px-5 py-3 border-b border-border-primary">
+                <h2 className="text-[14px] font-semibold text-text-primary">
+                  Top {metric.label}
+                </h2>
+                {usageSampled && (
+                  <span className="text-[12px] text-text-tertiary">
+                    {USAGE_SAMPLE_SIZE} most recently seen of {online} online
+                  </span>
+                )}
+              </div>
+              <div className="divide-y divide-border-primary">
+                {loadingDetails ? (
+                  <div className="px-5 py-4 text-[13px] text-text-tertiary">Loading...</div>
+                ) : top.length === 0 ? (
+                  <div className="px-5 py-4 text-[13px] text-text-tertiary">
+                    No recent telemetry.
+                  </div>
+                ) : (
+                  top.map((u) => {
+                    const value = u[metric.key] ?? 0;
+                    return (
+                      <div
+                        key={u.agent.id}
+                        onClick={() => router.push(`/dashboard/agents/${u.agent.id}`)}
+                        className="px-5 py-2 hover:bg-bg-tertiary/50 cursor-pointer transition-colors"
+                      >
+                        <div className="flex items-center justify-between gap-2 text-[13px]">
+                          <span className="text-text-primary truncate">
+                            {agentName(u.agent)}
+                          </span>
+                          <span className="font-medium text-text-secondary">
+                            {value.toFixed(1)}%
+                          </span>
+                        </div>
+                        <div className="h-1.5 mt-1 rounded-full bg-bg-tertiary overflow-hidden">
+                          <div
+                            className={`h-full rounded-full ${
+                              value >= 90
+                                ? "bg-accent-danger"
+                                : value >= 70
+                                  ? "bg-accent-warning"
+                                  : "bg-accent-success"
+                            }`}
+                            style={{ width: `${Math.min(100, value)}%` }}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </div>
+          );
+        })}
       </div>
     </div>
   );
 }
 
+function toAgentUsage(agent: Agent, event: AgentEvent | undefined): AgentUsage | null {
+  if (!event) return null;
+  const percent = (key: string) =>
+    (event.data[key] as { usagePercent?: number } | undefined)?.usagePercent;
+  return {
+    agent,
+    timestamp: event.created_at,
+    cpu: percent("cpu"),
+    memory: percent("memory"),
+    disk: percent("disk"),
+  };
+}
+
 function formatTimeAgo(timestamp: number): string {
   const now = Math.floor(Date.now() / 1000);
   const diff = now - timestamp;
@@ -0,0 +1,713 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ApiError,
+  agentApi,
+  loadRuleLibrary,
+  type AgentGroup,
+  type AgentGroupRule,
+  type LibraryRule,
+  type LibraryRuleInput,
+  type RuleConditionGroup,
+} from '@/lib/api';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import {
+  conditionGroup,
+  conditionLeaves,
+  describeCondition,
+  isCompoundCondition,
+  libraryRuleDrift,
+  METRIC_OPTIONS,
+  missingBuiltinTemplates,
+  RULE_OPERATORS,
+  validateCondition,
+} from '@/lib/rules';
+import { RuleConditionBuilder } from '@/components/RuleConditionBuilder';
+
+type LibraryFormState = {
+  name: string;
+  description: string;
+  metric: string;
+  operator: string;
+  threshold: string;
+  severity: 'info' | 'warning' | 'critical';
+  window: number;
+  compound: RuleConditionGroup | null;
+};
+
+type Attachment = {
+  group: AgentGroup;
+  rule: AgentGroupRule;
+  drift: string[];
+};
+
+const INITIAL_FORM: LibraryFormState = {
+  name: '',
+  description: '',
+  metric: 'cpu',
+  operator: '>=',
+  threshold: '90',
+  severity: 'warning',
+  window: 60,
+  compound: null,
+};
+
+const FETCH_CONCURRENCY = 4;
+
+const fieldClass =
+  'h-9 w-full px-3 text-[13px] bg-bg-primary border border-border-primary rounded-sm';
+
+function toForm(rule: LibraryRule): LibraryFormState {
+  return {
+    name: rule.name,
+    description: rule.description,
+    metric: rule.metric,
+    operator: rule.operator,
+    threshold: rule.threshold,
+    severity: rule.severity,
+    window: rule.window_seconds,
+    compound: rule.condition,
+  };
+}
+
+export default function RuleLibraryPage() {
+  const [library, setLibrary] = useState<LibraryRule[]>([]);
+  const [groups, setGroups] = useState<AgentGroup[]>([]);
+  const [groupRules, setGroupRules] = useState<
+    Record<string, AgentGroupRule[]>
+  >({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  // 'new'면 새 룰 작성, id면 해당 라이브러리 룰 수정 중
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<LibraryFormState>(INITIAL_FORM);
+  const [overwriteDrifted, setOverwriteDrifted] = useState(false);
+  const [attachingId, setAttachingId] = useState<string | null>(null);
+  const [attachGroupIds, setAttachGroupIds] = useState<string[]>([]);
+
+  const fetchAll = useCallback(async () => {
+    const [libraryRules, groupRes] = await Promise.all([
+      loadRuleLibrary(),
+      agentApi.listGroups(),
+    ]);
+    const ruleLists = await mapWithConcurrency(
+      groupRes.groups,
+      FETCH_CONCURRENCY,
+      (group) =>
+        agentApi
+          .listGroupRules(group.id)
+          .then((res) => res.rules)
+          .catch(() => [] as AgentGroupRule[]),
+    );
+    setLibrary(libraryRules);
+    setGroups(groupRes.groups);
+    setGroupRules(
+      Object.fromEntries(
+        groupRes.groups.map((group, i) => [group.id, ruleLists[i]]),
+      ),
+    );
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setLoading(true);
+        await fetchAll();
+      } catch {
+        setError('Failed to load rule library.');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [fetchAll]);
+
+  const attachmentsById = useMemo(() => {
+    const map: Record<string, Attachment[]> = {};
+    for (const source of library) {
+      map[source.id] = groups.flatMap((group) =>
+        (groupRules[group.id] || [])
+          .filter((rule) => rule.library_rule_id === source.id)
+          .map((rule) => ({
+            group,
+            rule,
+            drift: libraryRuleDrift(rule, source),
+          })),
+      );
+    }
+    return map;
+  }, [library, groups, groupRules]);
+
+  const missingBuiltins = useMemo(
+    () => missingBuiltinTemplates(library),
+    [library],
+  );
+
+  const conditionErrors = useMemo(
+    () => (form.compound ? validateCondition(form.compound) : []),
+    [form.compound],
+  );
+
+  const setField = <K extends keyof LibraryFormState>(
+    key: K,
+    value: LibraryFormState[K],
+  ) => setForm((prev) => ({ ...prev, [key]: value }));
+
+  const startEdit = (rule: LibraryRule | null) => {
+    setEditingId(rule ? rule.id : 'new');
+    setForm(rule ? toForm(rule) : INITIAL_FORM);
+    setOverwriteDrifted(false);
+    setError('');
+  };
+
+  const toggleCompound = () => {
+    if (form.compound) {
+      const [first] = conditionLeaves(form.compound);
+      setForm((prev) => ({
+        ...prev,
+        compound: null,
+        ...(first
+          ? {
+              metric: first.metric,
+              operator: first.operator,
+              threshold: first.threshold,
+            }
+          : {}),
+      }));
+      return;
+    }
+    setField(
+      'compound',
+      conditionGroup('and', [
+        {
+          type: 'condition',
+          metric: form.metric,
+          operator: form.operator,
+          threshold: form.threshold,
+        },
+      ]),
+    );
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setError('Please enter a rule name.');
+      return;
+    }
+    if (form.compound && conditionErrors.length > 0) {
+      setError(conditionErrors[0]);
+      return;
+    }
+    if (!form.compound && !form.threshold.trim()) {
+      setError('Please enter a threshold.');
+      return;
+    }
+    if (form.window < 1 || Number.isNaN(form.window)) {
+      setError('Window must be at least 1 second.');
+      return;
+    }
+
+    const primary = form.compound
+      ? conditionLeaves(form.compound)[0]
+      : {
+          metric: form.metric,
+          operator: form.operator,
+          threshold: form.threshold,
+        };
+    const data: LibraryRuleInput = {
+      name: form.name.trim(),
+      description: form.description.trim(),
+      metric: primary.metric,
+      operator: primary.operator,
+      threshold: primary.threshold.trim(),
+      condition:
+        form.compound && isCompoundCondition(form.compound)
+          ? form.compound
+          : null,
+      severity: form.severity,
+      window_seconds: form.window,
+    };
+
+    try {
+      setSaving(true);
+      setError('');
+      if (editingId === 'new') {
+        await agentApi.createLibraryRule(data);
+        setNotice(`Library rule added: ${data.name}`);
+      } else if (editingId) {
+        const res = await agentApi.updateLibraryRule(editingId, {
+          ...data,
+          overwrite_drifted: overwriteDrifted,
+        });
+        setNotice(
+          `Library rule updated. ${res.updated_rules} group rule${
+            res.updated_rules === 1 ? '' : 's'
+          } updated.`,
+        );
+      }
+      setEditingId(null);
+      await fetchAll();
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+      else setError('Failed to save library rule.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: LibraryRule) => {
+    const attached = attachmentsById[rule.id]?.length ?? 0;
+    if (
+      !confirm(
+        attached > 0
+          ? `Delete "${rule.name}"? ${attached} group rule(s) stay but stop syncing.`
+          : `Delete "${rule.name}"?`,
+      )
+    )
+      return;
+    try {
+      setError('');
+      await agentApi.deleteLibraryRule(rule.id);
+      setNotice(`Library rule deleted: ${rule.name}`);
+      await fetchAll();
+    } catch {
+      setError('Failed to delete library rule.');
+    }
+  };
+
+  const handleAttach = async (rule: LibraryRule) => {
+    if (attachGroupIds.length === 0) {
+      setError('Select at least one group.');
+      return;
+    }
+    try {
+      setSaving(true);
+      setError('');
+      await agentApi.attachLibraryRule(rule.id, attachGroupIds);
+      setNotice(
+        `Attached "${rule.name}" to ${attachGroupIds.length} group${
+          attachGroupIds.length === 1 ? '' : 's'
+        }.`,
+      );
+      setAttachingId(null);
+      setAttachGroupIds([]);
+      await fetchAll();
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+      else setError('Failed to attach rule.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSync = async (rule: LibraryRule, groupIds: string[]) => {
+    try {
+      setError('');
+      const res = await agentApi.syncLibraryRule(rule.id, groupIds);
+      setNotice(
+        `Synced ${res.updated_rules} group rule${
+          res.updated_rules === 1 ? '' : 's'
+        } with "${rule.name}".`,
+      );
+      await fetchAll();
+    } catch {
+      setError('Failed to sync rule.');
+    }
+  };
+
+  const handleSeedBuiltins = async () => {
+    try {
+      setSaving(true);
+      setError('');
+      const res = await agentApi.seedLibraryRules(missingBuiltins);
+      setNotice(`Added ${res.created} built-in rule(s).`);
+      await fetchAll();
+    } catch {
+      setError('Failed to add built-in rules.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const editor = (
+    <div className="p-4 space-y-3 border-b border-border-primary bg-bg-primary/50">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label className="text-[12px] text-text-secondary">Name</label>
+          <input
+            value={form.name}
+            onChange={(e) => setField('name', e.target.value)}
+            placeholder="e.g. CPU spike"
+            className={fieldClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[12px] text-text-secondary">Description</label>
+          <input
+            value={form.description}
+            onChange={(e) => setField('description', e.target.value)}
+            placeholder="Shown when picking a rule"
+            className={fieldClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={toggleCompound}
+          className="text-[12px] text-accent-primary hover:underline cursor-pointer"
+        >
+          {form.compound
+            ? 'Use a single condition'
+            : 'Combine conditions (AND/OR)'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-3">
+        {!form.compound && (
+          <>
+            <div className="space-y-1">
+              <label className="text-[12px] text-text-secondary">Metric</label>
+              <select
+                value={form.metric}
+                onChange={(e) => setField('metric', e.target.value)}
+                className={fieldClass}
+              >
+                {METRIC_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-[12px] text-text-secondary">Operator</label>
+              <select
+                value={form.operator}
+                onChange={(e) => setField('operator', e.target.value)}
+                className={fieldClass}
+              >
+                {RULE_OPERATORS.map((op) => (
+                  <option key={op} value={op}>
+                    {op}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-[12px] text-text-secondary">
+                Threshold
+              </label>
+              <input
+                value={form.threshold}
+                onChange={(e) => setField('threshold', e.target.value)}
+                placeholder={
+                  METRIC_OPTIONS.find((m) => m.value === form.metric)
+                    ?.thresholdHint || 'e.g. 90'
+                }
+                className={fieldClass}
+              />
+            </div>
+          </>
+        )}
+        <div className="space-y-1">
+          <label className="text-[12px] text-text-secondary">Severity</label>
+          <select
+            value={form.severity}
+            onChange={(e) =>
+              setField(
+                'severity',
+                e.target.value as LibraryFormState['severity'],
+              )
+            }
+            className={fieldClass}
+          >
+            <option value="info">info</option>
+            <option value="warning">warning</option>
+            <option value="critical">critical</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-[12px] text-text-secondary">
+            Window (seconds)
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={form.window}
+            onChange={(e) => setField('window', Number(e.target.value))}
+            className={fieldClass}
+          />
+        </div>
+      </div>
+
+      {form.compound && (
+        <div className="space-y-2">
+          <RuleConditionBuilder
+            value={form.compound}
+            onChange={(value) => setField('compound', value)}
+          />
+          {conditionErrors.length > 0 && (
+            <ul className="text-[11px] text-accent-danger space-y-0.5">
+              {conditionErrors.map((err) => (
+                <li key={err}>{err}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {editingId !== 'new' && (
+        <label className="flex items-center gap-2 text-[12px] text-text-secondary">
+          <input
+            type="checkbox"
+            checked={overwriteDrifted}
+            onChange={(e) => setOverwriteDrifted(e.target.checked)}
+          />
+          Also overwrite groups that changed this rule locally
+        </label>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="h-9 px-4 bg-accent-primary text-white text-[13px] font-medium rounded-sm hover:bg-accent-primary-hover disabled:opacity-50"
+        >
+          {saving
+            ? 'Saving...'
+            : editingId === 'new'
+              ? 'Add to library'
+              : 'Save and propagate'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setEditingId(null)}
+          className="h-9 px-4 text-[13px] border border-border-primary rounded-sm text-text-secondary hover:bg-bg-tertiary"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 rounded-sm bg-accent-danger/10 border border-accent-danger/20 text-[13px] text-accent-danger">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="p-3 rounded-sm bg-accent-success/10 border border-accent-success/20 text-[13px] text-accent-success">
+          {notice}
+        </div>
+      )}
+
+      <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm overflow-hidden">
+        <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 border-b border-border-primary">
+          <div>
+            <h3 className="text-[14px] font-semibold text-text-primary">
+              Rule library
+            </h3>
+            <p className="text-[12px] text-text-tertiary mt-0.5">
+              Define a rule once and attach it to groups. Edits propagate to
+              every attached group.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {missingBuiltins.length > 0 && !loading && (
+              <button
+                type="button"
+                onClick={handleSeedBuiltins}
+                disabled={saving}
+                className="h-8 px-3 text-[12px] border border-border-primary rounded-sm text-text-secondary hover:bg-bg-tertiary disabled:opacity-50"
+              >
+                Add built-in rules ({missingBuiltins.length})
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() =>
+                editingId === 'new' ? setEditingId(null) : startEdit(null)
+              }
+              className="h-8 px-3 text-[12px] border border-border-primary rounded-sm text-text-secondary hover:bg-bg-tertiary"
+            >
+              {editingId === 'new' ? 'Cancel' : 'New library rule'}
+            </button>
+          </div>
+        </div>
+
+        {editingId === 'new' && editor}
+
+        {loading ? (
+          <div className="p-4 text-[13px] text-text-tertiary">
+            Loading library...
+          </div>
+        ) : library.length === 0 ? (
+          <div className="p-4 text-[13px] text-text-tertiary">
+            The library is empty.
+          </div>
+        ) : (
+          <div className="divide-y divide-border-primary">
+            {library.map((rule) => {
+              const attachments = attachmentsById[rule.id] || [];
+              const drifted = attachments.filter((a) => a.drift.length > 0);
+              const available = groups.filter(
+                (g) => !attachments.some((a) => a.group.id === g.id),
+              );
+              return (
+                <div key={rule.id}>
+                  <div className="px-4 py-3 space-y-2">
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="text-[13px] font-medium text-text-primary">
+                          {rule.name}
+                          {rule.builtin_key && (
+                            <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded-sm bg-bg-tertiary text-text-tertiary">
+                              built-in
+                            </span>
+                          )}
+                          <span className="ml-2 text-[11px] font-normal text-text-tertiary">
+                            v{rule.version}
+                          </span>
+                        </div>
+                        <div className="text-[12px] text-text-tertiary mt-1">
+                          {rule.condition
+                            ? describeCondition(rule.condition)
+                            : `${rule.metric} ${rule.operator} ${rule.threshold}`}{' '}
+                          / {rule.window_seconds}s / {rule.severity}
+                        </div>
+                        {rule.description && (
+                          <div className="text-[12px] text-text-secondary mt-0.5">
+                            {rule.description}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {drifted.length > 0 && (
+                          <button
+                            type="button"
+                            onClick={() =>
+                              handleSync(
+                                rule,
+                                drifted.map((a) => a.group.id),
+                              )
+                            }
+                            className="text-[12px] px-2 py-1 rounded-sm border border-accent-warning/40 text-accent-warning hover:bg-accent-warning/10"
+                          >
+                            Sync {drifted.length} drifted
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setAttachingId(
+                              attachingId === rule.id ? null : rule.id,
+                            );
+                            setAttachGroupIds([]);
+                          }}
+                          disabled={available.length === 0}
+                          className="text-[12px] px-2 py-1 rounded-sm border border-border-primary text-text-secondary hover:bg-bg-tertiary disabled:opacity-50"
+                        >
+                          Attach to groups
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            editingId === rule.id
+                              ? setEditingId(null)
+                              : startEdit(rule)
+                          }
+                          className="text-[12px] px-2 py-1 rounded-sm border border-border-primary text-text-secondary hover:bg-bg-tertiary"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(rule)}
+                          className="text-[12px] px-2 py-1 rounded-sm border border-accent-danger/30 text-accent-danger hover:bg-accent-danger/10"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+
+                    {attachments.length === 0 ? (
+                      <div className="text-[11px] text-text-tertiary">
+                        Not attached to any group.
+                      </div>
+                    ) : (
+                      <div className="flex flex-wrap gap-1.5 text-[11px]">
+                        {attachments.map(({ group, drift }) => (
+                          <Link
+                            key={group.id}
+                            href={`/dashboard/rules?groupId=${group.id}`}
+                            title={
+                              drift.length > 0
+                                ? `Differs in ${drift.join(', ')}`
+                                : 'In sync'
+                            }
+                            className={`px-2 py-0.5 rounded-sm hover:underline ${
+                              drift.length > 0
+                                ? 'bg-accent-warning/10 text-accent-warning'
+                                : 'bg-accent-success/10 text-accent-success'
+                            }`}
+                          >
+                            {group.name}
+                            {drift.length > 0 ? ' · drifted' : ' · in sync'}
+                          </Link>
+                        ))}
+                      </div>
+                    )}
+
+                    {attachingId === rule.id && (
+                      <div className="p-3 rounded-sm border border-border-primary bg-bg-primary/50 space-y-2">
+                        <div className="flex flex-wrap gap-x-4 gap-y-1.5">
+                          {available.map((group) => (
+                            <label
+                              key={group.id}
+                              className="flex items-center gap-2 text-[12px] text-text-secondary"
+                            >
+                              <input
+                                type="checkbox"
+                                checked={attachGroupIds.includes(group.id)}
+                                onChange={(e) =>
+                                  setAttachGroupIds((prev) =>
+                                    e.target.checked
+                                      ? [...prev, group.id]
+                                      : prev.filter((id) => id !== group.id),
+                                  )
+                                }
+                              />
+                              {group.name}
+                            </label>
+                          ))}
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => handleAttach(rule)}
+                          disabled={saving}
+                          className="h-8 px-3 bg-accent-primary text-white text-[12px] font-medium rounded-sm hover:bg-accent-primary-hover disabled:opacity-50"
+                        >
+                          Attach
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  {editingId === rule.id && editor}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,13 +7,31 @@ import {
   useState,
   type FormEvent,
 } from 'react';
+import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
 import {
   ApiError,
   agentApi,
+  loadRuleLibrary,
   type AgentGroup,
   type AgentGroupRule,
+  type AgentRuleOverride,
+  type LibraryRule,
+  type RuleConditionGroup,
 } from '@/lib/api';
+import {
+  conditionGroup,
+  conditionLeaves,
+  describeCondition,
+  describeOverride,
+  isCompoundCondition,
+  librarySyncStatus,
+  METRIC_OPTIONS,
+  validateCondition,
+} from '@/lib/rules';
+import type { RuleSpec } from '@/lib/simulation';
+import { RuleConditionBuilder } from '@/components/RuleConditionBuilder';
+import { RuleSimulator } from '@/components/RuleSimulator';
 
 type RuleFormState = {
   ruleName: string;
@@ -24,98 +42,6 @@ type RuleFormState = {
   ruleWindow: number;
 };
 
-type RuleTemplate = {
-  id: string;
-  title: string;
-  description: string;
-  form: RuleFormState;
-};
-
-const METRIC_OPTIONS = [
-  { value: 'cpu', label: 'CPU usage (%)', thresholdHint: 'e.g. 90' },
-  { value: 'memory', label: 'Memory usage (%)', thresholdHint: 'e.g. 90' },
-  { value: 'disk', label: 'Disk usage (%)', thresholdHint: 'e.g. 95' },
-  {
-    value: 'process',
-    label: 'Process status',
-    thresholdHint: 'e.g. offline, missing',
-  },
-  {
-    value: 'network',
-    label: 'Network status',
-    thresholdHint: 'e.g. disconnected, fail',
-  },
-  { value: 'usb', label: 'USB device change', thresholdHint: 'e.g. removed, added' },
-] as const;
-
-const RULE_TEMPLATES: RuleTemplate[] = [
-  {
-    id: 'cpu-spike-90-30s',
-    title: 'CPU spike',
-    description: 'CPU usage >= 90% for 30s or longer',
-    form: {
-      ruleName: 'CPU > 90% (30s)',
-      ruleMetric: 'cpu',
-      ruleOperator: '>=',
-      ruleThreshold: '90',
-      ruleSeverity: 'warning',
-      ruleWindow: 30,
-    },
-  },
-  {
-    id: 'memory-high-90-300s',
-    title: 'Memory high',
-    description: 'Memory usage >= 90% for 5min or longer',
-    form: {
-      ruleName: 'Memory > 90% (5m)',
-      ruleMetric: 'memory',
-      ruleOperator: '>=',
-      ruleThreshold: '90',
-      ruleSeverity: 'warning',
-      ruleWindow: 300,
-    },
-  },
-  {
-    id: 'disk-critical-95-60s',
-    title: 'Disk threshold',
-    description: 'Disk usage >= 95% for 60s or longer',
-    form: {
-      ruleName: 'Disk > 95% (60s)',
-      ruleMetric: 'disk',
-      ruleOperator: '>=',
-      ruleThreshold: '95',
-      ruleSeverity: 'critical',
-      ruleWindow: 60,
-    },
-  },
-  {
-    id: 'network-disconnected',
-    title: 'Network disconnected',
-    description: 'Trigger when network status is disconnected',
-    form: {
-      ruleName: 'Network disconnected',
-      ruleMetric: 'network',
-      ruleOperator: '==',
-      ruleThreshold: 'disconnected',
-      ruleSeverity: 'critical',
-      ruleWindow: 1,
-    },
-  },
-  {
-    id: 'usb-removed',
-    title: 'USB device removed',
-    description: 'Trigger when critical USB device is removed',
-    form: {
-      ruleName: 'USB removed',
-      ruleMetric: 'usb',
-      ruleOperator: '==',
-      ruleThreshold: 'removed',
-      ruleSeverity: 'critical',
-      ruleWindow: 1,
-    },
-  },
-];
-
 const INITIAL_FORM: RuleFormState = {
   ruleName: '',
   ruleMetric: 'cpu',
@@ -132,12 +58,21 @@ export default function RulesPage() {
   const [groups, setGroups] = useState<AgentGroup[]>([]);
   const [selectedGroupId, setSelectedGroupId] = useState('');
   const [rules, setRules] = useState<AgentGroupRule[]>([]);
+  const [overrides, setOverrides] = useState<AgentRuleOverride[]>([]);
+  const [library, setLibrary] = useState<LibraryRule[]>([]);
+  // 라이브러리를 못 불러오면 연결 상태를 알 수 없으므로 배지를 숨긴다
+  const [libraryLoaded, setLibraryLoaded] = useState(false);
+  const [libraryError, setLibraryError] = useState('');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
   const [notice, setNotice] = useState('');
 
   const [form, setForm] = useState<RuleFormState>(INITIAL_FORM);
+  // null이면 단일 metric 조건, 값이 있으면 복합 조건 편집 중
+  const [compound, setCompound] = useState<RuleConditionGroup | null>(null);
+  // 저장된 룰을 장비별 예외까지 적용해 재생해 볼 때 펼치는 룰
+  const [simulatingRuleId, setSimulatingRuleId] = useState('');
 
   const selectedGroup = useMemo(
     () => groups.find((g) => g.id === selectedGroupId) || null,
@@ -151,8 +86,13 @@ export default function RulesPage() {
 
   const previewText = useMemo(
     () =>
-      `Alert ${form.ruleSeverity} when ${form.ruleMetric} ${form.ruleOperator} ${form.ruleThreshold} for ${form.ruleWindow}s or longer`,
+      `Alert ${form.ruleSeverity} when ${
+        compound
+          ? describeCondition(compound)
+          : `${form.ruleMetric} ${form.ruleOperator} ${form.ruleThreshold}`
+      } for ${form.ruleWindow}s or longer`,
     [
+      compound,
       form.ruleMetric,
       form.ruleOperator,
       form.ruleThreshold,
@@ -161,6 +101,34 @@ export default function RulesPage() {
     ],
   );
 
+  const conditionErrors = useMemo(
+    () => (compound ? validateCondition(compound) : []),
+    [compound],
+  );
+
+  const simulationRule = useMemo<RuleSpec>(
+    () => ({
+      metric: form.ruleMetric,
+      operator: form.ruleOperator,
+      threshold: form.ruleThreshold.trim(),
+      condition: compound,
+      window_seconds: form.ruleWindow,
+    }),
+    [
+      compound,
+      form.ruleMetric,
+      form.ruleOperator,
+      form.ruleThreshold,
+      form.ruleWindow,
+    ],
+  );
+
+  const simulationError = compound
+    ? conditionErrors[0]
+    : !form.ruleThreshold.trim()
+      ? 'Please enter a threshold.'
+      : undefined;
+
   const fetchGroups = useCallback(async () => {
     const res = await agentApi.listGroups();
     setGroups(res.groups);
@@ -183,10 +151,17 @@ export default function RulesPage() {
   const fetchRules = useCallback(async (groupId: string) => {
     if (!groupId) {
       setRules([]);
+      setOverrides([]);
       return;
     }
-    const res = await agentApi.listGroupRules(groupId);
+    const [res, overrideRes] = await Promise.all([
+      agentApi.listGroupRules(groupId),
+      agentApi
+        .listGroupRuleOverrides(groupId)
+        .catch(() => ({ overrides: [] as AgentRuleOverride[] })),
+    ]);
     setRules(res.rules);
+    setOverrides(overrideRes.overrides);
   }, []);
 
   useEffect(() => {
@@ -202,18 +177,88 @@ export default function RulesPage() {
     })();
   }, [fetchGroups]);
 
+  useEffect(() => {
+    loadRuleLibrary()
+      .then((rules) => {
+        setLibrary(rules);
+        setLibraryLoaded(true);
+      })
+      .catch(() => setLibraryError('Failed to load the rule library.'));
+  }, []);
+
   useEffect(() => {
     fetchRules(selectedGroupId).catch(() =>
       setError('Failed to load rules.'),
     );
   }, [fetchRules, selectedGroupId]);
 
-  const applyTemplate = (template: RuleTemplate) => {
-    setForm(template.form);
-    setNotice(`Template applied: ${template.title}`);
+  // 단일 조건을 첫 leaf로 옮겨 복합 조건 편집을 시작한다
+  const toggleCompound = () => {
+    if (compound) {
+      const [first] = conditionLeaves(compound);
+      if (first) {
+        setForm((prev) => ({
+          ...prev,
+          ruleMetric: first.metric,
+          ruleOperator: first.operator,
+          ruleThreshold: first.threshold,
+        }));
+      }
+      setCompound(null);
+      return;
+    }
+    setCompound(
+      conditionGroup('and', [
+        {
+          type: 'condition',
+          metric: form.ruleMetric,
+          operator: form.ruleOperator,
+          threshold: form.ruleThreshold,
+        },
+      ]),
+    );
+  };
+
+  const applyTemplate = (template: LibraryRule) => {
+    setForm({
+      ruleName: template.name,
+      ruleMetric: template.metric,
+      ruleOperator: template.operator,
+      ruleThreshold: template.threshold,
+      ruleSeverity: template.severity,
+      ruleWindow: template.window_seconds,
+    });
+    setCompound(template.condition);
+    setNotice(`Template applied: ${template.name}`);
     setError('');
   };
 
+  const attachTemplate = async (template: LibraryRule) => {
+    if (!selectedGroupId) return;
+    try {
+      setError('');
+      await agentApi.attachLibraryRule(template.id, [selectedGroupId]);
+      setNotice(`Attached from library: ${template.name}`);
+      await fetchRules(selectedGroupId);
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+      else setError('Failed to attach rule.');
+    }
+  };
+
+  const resyncRule = async (rule: AgentGroupRule) => {
+    if (!selectedGroupId || !rule.library_rule_id) return;
+    if (!confirm(`Replace "${rule.name}" with the library version?`)) return;
+    try {
+      setError('');
+      await agentApi.syncLibraryRule(rule.library_rule_id, [selectedGroupId]);
+      setNotice(`Rule synced: ${rule.name}`);
+      await fetchRules(selectedGroupId);
+    } catch {
+      setError('Failed to sync rule.');
+    }
+  };
+
   const handleCreateRule = async (e: FormEvent) => {
     e.preventDefault();
     if (!selectedGroupId) {
@@ -224,7 +269,11 @@ export default function RulesPage() {
       setError('Please enter a rule name.');
       return;
     }
-    if (!form.ruleThreshold.trim()) {
+    if (compound && conditionErrors.length > 0) {
+      setError(conditionErrors[0]);
+      return;
+    }
+    if (!compound && !form.ruleThreshold.trim()) {
       setError('Please enter a threshold.');
       return;
     }
@@ -236,11 +285,20 @@ export default function RulesPage() {
     try {
       setSaving(true);
       setError('');
+      const primary = compound
+        ? conditionLeaves(compound)[0]
+        : {
+            metric: form.ruleMetric,
+            operator: form.ruleOperator,
+            threshold: form.ruleThreshold,
+          };
       await agentApi.createGroupRule(selectedGroupId, {
         name: form.ruleName.trim(),
-        metric: form.ruleMetric,
-        operator: form.ruleOperator,
-        threshold: form.ruleThreshold.trim(),
+        metric: primary.metric,
+        operator: primary.operator,
+        threshold: primary.threshold.trim(),
+        condition:
+          compound && isCompoundCondition(compound) ? compound : null,
         severity: form.ruleSeverity,
         window_seconds: form.ruleWindow,
       });
@@ -330,26 +388,74 @@ export default function RulesPage() {
       {selectedGroup ? (
         <>
           <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm p-4">
-            <h3 className="text-[14px] font-semibold text-text-primary mb-3">
-              Quick templates
-            </h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
-              {RULE_TEMPLATES.map((template) => (
-                <button
-                  key={template.id}
-                  type="button"
-                  onClick={() => applyTemplate(template)}
-                  className="text-left p-3 rounded-sm border border-border-primary hover:bg-bg-tertiary/40 transition-colors"
-                >
-                  <div className="text-[13px] font-medium text-text-primary">
-                    {template.title}
-                  </div>
-                  <div className="text-[12px] text-text-tertiary mt-1">
-                    {template.description}
-                  </div>
-                </button>
-              ))}
+            <div className="flex items-center justify-between gap-2 mb-3">
+              <h3 className="text-[14px] font-semibold text-text-primary">
+                Rule library
+              </h3>
+              <Link
+                href="/dashboard/rules/library"
+                className="text-[12px] text-accent-primary hover:underline"
+              >
+                Manage library
+              </Link>
             </div>
+            {libraryError ? (
+              <div className="text-[13px] text-accent-danger">
+                {libraryError}
+              </div>
+            ) : !libraryLoaded ? (
+              <div className="text-[13px] text-text-tertiary">
+                Loading library...
+              </div>
+            ) : library.length === 0 ? (
+              <div className="text-[13px] text-text-tertiary">
+                No library rules.
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+                {library.map((template) => {
+                  const attached = rules.some(
+                    (r) => r.library_rule_id === template.id,
+                  );
+                  return (
+                    <div
+                      key={template.id}
+                      className="p-3 rounded-sm border border-border-primary"
+                    >
+                      <div className="text-[13px] font-medium text-text-primary">
+                        {template.name}
+                      </div>
+                      <div className="text-[12px] text-text-tertiary mt-1">
+                        {template.description ||
+                          (template.condition
+                            ? describeCondition(template.condition)
+                            : `${template.metric} ${template.operator} ${template.threshold}`)}
+                      </div>
+                      <div className="flex items-center gap-3 mt-2 text-[12px]">
+                        {attached ? (
+                          <span className="text-accent-success">Attached</span>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => attachTemplate(template)}
+                            className="text-accent-primary hover:underline cursor-pointer"
+                          >
+                            Attach to group
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => applyTemplate(template)}
+                          className="text-text-secondary hover:underline cursor-pointer"
+                        >
+                          Copy to form
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </div>
 
           <form
@@ -359,9 +465,21 @@ export default function RulesPage() {
             <h3 className="text-[14px] font-semibold text-text-primary">
               Add rule ({selectedGroup.name})
             </h3>
-            <p className="text-[12px] text-text-tertiary">
-              Threshold can be numeric or string (e.g. 90, disconnected, removed).
-            </p>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-[12px] text-text-tertiary">
+                Threshold can be numeric or string (e.g. 90, disconnected,
+                removed).
+              </p>
+              <button
+                type="button"
+                onClick={toggleCompound}
+                className="text-[12px] text-accent-primary hover:underline cursor-pointer"
+              >
+                {compound
+                  ? 'Use a single condition'
+                  : 'Combine conditions (AND/OR)'}
+              </button>
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
               <div className="space-y-1">
                 <label className="text-[12px] text-text-secondary">
@@ -376,62 +494,66 @@ export default function RulesPage() {
                   className="h-10 w-full px-3 text-[14px] bg-bg-primary border border-border-primary rounded-sm"
                 />
               </div>
-              <div className="space-y-1">
-                <label className="text-[12px] text-text-secondary">
-                  Metric
-                </label>
-                <select
-                  value={form.ruleMetric}
-                  onChange={(e) =>
-                    setForm((prev) => ({ ...prev, ruleMetric: e.target.value }))
-                  }
-                  className="h-10 w-full px-3 text-[14px] bg-bg-primary border border-border-primary rounded-sm"
-                >
-                  {METRIC_OPTIONS.map((opt) => (
-                    <option key={opt.value} value={opt.value}>
-                      {opt.label}
-                    </option>
-                  ))}
-                </select>
-              </div>
-              <div className="space-y-1">
-                <label className="text-[12px] text-text-secondary">
-                  Operator
-                </label>
-                <select
-                  value={form.ruleOperator}
-                  onChange={(e) =>
-                    setForm((prev) => ({
-                      ...prev,
-                      ruleOperator: e.target.value,
-                    }))
-                  }
-                  className="h-10 w-full px-3 text-[14px] bg-bg-primary border border-border-primary rounded-sm"
-                >
-                  <option value=">=">{'>='}</option>
-                  <option value=">">{'>'}</option>
-                  <option value="<=">{'<='}</option>
-                  <option value="<">{'<'}</option>
-                  <option value="==">{'=='}</option>
-                  <option value="!=">{'!='}</option>
-                </select>
-              </div>
-              <div className="space-y-1">
-                <label className="text-[12px] text-text-secondary">
-                  Threshold
-                </label>
-                <input
-                  value={form.ruleThreshold}
-                  onChange={(e) =>
-                    setForm((prev) => ({
-                      ...prev,
-                      ruleThreshold: e.target.value,
-                    }))
-                  }
-                  placeholder={selectedMetric?.thresholdHint || 'e.g. 90'}
-                  className="h-10 w-full px-3 text-[14px] bg-bg-primary border border-border-primary rounded-sm"
-                />
-              </div>
+              {!compound && (
+                <>
+                  <div className="space-y-1">
+                    <label className="text-[12px] text-text-secondary">
+                      Metric
+                    </label>
+                    <select
+                      value={form.ruleMetric}
+                      onChange={(e) =>
+                        setForm((prev) => ({ ...prev, ruleMetric: e.target.value }))
+                      }
+                      className="h-10 w-full px-3 text-[14px] bg-bg-primary border border-border-primary rounded-sm"
+                    >
+                      {METRIC_OPTIONS.map((opt) => (
+                        <option key={opt.value} value={opt.value}>
+                          {opt.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-[12px] text-text-secondary">
+                      Operator
+                    </label>
+                    <select
+                      value={form.ruleOperator}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          ruleOperator: e.target.value,
+                        }))
+                      }
+                      className="h-10 w-full px-3 text-[14px] bg-bg-primary border border-border-primary rounded-sm"
+                    >
+                      <option value=">=">{'>='}</option>
+                      <option value=">">{'>'}</option>
+                      <option value="<=">{'<='}</option>
+                      <option value="<">{'<'}</option>
+                      <option value="==">{'=='}</option>
+                      <option value="!=">{'!='}</option>
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-[12px] text-text-secondary">
+                      Threshold
+                    </label>
+                    <input
+                      value={form.ruleThreshold}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          ruleThreshold: e.target.value,
+                        }))
+                      }
+                      placeholder={selectedMetric?.thresholdHint || 'e.g. 90'}
+                      className="h-10 w-full px-3 text-[14px] bg-bg-primary border border-border-primary rounded-sm"
+                    />
+                  </div>
+                </>
+              )}
               <div className="space-y-1">
                 <label className="text-[12px] text-text-secondary">
                   Severity
@@ -474,11 +596,30 @@ export default function RulesPage() {
               </div>
             </div>
 
+            {compound && (
+              <div className="space-y-2">
+                <RuleConditionBuilder value={compound} onChange={setCompound} />
+                {conditionErrors.length > 0 && (
+                  <ul className="text-[11px] text-accent-danger space-y-0.5">
+                    {conditionErrors.map((err) => (
+                      <li key={err}>{err}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
             <div className="rounded-sm border border-border-primary bg-bg-primary px-3 py-2 text-[12px] text-text-secondary">
               <span className="text-text-tertiary mr-2">Preview</span>
               {previewText}
             </div>
 
+            <RuleSimulator
+              groupId={selectedGroup.id}
+              rule={simulationRule}
+              validationError={simulationError}
+            />
+
             <button
               type="submit"
               disabled={saving}
@@ -506,11 +647,25 @@ export default function RulesPage() {
                           {rule.name}
                         </div>
                         <div className="text-[12px] text-text-tertiary mt-1">
-                          {rule.metric} {rule.operator} {rule.threshold} /{' '}
-                          {rule.window_seconds}s
+                          {rule.condition
+                            ? describeCondition(rule.condition)
+                            : `${rule.metric} ${rule.operator} ${rule.threshold}`}{' '}
+                          / {rule.window_seconds}s
                         </div>
+                        <RuleOverrideList
+                          overrides={overrides.filter(
+                            (o) => o.rule_id === rule.id,
+                          )}
+                        />
                       </div>
                       <div className="flex flex-wrap items-center gap-2">
+                        {libraryLoaded && (
+                          <LibraryStatusBadge
+                            rule={rule}
+                            library={library}
+                            onResync={() => resyncRule(rule)}
+                          />
+                        )}
                         <span
                           className={`text-[11px] px-2 py-1 rounded-sm ${
                             rule.severity === 'critical'
@@ -547,6 +702,17 @@ export default function RulesPage() {
                         >
                           {rule.enabled ? 'Disable' : 'Enable'}
                         </button>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setSimulatingRuleId((prev) =>
+                              prev === rule.id ? '' : rule.id,
+                            )
+                          }
+                          className="text-[12px] px-2 py-1 rounded-sm border border-border-primary text-text-secondary hover:bg-bg-tertiary"
+                        >
+                          {simulatingRuleId === rule.id ? 'Close' : 'Simulate'}
+                        </button>
                         <button
                           type="button"
                           onClick={() => deleteRule(rule.id)}
@@ -556,6 +722,11 @@ export default function RulesPage() {
                         </button>
                       </div>
                     </div>
+                    {simulatingRuleId === rule.id && (
+                      <div className="mt-3">
+                        <RuleSimulator groupId={selectedGroup.id} rule={rule} />
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -566,3 +737,66 @@ export default function RulesPage() {
     </div>
   );
 }
+
+function RuleOverrideList({ overrides }: { overrides: AgentRuleOverride[] }) {
+  if (overrides.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-1.5 text-[11px]">
+      <span className="text-text-tertiary">
+        Overridden on {overrides.length} agent
+        {overrides.length === 1 ? '' : 's'}:
+      </span>
+      {overrides.map((o) => (
+        <Link
+          key={o.id}
+          href={`/dashboard/agents/${o.agent_id}`}
+          title={describeOverride(o)}
+          className={`px-1.5 py-0.5 rounded-sm hover:underline ${
+            o.enabled
+              ? 'bg-accent-info/10 text-accent-info'
+              : 'bg-bg-tertiary text-text-tertiary line-through'
+          }`}
+        >
+          {o.agent_display_name || o.agent_thing_name || o.agent_id}
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+function LibraryStatusBadge({
+  rule,
+  library,
+  onResync,
+}: {
+  rule: AgentGroupRule;
+  library: LibraryRule[];
+  onResync: () => void;
+}) {
+  const sync = librarySyncStatus(rule, library);
+  if (!sync) return null;
+  if (sync.status === 'detached') {
+    return (
+      <span className="text-[11px] px-2 py-1 rounded-sm bg-bg-tertiary text-text-tertiary">
+        Library rule deleted
+      </span>
+    );
+  }
+  if (sync.status === 'in_sync') {
+    return (
+      <span className="text-[11px] px-2 py-1 rounded-sm bg-accent-success/10 text-accent-success">
+        Library: in sync
+      </span>
+    );
+  }
+  return (
+    <button
+      type="button"
+      onClick={onResync}
+      title={`Differs in ${sync.fields.join(', ')}. Click to re-sync.`}
+      className="text-[11px] px-2 py-1 rounded-sm bg-accent-warning/10 text-accent-warning hover:bg-accent-warning/20 cursor-pointer"
+    >
+      Library: drifted ({sync.fields.join(', ')})
+    </button>
+  );
+}
@@ -0,0 +1,305 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  ApiError,
+  agentApi,
+  type AgentGroupRule,
+  type AgentRuleOverride,
+} from '@/lib/api';
+import {
+  applyRuleOverride,
+  describeCondition,
+  describeOverride,
+  NUMERIC_METRICS,
+} from '@/lib/rules';
+
+type OverrideDraft = {
+  enabled: boolean;
+  threshold: string;
+  severity: '' | 'info' | 'warning' | 'critical';
+  window: string;
+};
+
+const fieldClass =
+  'h-8 px-2 text-[12px] bg-bg-primary border border-border-primary rounded-sm';
+
+function toDraft(override: AgentRuleOverride | undefined): OverrideDraft {
+  return {
+    enabled: override ? override.enabled === 1 : true,
+    threshold: override?.threshold ?? '',
+    severity: override?.severity ?? '',
+    window:
+      override?.window_seconds != null ? String(override.window_seconds) : '',
+  };
+}
+
+// 그룹 룰을 이 장비에서만 끄거나 threshold/severity/window를 바꾼다
+// 빈 칸은 그룹 룰 값을 그대로 따른다
+export function AgentRuleOverrides({
+  agentId,
+  rules,
+  overrides,
+  onChanged,
+}: {
+  agentId: string;
+  rules: AgentGroupRule[];
+  overrides: AgentRuleOverride[];
+  onChanged: () => Promise<void> | void;
+}) {
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<OverrideDraft>(toDraft(undefined));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const overrideFor = (ruleId: string) =>
+    overrides.find((o) => o.rule_id === ruleId);
+
+  const startEdit = (rule: AgentGroupRule) => {
+    setEditingRuleId(rule.id);
+    setDraft(toDraft(overrideFor(rule.id)));
+    setError('');
+  };
+
+  const saveOverride = async (rule: AgentGroupRule) => {
+    const threshold = draft.threshold.trim();
+    const window = draft.window.trim();
+    if (
+      threshold &&
+      NUMERIC_METRICS.includes(rule.metric) &&
+      Number.isNaN(Number(threshold))
+    ) {
+      setError(`${rule.metric} threshold must be a number.`);
+      return;
+    }
+    if (window && !(Number(window) >= 1)) {
+      setError('Window must be at least 1 second.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      // 그룹 룰과 차이가 없으면 예외를 지운다
+      if (draft.enabled && !threshold && !draft.severity && !window) {
+        if (overrideFor(rule.id)) {
+          await agentApi.deleteAgentRuleOverride(agentId, rule.id);
+        }
+      } else {
+        await agentApi.setAgentRuleOverride(agentId, rule.id, {
+          enabled: draft.enabled,
+          threshold: threshold || null,
+          severity: draft.severity || null,
+          window_seconds: window ? Number(window) : null,
+        });
+      }
+      setEditingRuleId(null);
+      await onChanged();
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+      else setError('Failed to save override.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetOverride = async (rule: AgentGroupRule) => {
+    if (!confirm(`Use the group settings for "${rule.name}" again?`)) return;
+    try {
+      setError('');
+      await agentApi.deleteAgentRuleOverride(agentId, rule.id);
+      if (editingRuleId === rule.id) setEditingRuleId(null);
+      await onChanged();
+    } catch {
+      setError('Failed to reset override.');
+    }
+  };
+
+  return (
+    <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm overflow-hidden">
+      <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-border-primary">
+        <h3 className="text-[14px] font-semibold text-text-primary">
+          Alert rules
+          {overrides.length > 0 && (
+            <span className="ml-2 text-[11px] font-normal text-text-tertiary">
+              {overrides.length} override{overrides.length === 1 ? '' : 's'}
+            </span>
+          )}
+        </h3>
+        <span className="text-[12px] text-text-tertiary">
+          Inherited from the group. Override for this agent only.
+        </span>
+      </div>
+
+      {error && (
+        <div className="m-4 p-3 rounded-sm bg-accent-danger/10 border border-accent-danger/20 text-[13px] text-accent-danger">
+          {error}
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <div className="p-4 text-[13px] text-text-tertiary">
+          The group has no rules.
+        </div>
+      ) : (
+        <div className="divide-y divide-border-primary">
+          {rules.map((rule) => {
+            const override = overrideFor(rule.id);
+            const effective = applyRuleOverride(rule, override);
+            const editing = editingRuleId === rule.id;
+            return (
+              <div key={rule.id} className="px-4 py-3 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="text-[13px] font-medium text-text-primary truncate">
+                      {rule.name}
+                      {!rule.enabled && (
+                        <span className="ml-2 text-[11px] font-normal text-text-tertiary">
+                          disabled in group
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-[12px] text-text-tertiary mt-0.5">
+                      {rule.condition
+                        ? describeCondition(rule.condition)
+                        : `${effective.metric} ${effective.operator} ${effective.threshold}`}{' '}
+                      / {effective.window_seconds}s / {effective.severity}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {override && (
+                      <span
+                        className={`text-[11px] px-2 py-1 rounded-sm ${
+                          override.enabled
+                            ? 'bg-accent-info/10 text-accent-info'
+                            : 'bg-bg-tertiary text-text-tertiary'
+                        }`}
+                      >
+                        Override: {describeOverride(override)}
+                      </span>
+                    )}
+                    {!editing && (
+                      <button
+                        type="button"
+                        onClick={() => startEdit(rule)}
+                        className="text-[12px] px-2 py-1 rounded-sm border border-border-primary text-text-secondary hover:bg-bg-tertiary"
+                      >
+                        {override ? 'Edit override' : 'Override'}
+                      </button>
+                    )}
+                    {override && !editing && (
+                      <button
+                        type="button"
+                        onClick={() => resetOverride(rule)}
+                        className="text-[12px] px-2 py-1 rounded-sm border border-accent-danger/30 text-accent-danger hover:bg-accent-danger/10"
+                      >
+                        Reset
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {editing && (
+                  <div className="flex flex-wrap items-end gap-3 p-3 rounded-sm bg-bg-primary/50 border border-border-primary">
+                    <label className="flex items-center gap-2 h-8 text-[12px] text-text-secondary">
+                      <input
+                        type="checkbox"
+                        checked={draft.enabled}
+                        onChange={(e) =>
+                          setDraft((prev) => ({
+                            ...prev,
+                            enabled: e.target.checked,
+                          }))
+                        }
+                      />
+                      Evaluate on this agent
+                    </label>
+                    <div className="space-y-1">
+                      <div className="text-[11px] text-text-tertiary">
+                        Threshold
+                      </div>
+                      <input
+                        value={draft.threshold}
+                        onChange={(e) =>
+                          setDraft((prev) => ({
+                            ...prev,
+                            threshold: e.target.value,
+                          }))
+                        }
+                        disabled={!draft.enabled || !!rule.condition}
+                        placeholder={rule.condition ? 'compound' : rule.threshold}
+                        title={
+                          rule.condition
+                            ? 'Compound rules keep the group conditions'
+                            : undefined
+                        }
+                        className={`${fieldClass} w-28 disabled:opacity-50`}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <div className="text-[11px] text-text-tertiary">
+                        Severity
+                      </div>
+                      <select
+                        value={draft.severity}
+                        onChange={(e) =>
+                          setDraft((prev) => ({
+                            ...prev,
+                            severity: e.target.value as OverrideDraft['severity'],
+                          }))
+                        }
+                        disabled={!draft.enabled}
+                        className={`${fieldClass} disabled:opacity-50`}
+                      >
+                        <option value="">Group ({rule.severity})</option>
+                        <option value="info">info</option>
+                        <option value="warning">warning</option>
+                        <option value="critical">critical</option>
+                      </select>
+                    </div>
+                    <div className="space-y-1">
+                      <div className="text-[11px] text-text-tertiary">
+                        Window (seconds)
+                      </div>
+                      <input
+                        type="number"
+                        min={1}
+                        value={draft.window}
+                        onChange={(e) =>
+                          setDraft((prev) => ({
+                            ...prev,
+                            window: e.target.value,
+                          }))
+                        }
+                        disabled={!draft.enabled}
+                        placeholder={String(rule.window_seconds)}
+                        className={`${fieldClass} w-24 disabled:opacity-50`}
+                      />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => saveOverride(rule)}
+                        disabled={saving}
+                        className="h-8 px-3 bg-accent-primary text-white text-[12px] font-medium rounded-sm hover:bg-accent-primary-hover disabled:opacity-50"
+                      >
+                        {saving ? 'Saving...' : 'Save'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditingRuleId(null)}
+                        className="h-8 px-3 text-[12px] border border-border-primary rounded-sm text-text-secondary hover:bg-bg-tertiary"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { AgentAlertOccurrence } from '@/lib/api';
+import { alertStatus, formatDuration, type AlertIncident } from '@/lib/alerts';
+import { AlertTriageList } from '@/components/AlertTriageList';
+
+const SPARKLINE_BUCKETS = 24;
+const SPARKLINE_WIDTH = 120;
+const SPARKLINE_HEIGHT = 24;
+
+// rule + agent 단위로 묶인 incident 목록 — 펼치면 원본 발생 이력과 처리 버튼
+export function AlertIncidentList({
+  incidents,
+  currentUser,
+  groupNames,
+  silenceNames,
+  onUpdated,
+  emptyText = 'No incidents.',
+}: {
+  incidents: AlertIncident[];
+  currentUser: string;
+  groupNames?: Record<string, string>;
+  silenceNames?: Record<string, string>;
+  onUpdated: (alert: AgentAlertOccurrence) => void;
+  emptyText?: string;
+}) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (key: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  if (incidents.length === 0) {
+    return <div className="p-4 text-[13px] text-text-tertiary">{emptyText}</div>;
+  }
+
+  return (
+    <div className="divide-y divide-border-primary">
+      {incidents.map((incident) => {
+        const latest = incident.occurrences[0];
+        const isOpen = expanded.has(incident.key);
+        const unresolved = incident.occurrences.filter(
+          (a) => alertStatus(a) !== 'resolved',
+        ).length;
+        const suppressed = incident.occurrences.filter(
+          (a) => a.suppressed_by,
+        ).length;
+        return (
+          <div key={incident.key}>
+            <button
+              type="button"
+              onClick={() => toggle(incident.key)}
+              className="w-full flex flex-wrap items-center justify-between gap-3 px-4 py-3 text-left hover:bg-bg-tertiary/30 transition-colors cursor-pointer"
+            >
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-[11px] text-text-tertiary">
+                    {isOpen ? '▾' : '▸'}
+                  </span>
+                  <span className="text-[13px] font-medium text-text-primary truncate">
+                    {latest.rule_name || latest.metric}
+                  </span>
+                  <span className="text-[11px] font-semibold px-1.5 py-0.5 rounded-full bg-bg-tertiary text-text-secondary">
+                    ×{incident.occurrences.length}
+                  </span>
+                </div>
+                <div className="text-[12px] text-text-tertiary mt-1 truncate">
+                  {latest.agent_display_name ||
+                    latest.agent_thing_name ||
+                    latest.agent_id}
+                  {groupNames?.[incident.group_id] &&
+                    ` · ${groupNames[incident.group_id]}`}
+                  {' · '}
+                  first {formatDateTime(incident.first_seen)}, last{' '}
+                  {formatDateTime(incident.last_seen)}
+                  {incident.last_seen > incident.first_seen &&
+                    ` (${formatDuration(incident.last_seen - incident.first_seen)})`}
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <OccurrenceSparkline incident={incident} />
+                {suppressed > 0 && (
+                  <span className="text-[11px] text-text-tertiary">
+                    {suppressed === incident.occurrences.length
+                      ? 'silenced'
+                      : `${suppressed} silenced`}
+                  </span>
+                )}
+                {unresolved > 0 && unresolved < incident.occurrences.length && (
+                  <span className="text-[11px] text-text-tertiary">
+                    {unresolved} unresolved
+                  </span>
+                )}
+                <span
+                  className={`text-[11px] px-2 py-1 rounded-sm ${
+                    incident.severity === 'critical'
+                      ? 'bg-accent-danger/10 text-accent-danger'
+                      : incident.severity === 'warning'
+                        ? 'bg-accent-warning/10 text-accent-warning'
+                        : 'bg-accent-info/10 text-accent-info'
+                  }`}
+                >
+                  {incident.severity}
+                </span>
+              </div>
+            </button>
+            {isOpen && (
+              <div className="ml-6 border-l border-border-primary bg-bg-primary/40">
+                <AlertTriageList
+                  alerts={incident.occurrences}
+                  currentUser={currentUser}
+                  groupNames={groupNames}
+                  silenceNames={silenceNames}
+                  onUpdated={onUpdated}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function OccurrenceSparkline({ incident }: { incident: AlertIncident }) {
+  const buckets = useMemo(() => {
+    const counts = new Array<number>(SPARKLINE_BUCKETS).fill(0);
+    const span = incident.last_seen - incident.first_seen;
+    for (const a of incident.occurrences) {
+      const index =
+        span > 0
+          ? Math.min(
+              SPARKLINE_BUCKETS - 1,
+              Math.floor(
+                ((a.created_at - incident.first_seen) / span) *
+                  SPARKLINE_BUCKETS,
+              ),
+            )
+          : SPARKLINE_BUCKETS - 1;
+      counts[index]++;
+    }
+    return counts;
+  }, [incident]);
+
+  const max = Math.max(...buckets, 1);
+  const barWidth = SPARKLINE_WIDTH / SPARKLINE_BUCKETS;
+
+  return (
+    <svg
+      width={SPARKLINE_WIDTH}
+      height={SPARKLINE_HEIGHT}
+      className="shrink-0"
+      aria-label={`${incident.occurrences.length} occurrences`}
+    >
+      {buckets.map((count, i) =>
+        count > 0 ? (
+          <rect
+            key={i}
+            x={i * barWidth + 0.5}
+            y={SPARKLINE_HEIGHT - (count / max) * SPARKLINE_HEIGHT}
+            width={Math.max(1, barWidth - 1)}
+            height={(count / max) * SPARKLINE_HEIGHT}
+            className={
+              incident.severity === 'critical'
+                ? 'fill-accent-danger'
+                : incident.severity === 'warning'
+                  ? 'fill-accent-warning'
+                  : 'fill-accent-info'
+            }
+          />
+        ) : null,
+      )}
+      <line
+        x1={0}
+        x2={SPARKLINE_WIDTH}
+        y1={SPARKLINE_HEIGHT - 0.5}
+        y2={SPARKLINE_HEIGHT - 0.5}
+        className="stroke-border-primary"
+      />
+    </svg>
+  );
+}
+
+function formatDateTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
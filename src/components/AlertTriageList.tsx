@@ -0,0 +1,344 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  ApiError,
+  agentApi,
+  type AgentAlertOccurrence,
+  type AgentGroupAlertChannel,
+  type AlertLifecycleUpdate,
+  type AlertStatus,
+} from '@/lib/api';
+import {
+  alertStatus,
+  formatDuration,
+  SNOOZE_OPTIONS,
+  timeToAcknowledge,
+  timeToResolve,
+} from '@/lib/alerts';
+import { getChannelType, routeAlertToChannel } from '@/lib/channels';
+
+type PendingAction = { alertId: string; type: 'assign' | 'resolve' };
+
+const STATUS_STYLE: Record<AlertStatus, string> = {
+  open: 'bg-accent-danger/10 text-accent-danger',
+  acknowledged: 'bg-accent-warning/10 text-accent-warning',
+  snoozed: 'bg-accent-info/10 text-accent-info',
+  resolved: 'bg-accent-success/10 text-accent-success',
+};
+
+// 알림 목록 + 처리 버튼 — 그룹 알림 화면과 계정 전체 inbox에서 공용
+export function AlertTriageList({
+  alerts,
+  currentUser,
+  groupNames,
+  silenceNames,
+  channels,
+  onUpdated,
+  emptyText = 'No alerts.',
+}: {
+  alerts: AgentAlertOccurrence[];
+  currentUser: string;
+  groupNames?: Record<string, string>;
+  // silence id → 이름, 음소거된 발생에 어떤 silence 때문인지 표시
+  silenceNames?: Record<string, string>;
+  // 넘기면 각 알림이 어느 채널로 발송되는지(또는 왜 제외되는지) 표시
+  channels?: AgentGroupAlertChannel[];
+  onUpdated: (alert: AgentAlertOccurrence) => void;
+  emptyText?: string;
+}) {
+  const [action, setAction] = useState<PendingAction | null>(null);
+  const [draft, setDraft] = useState('');
+  const [savingId, setSavingId] = useState('');
+  const [error, setError] = useState('');
+
+  const update = async (
+    alert: AgentAlertOccurrence,
+    data: AlertLifecycleUpdate,
+  ) => {
+    try {
+      setSavingId(alert.id);
+      setError('');
+      const res = await agentApi.updateGroupAlert(
+        alert.group_id,
+        alert.id,
+        data,
+      );
+      onUpdated(res.alert);
+      setAction(null);
+      setDraft('');
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+      else setError('Failed to update alert.');
+    } finally {
+      setSavingId('');
+    }
+  };
+
+  const openAction = (
+    alert: AgentAlertOccurrence,
+    type: PendingAction['type'],
+  ) => {
+    setAction({ alertId: alert.id, type });
+    setDraft(type === 'assign' ? alert.assignee || currentUser : '');
+  };
+
+  const smallButton =
+    'h-7 px-2 text-[12px] rounded-sm border border-border-primary text-text-secondary hover:bg-bg-tertiary disabled:opacity-50 cursor-pointer';
+
+  if (alerts.length === 0) {
+    return <div className="p-4 text-[13px] text-text-tertiary">{emptyText}</div>;
+  }
+
+  return (
+    <div>
+      {error && (
+        <div className="m-4 p-3 rounded-sm bg-accent-danger/10 border border-accent-danger/20 text-[13px] text-accent-danger">
+          {error}
+        </div>
+      )}
+      <div className="divide-y divide-border-primary">
+        {alerts.map((a) => {
+          const status = alertStatus(a);
+          const tta = timeToAcknowledge(a);
+          const ttr = timeToResolve(a);
+          const busy = savingId === a.id;
+          return (
+            <div key={a.id} className="px-4 py-3 space-y-2">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-[13px] font-medium text-text-primary truncate">
+                    {a.rule_name || a.metric}
+                  </div>
+                  <div className="text-[12px] text-text-tertiary mt-1 break-all">
+                    {a.message || a.anomaly_type}
+                  </div>
+                  <div className="text-[12px] text-text-tertiary mt-1">
+                    Agent:{' '}
+                    {a.agent_display_name || a.agent_thing_name || a.agent_id}
+                    {groupNames?.[a.group_id] &&
+                      ` · Group: ${groupNames[a.group_id]}`}
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {a.suppressed_by && (
+                    <span
+                      title="Notifications were not sent for this alert"
+                      className="text-[11px] px-2 py-1 rounded-sm bg-bg-tertiary text-text-secondary"
+                    >
+                      Silenced by{' '}
+                      {silenceNames?.[a.suppressed_by] ?? 'a deleted silence'}
+                    </span>
+                  )}
+                  <span
+                    className={`text-[11px] px-2 py-1 rounded-sm ${STATUS_STYLE[status]}`}
+                  >
+                    {status}
+                  </span>
+                  <span
+                    className={`text-[11px] px-2 py-1 rounded-sm ${
+                      a.severity === 'critical'
+                        ? 'bg-accent-danger/10 text-accent-danger'
+                        : a.severity === 'warning'
+                          ? 'bg-accent-warning/10 text-accent-warning'
+                          : 'bg-accent-info/10 text-accent-info'
+                    }`}
+                  >
+                    {a.severity}
+                  </span>
+                  <span className="text-[11px] px-2 py-1 rounded-sm bg-bg-tertiary text-text-secondary">
+                    {new Date(a.created_at * 1000).toLocaleString('en-US')}
+                  </span>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-[12px] text-text-tertiary">
+                <span>
+                  Assignee:{' '}
+                  <span className="text-text-secondary">
+                    {a.assignee || 'Unassigned'}
+                  </span>
+                </span>
+                {tta !== null && (
+                  <span>
+                    Ack in {formatDuration(tta)}
+                    {a.acknowledged_by && ` by ${a.acknowledged_by}`}
+                  </span>
+                )}
+                {ttr !== null && (
+                  <span>
+                    Resolved in {formatDuration(ttr)}
+                    {a.resolved_by && ` by ${a.resolved_by}`}
+                  </span>
+                )}
+                {status === 'snoozed' && a.snoozed_until && (
+                  <span>
+                    Snoozed until{' '}
+                    {new Date(a.snoozed_until * 1000).toLocaleString('en-US')}
+                  </span>
+                )}
+              </div>
+              {channels && channels.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1 text-[11px]">
+                  <span className="text-text-tertiary mr-1">Routes to</span>
+                  {channels.map((channel) => {
+                    const decision = routeAlertToChannel(channel, a);
+                    return (
+                      <span
+                        key={channel.id}
+                        title={decision.reason}
+                        className={`px-1.5 py-0.5 rounded-sm ${
+                          decision.routed
+                            ? 'bg-accent-success/10 text-accent-success'
+                            : 'bg-bg-tertiary text-text-tertiary line-through'
+                        }`}
+                      >
+                        {getChannelType(channel.type).label}
+                      </span>
+                    );
+                  })}
+                </div>
+              )}
+              {a.resolution_note && (
+                <div className="text-[12px] text-text-secondary bg-bg-primary border border-border-primary rounded-sm px-3 py-2 whitespace-pre-wrap">
+                  {a.resolution_note}
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2">
+                {status === 'open' && (
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => update(a, { status: 'acknowledged' })}
+                    className="h-7 px-2 text-[12px] rounded-sm bg-accent-primary text-white hover:bg-accent-primary-hover disabled:opacity-50 cursor-pointer"
+                  >
+                    Acknowledge
+                  </button>
+                )}
+                {status !== 'resolved' && (
+                  <>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => openAction(a, 'assign')}
+                      className={smallButton}
+                    >
+                      Assign
+                    </button>
+                    {SNOOZE_OPTIONS.map((opt) => (
+                      <button
+                        key={opt.label}
+                        type="button"
+                        disabled={busy}
+                        onClick={() =>
+                          update(a, {
+                            status: 'snoozed',
+                            snoozed_until:
+                              Math.floor(Date.now() / 1000) + opt.seconds,
+                          })
+                        }
+                        className={smallButton}
+                      >
+                        Snooze {opt.label}
+                      </button>
+                    ))}
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => openAction(a, 'resolve')}
+                      className="h-7 px-2 text-[12px] rounded-sm border border-accent-success/40 text-accent-success hover:bg-accent-success/10 disabled:opacity-50 cursor-pointer"
+                    >
+                      Resolve
+                    </button>
+                  </>
+                )}
+                {(status === 'resolved' || status === 'snoozed') && (
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => update(a, { status: 'open' })}
+                    className={smallButton}
+                  >
+                    Reopen
+                  </button>
+                )}
+              </div>
+
+              {action?.alertId === a.id && action.type === 'assign' && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    placeholder="Name or email"
+                    className="h-8 w-60 px-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+                  />
+                  {currentUser && draft !== currentUser && (
+                    <button
+                      type="button"
+                      onClick={() => setDraft(currentUser)}
+                      className={smallButton}
+                    >
+                      Me
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() =>
+                      update(a, { assignee: draft.trim() || null })
+                    }
+                    className="h-8 px-3 text-[12px] rounded-sm bg-accent-primary text-white disabled:opacity-50 cursor-pointer"
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setAction(null)}
+                    className={smallButton}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+
+              {action?.alertId === a.id && action.type === 'resolve' && (
+                <div className="space-y-2">
+                  <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    rows={2}
+                    placeholder="Resolution note (what was done, root cause)"
+                    className="w-full px-3 py-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+                  />
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      disabled={busy || !draft.trim()}
+                      onClick={() =>
+                        update(a, {
+                          status: 'resolved',
+                          resolution_note: draft.trim(),
+                        })
+                      }
+                      className="h-8 px-3 text-[12px] rounded-sm bg-accent-success text-white disabled:opacity-50 cursor-pointer"
+                    >
+                      Mark resolved
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setAction(null)}
+                      className={smallButton}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ApiError, agentApi, type Agent, type AgentGroup } from '@/lib/api';
+import { mapWithConcurrency } from '@/lib/concurrency';
+
+type BulkMode = 'group' | 'rename' | 'delete';
+
+type BulkResult = {
+  agentId: string;
+  label: string;
+  ok: boolean;
+  error: string;
+};
+
+const BULK_CONCURRENCY = 5;
+const DELETE_CONFIRM_WORD = 'DELETE';
+const RENAME_PREVIEW_LIMIT = 8;
+
+function agentLabel(agent: Agent): string {
+  return agent.display_name || agent.name || agent.thing_name;
+}
+
+// 이름 패턴 치환: {name} {thing_name} {machine_id} {n} — {n:3}은 0으로 채운 3자리
+function applyRenamePattern(
+  pattern: string,
+  agent: Agent,
+  index: number,
+  start: number,
+): string {
+  return pattern
+    .replace(/\{n(?::(\d+))?\}/g, (_, width?: string) =>
+      String(start + index).padStart(width ? Number(width) : 0, '0'),
+    )
+    .replace(/\{name\}/g, agent.name || agent.thing_name)
+    .replace(/\{thing_name\}/g, agent.thing_name)
+    .replace(/\{machine_id\}/g, agent.machine_id || '')
+    .trim();
+}
+
+export function BulkAgentActions({
+  selected,
+  groups,
+  onClear,
+  onDone,
+}: {
+  selected: Agent[];
+  groups: AgentGroup[];
+  onClear: () => void;
+  onDone: (succeededIds: string[]) => void;
+}) {
+  const router = useRouter();
+  const [mode, setMode] = useState<BulkMode | null>(null);
+  const [running, setRunning] = useState(false);
+  const [results, setResults] = useState<BulkResult[] | null>(null);
+  const [resultTitle, setResultTitle] = useState('');
+
+  const [targetGroup, setTargetGroup] = useState('');
+  const [pattern, setPattern] = useState('{name}');
+  const [startNumber, setStartNumber] = useState(1);
+  const [confirmText, setConfirmText] = useState('');
+
+  const renamePreview = selected.map((agent, i) => ({
+    agent,
+    next: applyRenamePattern(pattern, agent, i, startNumber),
+  }));
+  const renameInvalid = renamePreview.some((r) => !r.next);
+
+  // 선택된 장비마다 작업을 실행하고 행 단위 성공/실패를 모은다
+  const runBulk = async (
+    title: string,
+    worker: (agent: Agent, index: number) => Promise<unknown>,
+  ) => {
+    setRunning(true);
+    setResultTitle(title);
+    setResults(
+      selected.map((agent) => ({
+        agentId: agent.id,
+        label: agentLabel(agent),
+        ok: false,
+        error: 'Pending',
+      })),
+    );
+    const outcome = await mapWithConcurrency(
+      selected,
+      BULK_CONCURRENCY,
+      async (agent, index): Promise<BulkResult> => {
+        try {
+          await worker(agent, index);
+          return {
+            agentId: agent.id,
+            label: agentLabel(agent),
+            ok: true,
+            error: '',
+          };
+        } catch (err) {
+          return {
+            agentId: agent.id,
+            label: agentLabel(agent),
+            ok: false,
+            error: err instanceof ApiError ? err.message : 'Request failed',
+          };
+        }
+      },
+    );
+    setResults(outcome);
+    setRunning(false);
+    setMode(null);
+    setConfirmText('');
+    onDone(outcome.filter((r) => r.ok).map((r) => r.agentId));
+  };
+
+  const handleMoveGroup = () => {
+    const group = groups.find((g) => g.id === targetGroup);
+    runBulk(`Move to ${group ? group.name : 'no group'}`, (agent) =>
+      agentApi.update(agent.id, { group_id: targetGroup || null }),
+    );
+  };
+
+  const handleRename = () => {
+    if (renameInvalid) return;
+    runBulk('Rename', (agent, index) =>
+      agentApi.update(agent.id, {
+        name: applyRenamePattern(pattern, agent, index, startNumber),
+      }),
+    );
+  };
+
+  const handleDelete = () => {
+    if (confirmText !== DELETE_CONFIRM_WORD) return;
+    runBulk('Delete', (agent) => agentApi.delete(agent.id));
+  };
+
+  const handleSendCommand = () => {
+    const ids = selected.map((a) => a.id).join(',');
+    router.push(`/dashboard/agents/commands?agents=${ids}`);
+  };
+
+  const failedIds = new Set(
+    (results ?? []).filter((r) => !r.ok).map((r) => r.agentId),
+  );
+
+  const toggleMode = (next: BulkMode) => {
+    setMode((prev) => (prev === next ? null : next));
+    setConfirmText('');
+  };
+
+  const buttonClass = (active: boolean) =>
+    `h-8 px-3 text-[12px] font-medium border rounded-sm transition-colors cursor-pointer disabled:opacity-50 ${
+      active
+        ? 'bg-accent-primary/10 border-accent-primary/30 text-accent-primary'
+        : 'border-border-primary text-text-secondary hover:bg-bg-tertiary'
+    }`;
+
+  if (selected.length === 0 && !results) return null;
+
+  return (
+    <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 px-4 py-3">
+          <span className="text-[13px] font-medium text-text-primary mr-2">
+            {selected.length} selected
+          </span>
+          <button
+            type="button"
+            disabled={running}
+            onClick={() => toggleMode('group')}
+            className={buttonClass(mode === 'group')}
+          >
+            Move to group
+          </button>
+          <button
+            type="button"
+            disabled={running}
+            onClick={() => toggleMode('rename')}
+            className={buttonClass(mode === 'rename')}
+          >
+            Rename
+          </button>
+          <button
+            type="button"
+            disabled={running}
+            onClick={handleSendCommand}
+            className={buttonClass(false)}
+          >
+            Send command
+          </button>
+          <button
+            type="button"
+            disabled={running}
+            onClick={() => toggleMode('delete')}
+            className={`h-8 px-3 text-[12px] font-medium border rounded-sm transition-colors cursor-pointer disabled:opacity-50 ${
+              mode === 'delete'
+                ? 'bg-accent-danger/10 border-accent-danger/40 text-accent-danger'
+                : 'border-accent-danger/30 text-accent-danger hover:bg-accent-danger/10'
+            }`}
+          >
+            Delete
+          </button>
+          <button
+            type="button"
+            disabled={running}
+            onClick={onClear}
+            className="h-8 px-3 text-[12px] text-text-tertiary hover:text-text-primary cursor-pointer"
+          >
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {mode === 'group' && (
+        <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-t border-border-primary">
+          <select
+            value={targetGroup}
+            onChange={(e) => setTargetGroup(e.target.value)}
+            className="h-9 px-3 text-[13px] bg-bg-primary border border-border-primary rounded-sm text-text-primary cursor-pointer min-w-[220px]"
+          >
+            <option value="">No group</option>
+            {groups.map((g) => (
+              <option key={g.id} value={g.id}>
+                {g.name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            disabled={running}
+            onClick={handleMoveGroup}
+            className="h-9 px-4 bg-accent-primary hover:bg-accent-primary-hover text-white text-[13px] font-medium rounded-sm cursor-pointer disabled:opacity-50"
+          >
+            Move {selected.length} agent{selected.length !== 1 ? 's' : ''}
+          </button>
+        </div>
+      )}
+
+      {mode === 'rename' && (
+        <div className="px-4 py-3 border-t border-border-primary space-y-3">
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <label className="text-[12px] text-text-secondary">Pattern</label>
+              <input
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                className="h-9 w-72 px-3 text-[13px] font-mono bg-bg-primary border border-border-primary rounded-sm"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-[12px] text-text-secondary">
+                Start number
+              </label>
+              <input
+                type="number"
+                value={startNumber}
+                onChange={(e) => setStartNumber(Number(e.target.value) || 0)}
+                className="h-9 w-24 px-3 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+              />
+            </div>
+            <button
+              type="button"
+              disabled={running || renameInvalid}
+              onClick={handleRename}
+              className="h-9 px-4 bg-accent-primary hover:bg-accent-primary-hover text-white text-[13px] font-medium rounded-sm cursor-pointer disabled:opacity-50"
+            >
+              Rename {selected.length}
+            </button>
+          </div>
+          <p className="text-[11px] text-text-tertiary">
+            Tokens: {'{name}'} {'{thing_name}'} {'{machine_id}'} {'{n}'} —{' '}
+            {'{n:3}'} pads the number to 3 digits.
+          </p>
+          <div className="rounded-sm border border-border-primary divide-y divide-border-primary text-[12px]">
+            {renamePreview
+              .slice(0, RENAME_PREVIEW_LIMIT)
+              .map(({ agent, next }) => (
+                <div
+                  key={agent.id}
+                  className="grid grid-cols-[1fr_auto_1fr] gap-2 px-3 py-1.5"
+                >
+                  <span className="text-text-tertiary truncate">
+                    {agentLabel(agent)}
+                  </span>
+                  <span className="text-text-tertiary">→</span>
+                  <span
+                    className={`truncate ${
+                      next ? 'text-text-primary' : 'text-accent-danger'
+                    }`}
+                  >
+                    {next || '(empty name)'}
+                  </span>
+                </div>
+              ))}
+            {renamePreview.length > RENAME_PREVIEW_LIMIT && (
+              <div className="px-3 py-1.5 text-text-tertiary">
+                and {renamePreview.length - RENAME_PREVIEW_LIMIT} more
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {mode === 'delete' && (
+        <div className="px-4 py-3 border-t border-border-primary space-y-2">
+          <p className="text-[13px] text-accent-danger">
+            Deleting {selected.length} agent
+            {selected.length !== 1 ? 's' : ''} also revokes their AWS IoT
+            certificates. They will have to be registered again.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={confirmText}
+              onChange={(e) => setConfirmText(e.target.value)}
+              placeholder={`Type ${DELETE_CONFIRM_WORD} to confirm`}
+              className="h-9 w-60 px-3 text-[13px] font-mono bg-bg-primary border border-accent-danger/30 rounded-sm"
+            />
+            <button
+              type="button"
+              disabled={running || confirmText !== DELETE_CONFIRM_WORD}
+              onClick={handleDelete}
+              className="h-9 px-4 bg-accent-danger text-white text-[13px] font-medium rounded-sm cursor-pointer disabled:opacity-50"
+            >
+              Delete {selected.length}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {results && (
+        <div className="px-4 py-3 border-t border-border-primary space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-[13px] text-text-primary">
+              <span className="font-medium">{resultTitle}</span>
+              {running ? (
+                <span className="text-text-tertiary"> · running...</span>
+              ) : (
+                <span className="text-text-tertiary">
+                  {' '}
+                  · {results.length - failedIds.size} succeeded,{' '}
+                  {failedIds.size} failed
+                </span>
+              )}
+            </div>
+            {!running && (
+              <button
+                type="button"
+                onClick={() => setResults(null)}
+                className="text-[12px] text-text-tertiary hover:text-text-primary cursor-pointer"
+              >
+                Dismiss
+              </button>
+            )}
+          </div>
+          <div className="max-h-60 overflow-y-auto rounded-sm border border-border-primary divide-y divide-border-primary">
+            {results.map((r) => (
+              <div
+                key={r.agentId}
+                className="flex items-center justify-between gap-2 px-3 py-1.5 text-[12px]"
+              >
+                <span className="text-text-primary truncate">{r.label}</span>
+                <span
+                  className={
+                    r.ok
+                      ? 'text-accent-success'
+                      : running
+                        ? 'text-text-tertiary'
+                        : 'text-accent-danger'
+                  }
+                >
+                  {r.ok ? 'OK' : r.error}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ApiError,
+  agentApi,
+  type AgentGroup,
+  type AgentGroupAlertChannel,
+  type AlertChannelDelivery,
+} from '@/lib/api';
+import { formatLatency, sampleAlertOccurrence } from '@/lib/webhooks';
+
+const PAGE_SIZE = 20;
+// 큐에 들어간 테스트는 최대 20초 동안 발송 이력에서 결과를 확인한다
+const TEST_POLL_INTERVAL_MS = 2000;
+const TEST_POLL_ATTEMPTS = 10;
+
+const STATUS_STYLE: Record<AlertChannelDelivery['status'], string> = {
+  pending: 'bg-accent-info/10 text-accent-info',
+  success: 'bg-accent-success/10 text-accent-success',
+  failed: 'bg-accent-danger/10 text-accent-danger',
+};
+
+// pending은 아직 발송 중이라 실패로 보지 않는다
+const TEST_BANNER: Record<
+  AlertChannelDelivery['status'],
+  { label: string; style: string }
+> = {
+  pending: {
+    label: 'Test queued',
+    style: 'bg-accent-info/10 border-accent-info/20 text-accent-info',
+  },
+  success: {
+    label: 'Test delivered',
+    style: 'bg-accent-success/10 border-accent-success/20 text-accent-success',
+  },
+  failed: {
+    label: 'Test failed',
+    style: 'bg-accent-danger/10 border-accent-danger/20 text-accent-danger',
+  },
+};
+
+// 채널별 테스트 발송 + 최근 발송 이력(HTTP 상태, 지연, 응답 일부, 재시도)
+export function ChannelDeliveryLog({
+  group,
+  channel,
+}: {
+  group: AgentGroup;
+  channel: AgentGroupAlertChannel;
+}) {
+  const [deliveries, setDeliveries] = useState<AlertChannelDelivery[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<AlertChannelDelivery | null>(
+    null,
+  );
+  const [expandedId, setExpandedId] = useState('');
+  const [error, setError] = useState('');
+  const pollAbort = useRef<AbortController | null>(null);
+
+  useEffect(() => () => pollAbort.current?.abort(), []);
+
+  const fetchDeliveries = useCallback(
+    async (offset = 0) => {
+      const res = await agentApi.listGroupAlertChannelDeliveries(
+        group.id,
+        channel.id,
+        { limit: PAGE_SIZE, offset },
+      );
+      setDeliveries((prev) =>
+        offset ? [...prev, ...res.deliveries] : res.deliveries,
+      );
+      setTotal(res.total);
+      return res;
+    },
+    [group.id, channel.id],
+  );
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setLoading(true);
+        setError('');
+        await fetchDeliveries();
+      } catch (err) {
+        if (err instanceof ApiError) setError(err.message);
+        else setError('Failed to load delivery log.');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [fetchDeliveries]);
+
+  const waitForDelivery = async (deliveryId: string, signal: AbortSignal) => {
+    for (let i = 0; i < TEST_POLL_ATTEMPTS; i++) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, TEST_POLL_INTERVAL_MS),
+      );
+      if (signal.aborted) return;
+      const res = await fetchDeliveries();
+      if (signal.aborted) return;
+      const delivery = res.deliveries.find((d) => d.id === deliveryId);
+      if (!delivery) continue;
+      setTestResult(delivery);
+      if (delivery.status !== 'pending') return;
+    }
+  };
+
+  const handleTest = async () => {
+    pollAbort.current?.abort();
+    const controller = new AbortController();
+    pollAbort.current = controller;
+    try {
+      setTesting(true);
+      setError('');
+      setTestResult(null);
+      const res = await agentApi.testGroupAlertChannel(
+        group.id,
+        channel.id,
+        sampleAlertOccurrence(group),
+      );
+      setTestResult(res.delivery);
+      await fetchDeliveries();
+      if (res.delivery.status === 'pending') {
+        await waitForDelivery(res.delivery.id, controller.signal);
+      }
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+      else setError('Failed to send test alert.');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const failures = deliveries.filter((d) => d.status === 'failed').length;
+
+  return (
+    <div className="mt-3 p-3 rounded-sm border border-border-primary bg-bg-primary space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-[12px] text-text-secondary">
+          {channel.enabled
+            ? 'Sends a sample CPU alert using the saved settings.'
+            : 'Channel is disabled — a test is still sent so you can verify it.'}
+        </div>
+        <button
+          type="button"
+          onClick={handleTest}
+          disabled={testing}
+          className="h-8 px-3 text-[12px] rounded-sm bg-accent-primary text-white hover:bg-accent-primary-hover disabled:opacity-50 cursor-pointer"
+        >
+          {testing
+            ? testResult?.status === 'pending'
+              ? 'Waiting...'
+              : 'Sending...'
+            : 'Send test'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-sm bg-accent-danger/10 border border-accent-danger/20 text-[13px] text-accent-danger">
+          {error}
+        </div>
+      )}
+
+      {testResult && (
+        <div
+          className={`p-3 rounded-sm border text-[12px] ${
+            TEST_BANNER[testResult.status].style
+          }`}
+        >
+          {TEST_BANNER[testResult.status].label}
+          {testResult.http_status !== null &&
+            ` · HTTP ${testResult.http_status}`}
+          {testResult.latency_ms !== null &&
+            ` · ${formatLatency(testResult.latency_ms)}`}
+          {testResult.error && ` · ${testResult.error}`}
+          {testResult.status === 'pending' &&
+            !testing &&
+            ' · still pending, check the delivery log below'}
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between text-[12px] text-text-tertiary mb-2">
+          <span>Delivery log</span>
+          {deliveries.length > 0 && (
+            <span>
+              {failures > 0
+                ? `${failures} of ${deliveries.length} recent failed`
+                : `Last ${deliveries.length} succeeded`}
+            </span>
+          )}
+        </div>
+        {loading ? (
+          <div className="text-[12px] text-text-tertiary">Loading...</div>
+        ) : deliveries.length === 0 ? (
+          <div className="text-[12px] text-text-tertiary">
+            Nothing sent through this channel yet.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-[12px]">
+              <thead>
+                <tr className="text-left text-text-tertiary border-b border-border-primary">
+                  <th className="py-1.5 pr-3 font-medium">Time</th>
+                  <th className="py-1.5 pr-3 font-medium">Result</th>
+                  <th className="py-1.5 pr-3 font-medium">HTTP</th>
+                  <th className="py-1.5 pr-3 font-medium">Latency</th>
+                  <th className="py-1.5 pr-3 font-medium">Attempts</th>
+                  <th className="py-1.5 font-medium">Response</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border-primary">
+                {deliveries.map((d) => {
+                  const isOpen = expandedId === d.id;
+                  const detail = d.error || d.response_snippet || '';
+                  return (
+                    <tr key={d.id} className="align-top">
+                      <td className="py-1.5 pr-3 text-text-secondary whitespace-nowrap">
+                        {new Date(d.created_at * 1000).toLocaleString('en-US')}
+                        {d.test && (
+                          <span className="ml-1 text-[10px] px-1 py-0.5 rounded-sm bg-bg-tertiary text-text-tertiary">
+                            test
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-1.5 pr-3">
+                        <span
+                          className={`text-[11px] px-1.5 py-0.5 rounded-sm ${STATUS_STYLE[d.status]}`}
+                        >
+                          {d.status}
+                        </span>
+                      </td>
+                      <td className="py-1.5 pr-3 font-mono text-text-secondary">
+                        {d.http_status ?? '-'}
+                      </td>
+                      <td className="py-1.5 pr-3 text-text-secondary whitespace-nowrap">
+                        {d.latency_ms !== null
+                          ? formatLatency(d.latency_ms)
+                          : '-'}
+                      </td>
+                      <td className="py-1.5 pr-3 text-text-secondary">
+                        {d.attempts}
+                      </td>
+                      <td className="py-1.5 text-text-tertiary">
+                        {detail ? (
+                          <button
+                            type="button"
+                            onClick={() => setExpandedId(isOpen ? '' : d.id)}
+                            className="text-left cursor-pointer hover:text-text-secondary"
+                          >
+                            {isOpen ? (
+                              <pre className="whitespace-pre-wrap break-all font-mono text-[11px]">
+                                {detail}
+                                {d.request_body &&
+                                  `\n\n--- request body ---\n${d.request_body}`}
+                              </pre>
+                            ) : (
+                              <span className="block max-w-[320px] truncate font-mono">
+                                {detail}
+                              </span>
+                            )}
+                          </button>
+                        ) : (
+                          '-'
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {deliveries.length < total && (
+          <button
+            type="button"
+            onClick={() =>
+              fetchDeliveries(deliveries.length).catch(() =>
+                setError('Failed to load delivery log.'),
+              )
+            }
+            className="mt-2 text-[12px] text-accent-primary hover:underline cursor-pointer"
+          >
+            Load older ({total - deliveries.length} more)
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { useMemo } from 'react';
+import type { AgentGroupRule, AlertChannelRouting } from '@/lib/api';
+import { timezoneOptions } from '@/lib/channels';
+import { METRIC_OPTIONS } from '@/lib/rules';
+
+// 채널 수신 조건 편집 — 최소 severity, metric/rule 필터, quiet hours
+export function ChannelRoutingEditor({
+  value,
+  onChange,
+  rules,
+}: {
+  value: AlertChannelRouting;
+  onChange: (value: AlertChannelRouting) => void;
+  rules: AgentGroupRule[];
+}) {
+  const timezones = useMemo(() => timezoneOptions(), []);
+  const quiet = value.quiet_hours;
+
+  const set = <K extends keyof AlertChannelRouting>(
+    key: K,
+    next: AlertChannelRouting[K],
+  ) => onChange({ ...value, [key]: next });
+
+  const toggle = (key: 'metrics' | 'rule_ids', item: string) =>
+    set(
+      key,
+      value[key].includes(item)
+        ? value[key].filter((v) => v !== item)
+        : [...value[key], item],
+    );
+
+  const chipClass = (active: boolean) =>
+    `h-7 px-2 text-[12px] rounded-sm border cursor-pointer ${
+      active
+        ? 'bg-accent-primary/10 text-accent-primary border-accent-primary/30'
+        : 'border-border-primary text-text-tertiary hover:bg-bg-tertiary'
+    }`;
+
+  return (
+    <div className="space-y-3 p-3 rounded-sm border border-border-primary">
+      <div className="text-[12px] font-medium text-text-secondary">Routing</div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-28 text-[12px] text-text-tertiary">
+          Minimum severity
+        </span>
+        <select
+          value={value.min_severity}
+          onChange={(e) =>
+            set(
+              'min_severity',
+              e.target.value as AlertChannelRouting['min_severity'],
+            )
+          }
+          className="h-8 px-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+        >
+          <option value="info">Info and above (all)</option>
+          <option value="warning">Warning and above</option>
+          <option value="critical">Critical only</option>
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-28 text-[12px] text-text-tertiary">Metrics</span>
+        {METRIC_OPTIONS.map(({ value: m }) => (
+          <button
+            key={m}
+            type="button"
+            onClick={() => toggle('metrics', m)}
+            className={chipClass(value.metrics.includes(m))}
+          >
+            {m}
+          </button>
+        ))}
+        {value.metrics.length === 0 && (
+          <span className="text-[11px] text-text-tertiary">All metrics</span>
+        )}
+      </div>
+
+      {rules.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-28 text-[12px] text-text-tertiary">Rules</span>
+          {rules.map((r) => (
+            <button
+              key={r.id}
+              type="button"
+              onClick={() => toggle('rule_ids', r.id)}
+              className={chipClass(value.rule_ids.includes(r.id))}
+            >
+              {r.name}
+            </button>
+          ))}
+          {value.rule_ids.length === 0 && (
+            <span className="text-[11px] text-text-tertiary">All rules</span>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 w-28 text-[12px] text-text-tertiary cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!quiet}
+            onChange={(e) =>
+              set(
+                'quiet_hours',
+                e.target.checked
+                  ? {
+                      start: '22:00',
+                      end: '07:00',
+                      timezone:
+                        Intl.DateTimeFormat().resolvedOptions().timeZone,
+                      allow_critical: true,
+                    }
+                  : null,
+              )
+            }
+          />
+          Quiet hours
+        </label>
+        {quiet && (
+          <>
+            <input
+              type="time"
+              value={quiet.start}
+              onChange={(e) =>
+                set('quiet_hours', { ...quiet, start: e.target.value })
+              }
+              className="h-8 px-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+            />
+            <span className="text-[12px] text-text-tertiary">to</span>
+            <input
+              type="time"
+              value={quiet.end}
+              onChange={(e) =>
+                set('quiet_hours', { ...quiet, end: e.target.value })
+              }
+              className="h-8 px-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+            />
+            <select
+              value={quiet.timezone}
+              onChange={(e) =>
+                set('quiet_hours', { ...quiet, timezone: e.target.value })
+              }
+              className="h-8 max-w-[220px] px-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+            >
+              {timezones.map((tz) => (
+                <option key={tz} value={tz}>
+                  {tz}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-[12px] text-text-secondary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={quiet.allow_critical}
+                onChange={(e) =>
+                  set('quiet_hours', {
+                    ...quiet,
+                    allow_critical: e.target.checked,
+                  })
+                }
+              />
+              Critical alerts still go through
+            </label>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
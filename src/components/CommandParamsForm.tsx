@@ -0,0 +1,114 @@
+'use client';
+
+import type { CommandDefinition, CommandFormValues } from '@/lib/commands';
+
+export function CommandParamsForm({
+  definition,
+  values,
+  errors,
+  onChange,
+}: {
+  definition: CommandDefinition | undefined;
+  values: CommandFormValues;
+  errors: Record<string, string>;
+  onChange: (values: CommandFormValues) => void;
+}) {
+  if (!definition) return null;
+
+  const set = (key: string, value: string | boolean) =>
+    onChange({ ...values, [key]: value });
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[12px] text-text-tertiary">{definition.description}</p>
+      {definition.params.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+          {definition.params.map((field) => {
+            const error = errors[field.key];
+            const inputClass = `h-9 w-full px-3 text-[13px] bg-bg-primary border rounded-sm text-text-primary focus:outline-none focus:border-border-focus transition-colors ${
+              error ? 'border-accent-danger' : 'border-border-primary'
+            }`;
+            return (
+              <div key={field.key} className="space-y-1">
+                {field.type === 'boolean' ? (
+                  <label className="flex items-center gap-2 h-9 text-[12px] text-text-secondary cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={values[field.key] === true}
+                      onChange={(e) => set(field.key, e.target.checked)}
+                    />
+                    {field.label}
+                  </label>
+                ) : (
+                  <>
+                    <label className="text-[12px] text-text-secondary">
+                      {field.label}
+                      {field.required && (
+                        <span className="text-accent-danger"> *</span>
+                      )}
+                    </label>
+                    {field.type === 'select' ? (
+                      <select
+                        value={String(values[field.key] ?? '')}
+                        onChange={(e) => set(field.key, e.target.value)}
+                        className={`${inputClass} cursor-pointer`}
+                      >
+                        {field.options.map((opt) => (
+                          <option key={opt} value={opt}>
+                            {opt}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type={field.type === 'number' ? 'number' : 'text'}
+                        min={field.type === 'number' ? field.min : undefined}
+                        max={field.type === 'number' ? field.max : undefined}
+                        value={String(values[field.key] ?? '')}
+                        onChange={(e) => set(field.key, e.target.value)}
+                        placeholder={
+                          field.type === 'string' ? field.placeholder : undefined
+                        }
+                        className={inputClass}
+                      />
+                    )}
+                  </>
+                )}
+                {error ? (
+                  <div className="text-[11px] text-accent-danger">{error}</div>
+                ) : (
+                  field.help && (
+                    <div className="text-[11px] text-text-tertiary">
+                      {field.help}
+                    </div>
+                  )
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function CommandPayloadPreview({
+  payload,
+}: {
+  payload: {
+    action: string;
+    params?: Record<string, unknown>;
+    timeout: number;
+  };
+}) {
+  return (
+    <div>
+      <div className="text-[11px] font-medium text-text-tertiary mb-1">
+        Payload
+      </div>
+      <pre className="bg-[#1e1e2e] text-[#a6adc8] rounded-sm p-3 text-[12px] font-mono overflow-x-auto">
+        {JSON.stringify(payload, null, 2)}
+      </pre>
+    </div>
+  );
+}
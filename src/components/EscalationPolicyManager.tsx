@@ -0,0 +1,426 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ApiError,
+  agentApi,
+  type AgentAlertOccurrence,
+  type AgentGroupAlertChannel,
+  type EscalationPolicy,
+  type EscalationStep,
+} from '@/lib/api';
+import { formatDuration } from '@/lib/alerts';
+import { getChannelType } from '@/lib/channels';
+import {
+  escalationProgress,
+  policyForAlert,
+  sortSteps,
+  validateEscalationSteps,
+} from '@/lib/escalations';
+
+type PolicyDraft = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  steps: EscalationStep[];
+};
+
+const NEW_DRAFT: PolicyDraft = {
+  id: '',
+  name: '',
+  enabled: true,
+  steps: [{ delay_minutes: 0, channel_ids: [] }],
+};
+
+// 그룹 에스컬레이션 정책 편집 + 열린 알림이 어느 단계까지 갔는지 타임라인
+export function EscalationPolicyManager({
+  groupId,
+  channels,
+}: {
+  groupId: string;
+  channels: AgentGroupAlertChannel[];
+}) {
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+  const [openAlerts, setOpenAlerts] = useState<AgentAlertOccurrence[]>([]);
+  const [draft, setDraft] = useState<PolicyDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchAll = useCallback(async () => {
+    const [policyRes, alertRes] = await Promise.all([
+      agentApi.listGroupEscalationPolicies(groupId),
+      agentApi.listGroupAlerts(groupId, { status: 'open', limit: 50 }),
+    ]);
+    setPolicies(policyRes.policies);
+    setOpenAlerts(alertRes.alerts);
+  }, [groupId]);
+
+  useEffect(() => {
+    setDraft(null);
+    fetchAll().catch(() => setError('Failed to load escalation policies.'));
+  }, [fetchAll]);
+
+  const channelLabel = (id: string) => {
+    const channel = channels.find((c) => c.id === id);
+    if (!channel) return 'Deleted channel';
+    const label = getChannelType(channel.type).label;
+    return channel.type === 'pagerduty'
+      ? label
+      : `${label} · ${channel.target}`;
+  };
+
+  const updateStep = (index: number, step: Partial<EscalationStep>) =>
+    setDraft((prev) =>
+      prev
+        ? {
+            ...prev,
+            steps: prev.steps.map((s, i) =>
+              i === index ? { ...s, ...step } : s,
+            ),
+          }
+        : prev,
+    );
+
+  const toggleStepChannel = (index: number, channelId: string) => {
+    const step = draft?.steps[index];
+    if (!step) return;
+    updateStep(index, {
+      channel_ids: step.channel_ids.includes(channelId)
+        ? step.channel_ids.filter((id) => id !== channelId)
+        : [...step.channel_ids, channelId],
+    });
+  };
+
+  const addStep = () =>
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const last = prev.steps[prev.steps.length - 1];
+      return {
+        ...prev,
+        steps: [
+          ...prev.steps,
+          { delay_minutes: (last?.delay_minutes ?? 0) + 10, channel_ids: [] },
+        ],
+      };
+    });
+
+  const removeStep = (index: number) =>
+    setDraft((prev) =>
+      prev
+        ? { ...prev, steps: prev.steps.filter((_, i) => i !== index) }
+        : prev,
+    );
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setError('Policy name is required.');
+      return;
+    }
+    const stepErrors = validateEscalationSteps(draft.steps);
+    if (stepErrors.length > 0) {
+      setError(stepErrors[0]);
+      return;
+    }
+    const data = {
+      name: draft.name.trim(),
+      enabled: draft.enabled,
+      steps: sortSteps(draft.steps),
+    };
+    try {
+      setSaving(true);
+      setError('');
+      if (draft.id) {
+        await agentApi.updateGroupEscalationPolicy(groupId, draft.id, data);
+      } else {
+        await agentApi.createGroupEscalationPolicy(groupId, data);
+      }
+      setDraft(null);
+      await fetchAll();
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+      else setError('Failed to save escalation policy.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (policy: EscalationPolicy) => {
+    if (!confirm(`Delete escalation policy "${policy.name}"?`)) return;
+    try {
+      setError('');
+      await agentApi.deleteGroupEscalationPolicy(groupId, policy.id);
+      await fetchAll();
+    } catch {
+      setError('Failed to delete escalation policy.');
+    }
+  };
+
+  const now = Math.floor(Date.now() / 1000);
+  const smallButton =
+    'text-[12px] px-2 py-1 rounded-sm border border-border-primary text-text-secondary hover:bg-bg-tertiary cursor-pointer';
+
+  return (
+    <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border-primary">
+        <span className="text-[14px] font-semibold text-text-primary">
+          Escalation policies
+        </span>
+        {!draft && (
+          <button
+            type="button"
+            onClick={() => setDraft(NEW_DRAFT)}
+            disabled={channels.length === 0}
+            className="h-8 px-3 text-[12px] rounded-sm bg-accent-primary text-white hover:bg-accent-primary-hover disabled:opacity-50 cursor-pointer"
+          >
+            New policy
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="m-4 p-3 rounded-sm bg-accent-danger/10 border border-accent-danger/20 text-[13px] text-accent-danger">
+          {error}
+        </div>
+      )}
+
+      {draft && (
+        <div className="p-4 space-y-3 border-b border-border-primary bg-bg-primary/50">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="e.g. Store → regional → on-call"
+              className="h-9 w-72 px-3 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+            />
+            <label className="flex items-center gap-2 text-[12px] text-text-secondary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) =>
+                  setDraft({ ...draft, enabled: e.target.checked })
+                }
+              />
+              Enabled
+            </label>
+          </div>
+
+          <ol className="space-y-2">
+            {draft.steps.map((step, index) => (
+              <li
+                key={index}
+                className="p-3 rounded-sm border border-border-primary space-y-2"
+              >
+                <div className="flex flex-wrap items-center gap-2 text-[12px] text-text-secondary">
+                  <span className="font-medium text-text-primary">
+                    Step {index + 1}
+                  </span>
+                  <span>after</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={step.delay_minutes}
+                    onChange={(e) =>
+                      updateStep(index, {
+                        delay_minutes: Number(e.target.value),
+                      })
+                    }
+                    className="h-8 w-20 px-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+                  />
+                  <span>minutes unacknowledged, notify:</span>
+                  {draft.steps.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => removeStep(index)}
+                      className="ml-auto text-[12px] text-accent-danger hover:underline cursor-pointer"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {channels.map((channel) => (
+                    <button
+                      key={channel.id}
+                      type="button"
+                      onClick={() => toggleStepChannel(index, channel.id)}
+                      className={`h-7 max-w-[280px] truncate px-2 text-[12px] rounded-sm border cursor-pointer ${
+                        step.channel_ids.includes(channel.id)
+                          ? 'bg-accent-primary/10 text-accent-primary border-accent-primary/30'
+                          : 'border-border-primary text-text-tertiary hover:bg-bg-tertiary'
+                      }`}
+                    >
+                      {channelLabel(channel.id)}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          <div className="flex items-center gap-2">
+            <button type="button" onClick={addStep} className={smallButton}>
+              Add step
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="h-8 px-3 text-[12px] rounded-sm bg-accent-primary text-white hover:bg-accent-primary-hover disabled:opacity-50 cursor-pointer"
+            >
+              {saving ? 'Saving...' : 'Save policy'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className={smallButton}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {policies.length === 0 ? (
+        <div className="p-4 text-[13px] text-text-tertiary">
+          {channels.length === 0
+            ? 'Add alert channels before creating an escalation policy.'
+            : 'No escalation policies. Every routed channel is notified immediately.'}
+        </div>
+      ) : (
+        <div className="divide-y divide-border-primary">
+          {policies.map((policy) => (
+            <div
+              key={policy.id}
+              className="px-4 py-3 flex flex-wrap items-start justify-between gap-3"
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-[13px] font-medium text-text-primary">
+                    {policy.name}
+                  </span>
+                  {!policy.enabled && (
+                    <span className="text-[11px] px-2 py-0.5 rounded-sm bg-bg-tertiary text-text-tertiary">
+                      Disabled
+                    </span>
+                  )}
+                </div>
+                {sortSteps(policy.steps).map((step, i) => (
+                  <div key={i} className="text-[12px] text-text-tertiary">
+                    {i + 1}.{' '}
+                    {step.delay_minutes === 0
+                      ? 'Immediately'
+                      : `After ${formatDuration(step.delay_minutes * 60)}`}
+                    {' → '}
+                    {step.channel_ids.map(channelLabel).join(', ')}
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() =>
+                    setDraft({
+                      id: policy.id,
+                      name: policy.name,
+                      enabled: !!policy.enabled,
+                      steps: sortSteps(policy.steps),
+                    })
+                  }
+                  className={smallButton}
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(policy)}
+                  className="text-[12px] px-2 py-1 rounded-sm border border-accent-danger/30 text-accent-danger hover:bg-accent-danger/10 cursor-pointer"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {policies.length > 0 && (
+        <div className="border-t border-border-primary">
+          <div className="px-4 py-3 text-[13px] font-medium text-text-primary">
+            Open alerts ({openAlerts.length})
+          </div>
+          {openAlerts.length === 0 ? (
+            <div className="px-4 pb-4 text-[13px] text-text-tertiary">
+              No open alerts are escalating.
+            </div>
+          ) : (
+            <div className="divide-y divide-border-primary">
+              {openAlerts.map((alert) => {
+                const policy = policyForAlert(policies, alert);
+                if (!policy) return null;
+                const steps = sortSteps(policy.steps);
+                const progress = escalationProgress(policy, alert, now);
+                return (
+                  <div
+                    key={alert.id}
+                    className="px-4 py-3 flex flex-wrap items-center justify-between gap-3"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-[13px] text-text-primary truncate">
+                        {alert.rule_name || alert.metric}
+                      </div>
+                      <div className="text-[12px] text-text-tertiary">
+                        {alert.agent_display_name ||
+                          alert.agent_thing_name ||
+                          alert.agent_id}
+                        {' · '}open for {formatDuration(now - alert.created_at)}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {steps.map((step, i) => (
+                        <div key={i} className="flex items-center gap-1">
+                          {i > 0 && (
+                            <span
+                              className={`w-6 h-px ${
+                                i <= progress.reached
+                                  ? 'bg-accent-danger'
+                                  : 'bg-border-primary'
+                              }`}
+                            />
+                          )}
+                          <span
+                            title={`Step ${i + 1}: ${step.channel_ids
+                              .map(channelLabel)
+                              .join(', ')}`}
+                            className={`flex items-center justify-center w-6 h-6 rounded-full text-[11px] font-medium ${
+                              i <= progress.reached
+                                ? 'bg-accent-danger text-white'
+                                : progress.next?.index === i
+                                  ? 'border border-accent-danger text-accent-danger'
+                                  : 'border border-border-primary text-text-tertiary'
+                            }`}
+                          >
+                            {i + 1}
+                          </span>
+                        </div>
+                      ))}
+                      <span className="ml-2 text-[12px] text-text-tertiary whitespace-nowrap">
+                        {progress.next
+                          ? progress.next.at > now
+                            ? `Step ${progress.next.index + 1} in ${formatDuration(progress.next.at - now)}`
+                            : `Step ${progress.next.index + 1} due`
+                          : policy.enabled
+                            ? 'All steps notified'
+                            : 'Policy disabled'}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
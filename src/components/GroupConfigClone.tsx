@@ -0,0 +1,491 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ApiError,
+  agentApi,
+  type AgentGroup,
+  type AgentGroupAlertChannel,
+  type AgentGroupRule,
+} from '@/lib/api';
+import {
+  getChannelType,
+  parseChannelHeaders,
+  parseChannelOptions,
+} from '@/lib/channels';
+import {
+  planChannelClone,
+  planRuleClone,
+  remapChannelRouting,
+  uniqueRuleName,
+  type RuleConflictAction,
+} from '@/lib/clone';
+import { describeCondition } from '@/lib/rules';
+
+type GroupConfig = {
+  rules: AgentGroupRule[];
+  channels: AgentGroupAlertChannel[];
+};
+
+type CloneOutcome = {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: string[];
+};
+
+const KIND_STYLES: Record<string, string> = {
+  new: 'bg-accent-success/10 text-accent-success',
+  identical: 'bg-bg-tertiary text-text-tertiary',
+  conflict: 'bg-accent-warning/10 text-accent-warning',
+  changed: 'bg-accent-warning/10 text-accent-warning',
+};
+
+const KIND_LABELS: Record<string, string> = {
+  new: 'New',
+  identical: 'Identical',
+  conflict: 'Same name',
+  changed: 'Exists',
+};
+
+async function loadGroupConfig(groupId: string): Promise<GroupConfig> {
+  const [rulesRes, channelsRes] = await Promise.all([
+    agentApi.listGroupRules(groupId),
+    agentApi.listGroupAlertChannels(groupId),
+  ]);
+  return { rules: rulesRes.rules, channels: channelsRes.channels };
+}
+
+function channelLabel(channel: AgentGroupAlertChannel): string {
+  const target =
+    channel.type === 'pagerduty'
+      ? `••••${channel.target.slice(-4)}`
+      : channel.target;
+  return `${getChannelType(channel.type).label} · ${target}`;
+}
+
+// 다른 그룹의 룰/알림 채널을 이 그룹으로 복사한다
+// 같은 이름 룰은 항목별로 건너뛰기/덮어쓰기/이름 바꿔 추가 중 선택
+export function GroupConfigClone({ groupId }: { groupId: string }) {
+  const [open, setOpen] = useState(false);
+  const [groups, setGroups] = useState<AgentGroup[]>([]);
+  const [sourceId, setSourceId] = useState('');
+  const [includeRules, setIncludeRules] = useState(true);
+  const [includeChannels, setIncludeChannels] = useState(true);
+  const [source, setSource] = useState<GroupConfig | null>(null);
+  const [target, setTarget] = useState<GroupConfig | null>(null);
+  const [conflictActions, setConflictActions] = useState<
+    Record<string, RuleConflictAction>
+  >({});
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState('');
+  const [outcome, setOutcome] = useState<CloneOutcome | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    agentApi
+      .listGroups()
+      .then((res) => setGroups(res.groups.filter((g) => g.id !== groupId)))
+      .catch(() => setError('Failed to load groups.'));
+  }, [open, groupId]);
+
+  useEffect(() => {
+    if (!sourceId) {
+      setSource(null);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      try {
+        setLoading(true);
+        setError('');
+        setOutcome(null);
+        const [sourceConfig, targetConfig] = await Promise.all([
+          loadGroupConfig(sourceId),
+          loadGroupConfig(groupId),
+        ]);
+        if (cancelled) return;
+        setSource(sourceConfig);
+        setTarget(targetConfig);
+        setConflictActions({});
+      } catch {
+        if (!cancelled) setError('Failed to load group configuration.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceId, groupId]);
+
+  const rulePlan = useMemo(
+    () => (source && target ? planRuleClone(source.rules, target.rules) : []),
+    [source, target],
+  );
+
+  const channelPlan = useMemo(
+    () =>
+      source && target
+        ? planChannelClone(source.channels, target.channels)
+        : [],
+    [source, target],
+  );
+
+  const actionFor = (ruleId: string) => conflictActions[ruleId] ?? 'skip';
+
+  // 복사 후 대상 그룹에 생길 룰 기준으로, 라우팅할 룰이 하나도 없어 복사하지 않을 채널
+  const unroutableChannelIds = useMemo(() => {
+    const previewMap: Record<string, string> = {};
+    for (const plan of rulePlan) {
+      if (plan.existing || includeRules) {
+        previewMap[plan.source.id] = plan.existing?.id ?? plan.source.id;
+      }
+    }
+    return new Set(
+      channelPlan
+        .filter((p) => remapChannelRouting(p.source, previewMap).unmatched)
+        .map((p) => p.source.id),
+    );
+  }, [rulePlan, channelPlan, includeRules]);
+
+  const pending =
+    (includeRules
+      ? rulePlan.filter(
+          (p) =>
+            p.kind === 'new' ||
+            (p.kind === 'conflict' && actionFor(p.source.id) !== 'skip'),
+        ).length
+      : 0) +
+    (includeChannels
+      ? channelPlan.filter(
+          (p) => p.kind === 'new' && !unroutableChannelIds.has(p.source.id),
+        ).length
+      : 0);
+
+  const applyClone = async () => {
+    if (!target || pending === 0) return;
+    if (!confirm(`Copy ${pending} item(s) into this group?`)) return;
+
+    const result: CloneOutcome = {
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      failed: [],
+    };
+    // 채널 routing의 rule_ids를 옮기기 위한 원본 룰 id → 대상 룰 id
+    // 룰을 복사하지 않아도 같은 이름 룰이 있으면 그 룰로 연결한다
+    const ruleIdMap: Record<string, string> = {};
+    for (const plan of rulePlan) {
+      if (plan.existing) ruleIdMap[plan.source.id] = plan.existing.id;
+    }
+    const takenNames = target.rules.map((r) => r.name);
+
+    try {
+      setApplying(true);
+      setError('');
+
+      for (const plan of includeRules ? rulePlan : []) {
+        const rule = plan.source;
+        const data = {
+          metric: rule.metric,
+          operator: rule.operator,
+          threshold: rule.threshold,
+          condition: rule.condition ?? null,
+          severity: rule.severity,
+          window_seconds: rule.window_seconds,
+          enabled: Boolean(rule.enabled),
+        };
+        const action = plan.kind === 'conflict' ? actionFor(rule.id) : null;
+        try {
+          if (
+            plan.existing &&
+            (plan.kind === 'identical' || action === 'skip')
+          ) {
+            result.skipped++;
+          } else if (plan.existing && action === 'overwrite') {
+            await agentApi.updateGroupRule(groupId, plan.existing.id, data);
+            result.updated++;
+          } else {
+            const name =
+              action === 'rename'
+                ? uniqueRuleName(rule.name, takenNames)
+                : rule.name;
+            const res = await agentApi.createGroupRule(groupId, {
+              ...data,
+              name,
+            });
+            takenNames.push(name);
+            ruleIdMap[rule.id] = res.id;
+            result.created++;
+          }
+        } catch (err) {
+          result.failed.push(
+            `Rule "${rule.name}": ${
+              err instanceof ApiError ? err.message : 'failed'
+            }`,
+          );
+        }
+      }
+
+      for (const plan of includeChannels ? channelPlan : []) {
+        const channel = plan.source;
+        if (plan.kind !== 'new') {
+          result.skipped++;
+          continue;
+        }
+        const { routing, unmatched } = remapChannelRouting(
+          channel,
+          ruleIdMap,
+        );
+        if (unmatched) {
+          result.failed.push(
+            `${channelLabel(channel)}: not copied, none of its routed rules exist in this group`,
+          );
+          continue;
+        }
+        try {
+          const options = parseChannelOptions(channel);
+          await agentApi.createGroupAlertChannel(groupId, {
+            type: channel.type,
+            target: channel.target,
+            enabled: Boolean(channel.enabled),
+            webhook_method: channel.webhook_method ?? undefined,
+            webhook_headers: parseChannelHeaders(channel),
+            webhook_body: channel.webhook_body ?? undefined,
+            options: Object.keys(options).length > 0 ? options : undefined,
+            routing,
+          });
+          result.created++;
+        } catch (err) {
+          result.failed.push(
+            `${channelLabel(channel)}: ${
+              err instanceof ApiError ? err.message : 'failed'
+            }`,
+          );
+        }
+      }
+
+      setOutcome(result);
+      setConflictActions({});
+      setTarget(await loadGroupConfig(groupId));
+    } catch {
+      setError('Failed to copy configuration.');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm overflow-hidden">
+      <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-border-primary">
+        <h3 className="text-[14px] font-semibold text-text-primary">
+          Clone configuration
+        </h3>
+        <button
+          type="button"
+          onClick={() => setOpen((v) => !v)}
+          className="h-8 px-3 text-[12px] border border-border-primary rounded-sm text-text-secondary hover:bg-bg-tertiary"
+        >
+          {open ? 'Close' : 'Copy from another group'}
+        </button>
+      </div>
+
+      {open && (
+        <div className="p-4 space-y-3">
+          {error && (
+            <div className="p-3 rounded-sm bg-accent-danger/10 border border-accent-danger/20 text-[13px] text-accent-danger">
+              {error}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-4">
+            <select
+              value={sourceId}
+              onChange={(e) => setSourceId(e.target.value)}
+              className="h-9 w-full md:w-[300px] px-3 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+            >
+              <option value="">Select source group...</option>
+              {groups.map((g) => (
+                <option key={g.id} value={g.id}>
+                  {g.name}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-[13px] text-text-secondary">
+              <input
+                type="checkbox"
+                checked={includeRules}
+                onChange={(e) => setIncludeRules(e.target.checked)}
+              />
+              Rules
+            </label>
+            <label className="flex items-center gap-2 text-[13px] text-text-secondary">
+              <input
+                type="checkbox"
+                checked={includeChannels}
+                onChange={(e) => setIncludeChannels(e.target.checked)}
+              />
+              Alert channels
+            </label>
+          </div>
+
+          {loading && (
+            <div className="text-[13px] text-text-tertiary">
+              Comparing configuration...
+            </div>
+          )}
+
+          {source && !loading && (
+            <>
+              {includeRules && (
+                <div className="rounded-sm border border-border-primary">
+                  <div className="px-3 py-2 border-b border-border-primary text-[12px] font-medium text-text-primary">
+                    Rules ({rulePlan.length})
+                  </div>
+                  {rulePlan.length === 0 ? (
+                    <div className="px-3 py-2 text-[12px] text-text-tertiary">
+                      The source group has no rules.
+                    </div>
+                  ) : (
+                    <div className="divide-y divide-border-primary">
+                      {rulePlan.map((plan) => (
+                        <div
+                          key={plan.source.id}
+                          className="px-3 py-2 flex flex-wrap items-start justify-between gap-2"
+                        >
+                          <div className="min-w-0 text-[12px]">
+                            <div className="flex items-center gap-2">
+                              <span
+                                className={`text-[10px] px-1.5 py-0.5 rounded-sm ${KIND_STYLES[plan.kind]}`}
+                              >
+                                {KIND_LABELS[plan.kind]}
+                              </span>
+                              <span className="text-text-primary font-medium truncate">
+                                {plan.source.name}
+                              </span>
+                            </div>
+                            <div className="text-text-tertiary mt-0.5">
+                              {plan.source.condition
+                                ? describeCondition(plan.source.condition)
+                                : `${plan.source.metric} ${plan.source.operator} ${plan.source.threshold}`}{' '}
+                              / {plan.source.window_seconds}s /{' '}
+                              {plan.source.severity}
+                            </div>
+                            {plan.changes.length > 0 && (
+                              <ul className="mt-1 text-text-secondary space-y-0.5">
+                                {plan.changes.map((change) => (
+                                  <li key={change}>{change}</li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                          {plan.kind === 'conflict' && (
+                            <select
+                              value={actionFor(plan.source.id)}
+                              onChange={(e) =>
+                                setConflictActions((prev) => ({
+                                  ...prev,
+                                  [plan.source.id]: e.target
+                                    .value as RuleConflictAction,
+                                }))
+                              }
+                              className="h-8 px-2 text-[12px] bg-bg-primary border border-border-primary rounded-sm"
+                            >
+                              <option value="skip">Keep existing</option>
+                              <option value="overwrite">Overwrite</option>
+                              <option value="rename">Add as copy</option>
+                            </select>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {includeChannels && (
+                <div className="rounded-sm border border-border-primary">
+                  <div className="px-3 py-2 border-b border-border-primary text-[12px] font-medium text-text-primary">
+                    Alert channels ({channelPlan.length})
+                  </div>
+                  {channelPlan.length === 0 ? (
+                    <div className="px-3 py-2 text-[12px] text-text-tertiary">
+                      The source group has no alert channels.
+                    </div>
+                  ) : (
+                    <div className="divide-y divide-border-primary">
+                      {channelPlan.map((plan) => (
+                        <div
+                          key={plan.source.id}
+                          className="px-3 py-2 flex items-center gap-2 text-[12px]"
+                        >
+                          <span
+                            className={`text-[10px] px-1.5 py-0.5 rounded-sm shrink-0 ${KIND_STYLES[plan.kind]}`}
+                          >
+                            {KIND_LABELS[plan.kind]}
+                          </span>
+                          <span className="text-text-primary break-all">
+                            {channelLabel(plan.source)}
+                          </span>
+                          {plan.kind === 'changed' && (
+                            <span className="text-text-tertiary shrink-0">
+                              settings differ, not copied
+                            </span>
+                          )}
+                          {plan.kind === 'new' &&
+                            unroutableChannelIds.has(plan.source.id) && (
+                              <span className="text-accent-warning shrink-0">
+                                routed rules missing here, not copied
+                              </span>
+                            )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={applyClone}
+                  disabled={applying || pending === 0}
+                  className="h-9 px-4 bg-accent-primary text-white text-[13px] font-medium rounded-sm hover:bg-accent-primary-hover disabled:opacity-50"
+                >
+                  {applying ? 'Copying...' : `Copy ${pending} item(s)`}
+                </button>
+                {pending === 0 && (
+                  <span className="text-[12px] text-text-tertiary">
+                    Nothing to copy with the current selection.
+                  </span>
+                )}
+              </div>
+            </>
+          )}
+
+          {outcome && (
+            <div
+              className={`p-3 rounded-sm border text-[13px] ${
+                outcome.failed.length > 0
+                  ? 'bg-accent-warning/10 border-accent-warning/20 text-accent-warning'
+                  : 'bg-accent-success/10 border-accent-success/20 text-accent-success'
+              }`}
+            >
+              Created {outcome.created}, updated {outcome.updated}, skipped{' '}
+              {outcome.skipped}.
+              {outcome.failed.length > 0 && (
+                <ul className="mt-1 text-[12px] space-y-0.5">
+                  {outcome.failed.map((f) => (
+                    <li key={f}>{f}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
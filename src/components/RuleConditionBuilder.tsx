@@ -0,0 +1,210 @@
+'use client';
+
+import type {
+  RuleCondition,
+  RuleConditionGroup,
+  RuleConditionLeaf,
+} from '@/lib/api';
+import {
+  conditionGroup,
+  leafCondition,
+  MAX_CONDITION_DEPTH,
+  METRIC_OPTIONS,
+  NUMERIC_METRICS,
+  RULE_OPERATORS,
+} from '@/lib/rules';
+
+const fieldClass =
+  'h-9 px-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm';
+
+// AND/OR 그룹을 중첩해 복합 조건을 만드는 편집기 (재귀)
+export function RuleConditionBuilder({
+  value,
+  onChange,
+  onRemove,
+  depth = 1,
+}: {
+  value: RuleConditionGroup;
+  onChange: (value: RuleConditionGroup) => void;
+  onRemove?: () => void;
+  depth?: number;
+}) {
+  const setChild = (index: number, child: RuleCondition) =>
+    onChange({
+      ...value,
+      children: value.children.map((c, i) => (i === index ? child : c)),
+    });
+
+  const removeChild = (index: number) =>
+    onChange({
+      ...value,
+      children: value.children.filter((_, i) => i !== index),
+    });
+
+  const logicButton = (logic: RuleConditionGroup['logic']) => (
+    <button
+      type="button"
+      onClick={() => onChange({ ...value, logic })}
+      className={`px-2 py-1 text-[11px] font-semibold cursor-pointer ${
+        value.logic === logic
+          ? 'bg-accent-primary text-white'
+          : 'text-text-secondary hover:bg-bg-tertiary'
+      }`}
+    >
+      {logic.toUpperCase()}
+    </button>
+  );
+
+  return (
+    <div
+      className={`space-y-2 ${
+        depth > 1
+          ? 'p-2 rounded-sm border border-dashed border-border-primary'
+          : ''
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        <div className="flex items-center bg-bg-primary border border-border-primary rounded-sm overflow-hidden">
+          {logicButton('and')}
+          {logicButton('or')}
+        </div>
+        <span className="text-[11px] text-text-tertiary">
+          {value.logic === 'and'
+            ? 'All of the following'
+            : 'Any of the following'}
+        </span>
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="ml-auto text-[12px] text-accent-danger hover:underline cursor-pointer"
+          >
+            Remove group
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2 pl-3 border-l-2 border-border-primary">
+        {value.children.map((child, index) =>
+          child.type === 'group' ? (
+            <RuleConditionBuilder
+              key={index}
+              value={child}
+              onChange={(next) => setChild(index, next)}
+              onRemove={() => removeChild(index)}
+              depth={depth + 1}
+            />
+          ) : (
+            <ConditionRow
+              key={index}
+              value={child}
+              onChange={(next) => setChild(index, next)}
+              onRemove={
+                value.children.length > 1 || depth > 1
+                  ? () => removeChild(index)
+                  : undefined
+              }
+            />
+          ),
+        )}
+        <div className="flex items-center gap-3 text-[12px]">
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                ...value,
+                children: [...value.children, leafCondition()],
+              })
+            }
+            className="text-accent-primary hover:underline cursor-pointer"
+          >
+            + Condition
+          </button>
+          {depth < MAX_CONDITION_DEPTH && (
+            <button
+              type="button"
+              onClick={() =>
+                onChange({
+                  ...value,
+                  children: [
+                    ...value.children,
+                    conditionGroup(value.logic === 'and' ? 'or' : 'and'),
+                  ],
+                })
+              }
+              className="text-accent-primary hover:underline cursor-pointer"
+            >
+              + Group
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ConditionRow({
+  value,
+  onChange,
+  onRemove,
+}: {
+  value: RuleConditionLeaf;
+  onChange: (value: RuleConditionLeaf) => void;
+  onRemove?: () => void;
+}) {
+  const numeric = NUMERIC_METRICS.includes(value.metric);
+  const metric = METRIC_OPTIONS.find((m) => m.value === value.metric);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={value.metric}
+        onChange={(e) => {
+          const next = leafCondition(e.target.value);
+          // 같은 종류(수치/상태)끼리 바꿀 때는 입력한 비교값을 유지
+          onChange(
+            NUMERIC_METRICS.includes(e.target.value) === numeric
+              ? { ...value, metric: e.target.value }
+              : next,
+          );
+        }}
+        className={fieldClass}
+      >
+        {METRIC_OPTIONS.map((opt) => (
+          <option key={opt.value} value={opt.value}>
+            {opt.label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={value.operator}
+        onChange={(e) => onChange({ ...value, operator: e.target.value })}
+        className={fieldClass}
+      >
+        {RULE_OPERATORS.filter(
+          (op) => numeric || op === '==' || op === '!=',
+        ).map((op) => (
+          <option key={op} value={op}>
+            {op}
+          </option>
+        ))}
+      </select>
+      <input
+        value={value.threshold}
+        onChange={(e) => onChange({ ...value, threshold: e.target.value })}
+        placeholder={metric?.thresholdHint || 'e.g. 90'}
+        className={`${fieldClass} w-40`}
+      />
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          aria-label="Remove condition"
+          className="h-9 px-2 text-[13px] text-text-tertiary hover:text-accent-danger cursor-pointer"
+        >
+          ×
+        </button>
+      )}
+    </div>
+  );
+}
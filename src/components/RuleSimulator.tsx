@@ -0,0 +1,277 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  ApiError,
+  agentApi,
+  listAllAgents,
+  listEventsSince,
+  type AgentGroupRule,
+  type AgentRuleOverride,
+} from '@/lib/api';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import {
+  applyRuleOverride,
+  conditionLeaves,
+  NUMERIC_METRICS,
+} from '@/lib/rules';
+import {
+  ruleCondition,
+  simulateRule,
+  type RuleSpec,
+  type SimulationResult,
+} from '@/lib/simulation';
+
+const RANGE_OPTIONS = [
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '24 hours', seconds: 24 * 60 * 60 },
+  { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+];
+
+const FETCH_CONCURRENCY = 4;
+const FIRING_LIST_LIMIT = 50;
+
+// 폼에 입력 중인 룰을 그룹의 과거 이벤트로 재생해 발생했을 알림을 보여준다
+// 저장된 룰을 넘기면 장비별 예외(override)를 적용해 재생한다
+export function RuleSimulator({
+  groupId,
+  rule,
+  validationError,
+}: {
+  groupId: string;
+  rule: RuleSpec | AgentGroupRule;
+  validationError?: string;
+}) {
+  const [rangeSeconds, setRangeSeconds] = useState(RANGE_OPTIONS[1].seconds);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [agentNames, setAgentNames] = useState<Record<string, string>>({});
+  const [agentCount, setAgentCount] = useState(0);
+  // 폐기됐거나 예외로 룰을 끈 장비는 실제로 평가되지 않으므로 제외한다
+  const [skipped, setSkipped] = useState({ revoked: 0, disabled: 0 });
+  // 페이지 한도에 걸려 범위 앞부분이 빠진 장비 수
+  const [truncatedCount, setTruncatedCount] = useState(0);
+
+  const runSimulation = async () => {
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    const metrics = conditionLeaves(ruleCondition(rule)).map((l) => l.metric);
+    const types = [
+      ...(metrics.some((m) => NUMERIC_METRICS.includes(m))
+        ? ['telemetry']
+        : []),
+      ...(metrics.some((m) => !NUMERIC_METRICS.includes(m)) ? ['scan'] : []),
+    ];
+
+    try {
+      setRunning(true);
+      setError('');
+      setResult(null);
+      const savedRule = 'id' in rule ? rule : null;
+      const [groupAgents, overrideList] = await Promise.all([
+        listAllAgents({ group_id: groupId }),
+        savedRule
+          ? agentApi
+              .listGroupRuleOverrides(groupId)
+              .then((res) => res.overrides)
+          : ([] as AgentRuleOverride[]),
+      ]);
+      const overrides = new Map(
+        overrideList
+          .filter((o) => o.rule_id === savedRule?.id)
+          .map((o) => [o.agent_id, o]),
+      );
+      const active = groupAgents.filter((a) => a.status !== 'revoked');
+      const agents = active.filter((a) => overrides.get(a.id)?.enabled !== 0);
+      const since = Math.floor(Date.now() / 1000) - rangeSeconds;
+      const series = await mapWithConcurrency(
+        agents,
+        FETCH_CONCURRENCY,
+        async (agent) => {
+          const lists = await Promise.all(
+            types.map((type) => listEventsSince(agent.id, type, since)),
+          );
+          return {
+            agent_id: agent.id,
+            events: lists.flatMap((l) => l.events),
+            truncated: lists.some((l) => l.truncated),
+            rule: savedRule
+              ? applyRuleOverride(savedRule, overrides.get(agent.id))
+              : undefined,
+          };
+        },
+      );
+      setAgentNames(
+        Object.fromEntries(
+          agents.map((a) => [a.id, a.display_name || a.name || a.thing_name]),
+        ),
+      );
+      setAgentCount(agents.length);
+      setSkipped({
+        revoked: groupAgents.length - active.length,
+        disabled: active.length - agents.length,
+      });
+      setTruncatedCount(series.filter((s) => s.truncated).length);
+      setResult(simulateRule(rule, series));
+    } catch (err) {
+      setError(
+        err instanceof ApiError ? err.message : 'Failed to run simulation.',
+      );
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const byAgent = result
+    ? Object.entries(result.firingsByAgent).sort((a, b) => b[1] - a[1])
+    : [];
+
+  return (
+    <div className="rounded-sm border border-border-primary bg-bg-primary p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[12px] font-medium text-text-primary">
+          Simulate
+        </span>
+        <span className="text-[12px] text-text-tertiary">
+          Replay recent telemetry and scans from this group
+        </span>
+        <select
+          value={rangeSeconds}
+          onChange={(e) => setRangeSeconds(Number(e.target.value))}
+          className="ml-auto h-8 px-2 text-[12px] bg-bg-secondary border border-border-primary rounded-sm"
+        >
+          {RANGE_OPTIONS.map((opt) => (
+            <option key={opt.seconds} value={opt.seconds}>
+              Last {opt.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={runSimulation}
+          disabled={running}
+          className="h-8 px-3 text-[12px] font-medium rounded-sm border border-border-primary text-text-primary hover:bg-bg-tertiary disabled:opacity-50 cursor-pointer"
+        >
+          {running ? 'Simulating...' : 'Run simulation'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-2 rounded-sm bg-accent-danger/10 border border-accent-danger/20 text-[12px] text-accent-danger">
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-2 text-[12px]">
+          <div className="text-text-secondary">
+            <span
+              className={`font-semibold ${
+                result.firings.length > 0
+                  ? 'text-accent-warning'
+                  : 'text-accent-success'
+              }`}
+            >
+              {result.firings.length} alert
+              {result.firings.length === 1 ? '' : 's'}
+            </span>{' '}
+            would have fired on {byAgent.length} of {agentCount} agent
+            {agentCount === 1 ? '' : 's'} ({result.samples} samples
+            {result.from !== null && result.to !== null
+              ? `, ${formatTime(result.from)} – ${formatTime(result.to)}`
+              : ''}
+            ).
+          </div>
+          {(skipped.revoked > 0 || skipped.disabled > 0) && (
+            <div className="text-text-tertiary">
+              Skipped{' '}
+              {[
+                skipped.revoked > 0 && `${skipped.revoked} revoked`,
+                skipped.disabled > 0 &&
+                  `${skipped.disabled} with this rule disabled by override`,
+              ]
+                .filter(Boolean)
+                .join(' and ')}
+              .
+            </div>
+          )}
+          {truncatedCount > 0 && (
+            <div className="text-accent-warning">
+              History truncated for {truncatedCount} agent
+              {truncatedCount === 1 ? '' : 's'}: only the most recent events
+              were replayed. Try a shorter range.
+            </div>
+          )}
+          {result.samples === 0 && (
+            <div className="text-text-tertiary">
+              No matching events in this range. Try a longer range.
+            </div>
+          )}
+
+          {byAgent.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {byAgent.map(([agentId, count]) => (
+                <span
+                  key={agentId}
+                  className="px-2 py-0.5 rounded-sm bg-bg-tertiary text-text-secondary"
+                >
+                  {agentNames[agentId] || agentId}{' '}
+                  <span className="text-text-tertiary">×{count}</span>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {result.firings.length > 0 && (
+            <div className="max-h-60 overflow-y-auto border border-border-primary rounded-sm divide-y divide-border-primary">
+              {result.firings
+                .slice(-FIRING_LIST_LIMIT)
+                .reverse()
+                .map((firing) => (
+                  <div
+                    key={`${firing.agent_id}-${firing.fired_at}`}
+                    className="px-2 py-1.5 flex flex-wrap items-center gap-x-3 gap-y-0.5"
+                  >
+                    <span className="text-text-primary">
+                      {formatTime(firing.fired_at)}
+                    </span>
+                    <span className="text-text-secondary">
+                      {agentNames[firing.agent_id] || firing.agent_id}
+                    </span>
+                    <span className="text-text-tertiary">
+                      {Object.entries(firing.values)
+                        .map(([metric, value]) => `${metric}=${value}`)
+                        .join(', ')}
+                    </span>
+                    {firing.fired_at > firing.breach_started_at && (
+                      <span className="text-text-tertiary">
+                        breached {firing.fired_at - firing.breach_started_at}s
+                      </span>
+                    )}
+                  </div>
+                ))}
+            </div>
+          )}
+          {result.firings.length > FIRING_LIST_LIMIT && (
+            <div className="text-text-tertiary">
+              Showing the latest {FIRING_LIST_LIMIT} of{' '}
+              {result.firings.length}.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
@@ -0,0 +1,524 @@
+'use client';
+
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type FormEvent,
+} from 'react';
+import {
+  ApiError,
+  agentApi,
+  DEFAULT_COMMAND_TIMEOUT_SECONDS,
+  type AgentCommand,
+  type CommandSchedule,
+} from '@/lib/api';
+import {
+  buildCommandParams,
+  COMMAND_CATALOG,
+  defaultCommandValues,
+  getCommandDefinition,
+  type CommandFormValues,
+} from '@/lib/commands';
+import { timezoneOptions } from '@/lib/channels';
+import {
+  computeNextRun,
+  describeSchedule,
+  localTimeZone,
+  parseCron,
+  WEEKDAY_LABELS,
+  type ScheduleTiming,
+} from '@/lib/schedules';
+import { CommandParamsForm } from '@/components/CommandParamsForm';
+
+type ScheduleFormState = {
+  name: string;
+  action: string;
+  values: CommandFormValues;
+  timeout: number;
+  scheduleType: 'interval' | 'cron';
+  intervalMinutes: number;
+  cron: string;
+  restrictHours: boolean;
+  activeDays: number[];
+  activeStart: string;
+  activeEnd: string;
+  // 비어 있으면 브라우저 타임존
+  timezone: string;
+};
+
+const INITIAL_FORM: ScheduleFormState = {
+  name: '',
+  action: 'scan_usb',
+  values: defaultCommandValues(getCommandDefinition('scan_usb')),
+  timeout:
+    getCommandDefinition('scan_usb')?.defaultTimeout ??
+    DEFAULT_COMMAND_TIMEOUT_SECONDS,
+  scheduleType: 'interval',
+  intervalMinutes: 15,
+  cron: '0 * * * *',
+  restrictHours: false,
+  activeDays: [1, 2, 3, 4, 5, 6],
+  activeStart: '09:00',
+  activeEnd: '22:00',
+  timezone: '',
+};
+
+// 단일 장비 또는 그룹 단위로 예약 명령을 관리한다
+// 장비 화면에서는 commands를 넘겨 마지막 실행 결과를 명령 이력과 연결
+export function ScheduleManager({
+  agentId,
+  groupId,
+  commands,
+}: {
+  agentId?: string;
+  groupId?: string;
+  commands?: AgentCommand[];
+}) {
+  const [schedules, setSchedules] = useState<CommandSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState<ScheduleFormState>(INITIAL_FORM);
+  const timezones = useMemo(() => timezoneOptions(), []);
+  const timezone = form.timezone || localTimeZone();
+
+  const fetchSchedules = useCallback(async () => {
+    const res = await agentApi.listSchedules({
+      agent_id: agentId,
+      group_id: groupId,
+    });
+    setSchedules(res.schedules);
+  }, [agentId, groupId]);
+
+  useEffect(() => {
+    fetchSchedules()
+      .catch(() => setError('Failed to load schedules.'))
+      .finally(() => setLoading(false));
+  }, [fetchSchedules]);
+
+  const definition = getCommandDefinition(form.action);
+  const commandParams = useMemo(
+    () => buildCommandParams(definition, form.values),
+    [definition, form.values],
+  );
+
+  const timing: ScheduleTiming = {
+    schedule_type: form.scheduleType,
+    interval_minutes: form.intervalMinutes,
+    cron: form.cron,
+    active_days: form.restrictHours ? form.activeDays : [],
+    active_start: form.restrictHours ? form.activeStart : null,
+    active_end: form.restrictHours ? form.activeEnd : null,
+    timezone,
+    last_run_at: null,
+  };
+
+  const cronError = useMemo(() => {
+    if (form.scheduleType !== 'cron') return '';
+    try {
+      parseCron(form.cron);
+      return '';
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Invalid cron expression.';
+    }
+  }, [form.scheduleType, form.cron]);
+
+  const previewNextRun = cronError
+    ? null
+    : computeNextRun(timing, Math.floor(Date.now() / 1000));
+
+  const setField = <K extends keyof ScheduleFormState>(
+    key: K,
+    value: ScheduleFormState[K],
+  ) => setForm((prev) => ({ ...prev, [key]: value }));
+
+  const handleActionChange = (action: string) => {
+    const next = getCommandDefinition(action);
+    setForm((prev) => ({
+      ...prev,
+      action,
+      values: defaultCommandValues(next),
+      timeout: next?.defaultTimeout ?? DEFAULT_COMMAND_TIMEOUT_SECONDS,
+    }));
+  };
+
+  const toggleDay = (day: number) =>
+    setForm((prev) => ({
+      ...prev,
+      activeDays: prev.activeDays.includes(day)
+        ? prev.activeDays.filter((d) => d !== day)
+        : [...prev.activeDays, day],
+    }));
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (Object.keys(commandParams.errors).length > 0) {
+      setError('Fix the command parameters first.');
+      return;
+    }
+    if (form.scheduleType === 'interval' && !(form.intervalMinutes >= 1)) {
+      setError('Interval must be at least 1 minute.');
+      return;
+    }
+    if (cronError) {
+      setError(cronError);
+      return;
+    }
+    if (form.restrictHours && form.activeDays.length === 0) {
+      setError('Select at least one day.');
+      return;
+    }
+    if (previewNextRun === null) {
+      setError('This schedule never runs. Check the cron and hours.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      await agentApi.createSchedule({
+        agent_id: agentId,
+        group_id: groupId,
+        name:
+          form.name.trim() || `${form.action} (${describeSchedule(timing)})`,
+        action: form.action,
+        params: commandParams.params,
+        timeout: form.timeout,
+        schedule_type: form.scheduleType,
+        interval_minutes:
+          form.scheduleType === 'interval' ? form.intervalMinutes : undefined,
+        cron: form.scheduleType === 'cron' ? form.cron.trim() : undefined,
+        active_days: timing.active_days,
+        active_start: timing.active_start ?? undefined,
+        active_end: timing.active_end ?? undefined,
+        timezone,
+        enabled: true,
+      });
+      setForm(INITIAL_FORM);
+      setShowForm(false);
+      await fetchSchedules();
+    } catch (err) {
+      if (err instanceof ApiError) setError(err.message);
+      else setError('Failed to create schedule.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleEnabled = async (schedule: CommandSchedule) => {
+    try {
+      setError('');
+      await agentApi.updateSchedule(schedule.id, {
+        enabled: schedule.enabled === 0,
+      });
+      await fetchSchedules();
+    } catch {
+      setError('Failed to update schedule.');
+    }
+  };
+
+  const deleteSchedule = async (schedule: CommandSchedule) => {
+    if (!confirm(`Delete schedule "${schedule.name}"?`)) return;
+    try {
+      setError('');
+      await agentApi.deleteSchedule(schedule.id);
+      await fetchSchedules();
+    } catch {
+      setError('Failed to delete schedule.');
+    }
+  };
+
+  // 마지막 실행 이후 같은 action으로 생성된 가장 이른 명령 = 그 실행의 결과
+  const lastRunCommand = (schedule: CommandSchedule) => {
+    if (!commands || !schedule.last_run_at) return null;
+    const candidates = commands.filter(
+      (c) =>
+        c.action === schedule.action && c.created_at >= schedule.last_run_at!,
+    );
+    return candidates.length > 0 ? candidates[candidates.length - 1] : null;
+  };
+
+  return (
+    <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm overflow-hidden">
+      <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-border-primary">
+        <h3 className="text-[14px] font-semibold text-text-primary">
+          Scheduled Commands
+        </h3>
+        <button
+          type="button"
+          onClick={() => setShowForm((v) => !v)}
+          className="h-8 px-3 text-[12px] border border-border-primary rounded-sm text-text-secondary hover:bg-bg-tertiary"
+        >
+          {showForm ? 'Cancel' : 'New schedule'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="m-4 p-3 rounded-sm bg-accent-danger/10 border border-accent-danger/20 text-[13px] text-accent-danger">
+          {error}
+        </div>
+      )}
+
+      {showForm && (
+        <form
+          onSubmit={handleCreate}
+          className="p-4 space-y-3 border-b border-border-primary bg-bg-primary/50"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <label className="text-[12px] text-text-secondary">Name</label>
+              <input
+                value={form.name}
+                onChange={(e) => setField('name', e.target.value)}
+                placeholder="e.g. USB check (store hours)"
+                className="h-9 w-full px-3 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-[12px] text-text-secondary">Command</label>
+              <select
+                value={form.action}
+                onChange={(e) => handleActionChange(e.target.value)}
+                className="h-9 w-full px-3 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+              >
+                {COMMAND_CATALOG.map((c) => (
+                  <option key={c.action} value={c.action}>
+                    {c.action}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-[12px] text-text-secondary">
+                Timeout (seconds)
+              </label>
+              <input
+                type="number"
+                min={1}
+                value={form.timeout}
+                onChange={(e) => setField('timeout', Number(e.target.value))}
+                className="h-9 w-full px-3 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+              />
+            </div>
+          </div>
+
+          <CommandParamsForm
+            definition={definition}
+            values={form.values}
+            errors={commandParams.errors}
+            onChange={(values) => setField('values', values)}
+          />
+
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <label className="text-[12px] text-text-secondary">Repeat</label>
+              <select
+                value={form.scheduleType}
+                onChange={(e) =>
+                  setField(
+                    'scheduleType',
+                    e.target.value as 'interval' | 'cron',
+                  )
+                }
+                className="h-9 px-3 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+              >
+                <option value="interval">Every N minutes</option>
+                <option value="cron">Cron expression</option>
+              </select>
+            </div>
+            {form.scheduleType === 'interval' ? (
+              <div className="space-y-1">
+                <label className="text-[12px] text-text-secondary">
+                  Interval (minutes)
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.intervalMinutes}
+                  onChange={(e) =>
+                    setField('intervalMinutes', Number(e.target.value))
+                  }
+                  className="h-9 w-28 px-3 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+                />
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <label className="text-[12px] text-text-secondary">
+                  Cron (min hour day month weekday)
+                </label>
+                <input
+                  value={form.cron}
+                  onChange={(e) => setField('cron', e.target.value)}
+                  className={`h-9 w-56 px-3 text-[13px] font-mono bg-bg-primary border rounded-sm ${
+                    cronError ? 'border-accent-danger' : 'border-border-primary'
+                  }`}
+                />
+              </div>
+            )}
+            <label className="flex items-center gap-2 h-9 text-[12px] text-text-secondary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={form.restrictHours}
+                onChange={(e) => setField('restrictHours', e.target.checked)}
+              />
+              Only during store hours
+            </label>
+            {(form.scheduleType === 'cron' || form.restrictHours) && (
+              <div className="space-y-1">
+                <label className="text-[12px] text-text-secondary">
+                  Time zone
+                </label>
+                <select
+                  value={timezone}
+                  onChange={(e) => setField('timezone', e.target.value)}
+                  className="h-9 max-w-[220px] px-3 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+                >
+                  {timezones.map((tz) => (
+                    <option key={tz} value={tz}>
+                      {tz}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+          {cronError && (
+            <div className="text-[11px] text-accent-danger">{cronError}</div>
+          )}
+
+          {form.restrictHours && (
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="flex items-center gap-1">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    className={`h-8 w-10 text-[12px] rounded-sm border ${
+                      form.activeDays.includes(day)
+                        ? 'bg-accent-primary/10 text-accent-primary border-accent-primary/30'
+                        : 'border-border-primary text-text-tertiary hover:bg-bg-tertiary'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <input
+                type="time"
+                value={form.activeStart}
+                onChange={(e) => setField('activeStart', e.target.value)}
+                className="h-8 px-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+              />
+              <span className="text-[12px] text-text-tertiary">to</span>
+              <input
+                type="time"
+                value={form.activeEnd}
+                onChange={(e) => setField('activeEnd', e.target.value)}
+                className="h-8 px-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+              />
+            </div>
+          )}
+
+          <div className="rounded-sm border border-border-primary bg-bg-primary px-3 py-2 text-[12px] text-text-secondary">
+            <span className="text-text-tertiary mr-2">Preview</span>
+            {form.action} · {describeSchedule(timing)} · next run{' '}
+            {previewNextRun ? formatDateTime(previewNextRun) : 'never'}
+          </div>
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="h-9 px-4 bg-accent-primary text-white text-[13px] font-medium rounded-sm hover:bg-accent-primary-hover disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Create schedule'}
+          </button>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="p-4 text-[13px] text-text-tertiary">
+          Loading schedules...
+        </div>
+      ) : schedules.length === 0 ? (
+        <div className="p-4 text-[13px] text-text-tertiary">
+          No scheduled commands.
+        </div>
+      ) : (
+        <div className="divide-y divide-border-primary">
+          {schedules.map((schedule) => {
+            const lastCommand = lastRunCommand(schedule);
+            return (
+              <div
+                key={schedule.id}
+                className="flex flex-wrap items-center justify-between gap-2 px-4 py-3"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <code className="text-[12px] font-mono text-text-primary">
+                      {schedule.action}
+                    </code>
+                    <span className="text-[13px] font-medium text-text-primary truncate">
+                      {schedule.name}
+                    </span>
+                  </div>
+                  <div className="text-[12px] text-text-tertiary mt-1">
+                    {describeSchedule(schedule)}
+                  </div>
+                  <div className="text-[11px] text-text-tertiary mt-1 space-x-3">
+                    <span>
+                      Last run:{' '}
+                      {schedule.last_run_at
+                        ? formatDateTime(schedule.last_run_at)
+                        : 'never'}
+                      {lastCommand && ` (${lastCommand.status})`}
+                    </span>
+                    <span>
+                      Next run:{' '}
+                      {schedule.enabled && schedule.next_run_at
+                        ? formatDateTime(schedule.next_run_at)
+                        : '-'}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => toggleEnabled(schedule)}
+                    className={`text-[12px] px-2 py-1 rounded-sm border ${
+                      schedule.enabled
+                        ? 'border-accent-warning/40 text-accent-warning hover:bg-accent-warning/10'
+                        : 'border-accent-success/40 text-accent-success hover:bg-accent-success/10'
+                    }`}
+                  >
+                    {schedule.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteSchedule(schedule)}
+                    className="text-[12px] px-2 py-1 rounded-sm border border-accent-danger/30 text-accent-danger hover:bg-accent-danger/10"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatDateTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
@@ -0,0 +1,295 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { Agent } from '@/lib/api';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { fetchLatestAgentVersion, normalizeVersion } from '@/lib/releases';
+import {
+  buildUpgradeParams,
+  needsUpgrade,
+  planUpgradeWaves,
+  upgradeAgent,
+  type UpgradeProgress,
+  type UpgradeStage,
+} from '@/lib/upgrades';
+
+type RolloutStatus = 'idle' | 'running' | 'halted' | 'done' | 'cancelled';
+
+const WAVE_CONCURRENCY = 5;
+
+const STAGE_STYLE: Record<UpgradeStage, string> = {
+  queued: 'bg-bg-tertiary text-text-tertiary',
+  sending: 'bg-accent-info/10 text-accent-info',
+  installing: 'bg-accent-info/10 text-accent-info',
+  verifying: 'bg-accent-info/10 text-accent-info',
+  upgraded: 'bg-accent-success/10 text-accent-success',
+  unverified: 'bg-accent-warning/10 text-accent-warning',
+  failed: 'bg-accent-danger/10 text-accent-danger',
+  skipped: 'bg-bg-tertiary text-text-tertiary',
+  cancelled: 'bg-bg-tertiary text-text-tertiary',
+};
+
+function agentLabel(agent: Agent): string {
+  return agent.display_name || agent.name || agent.thing_name;
+}
+
+// 장비 상세(1대)와 그룹(여러 대) 모두에서 쓰는 업그레이드 패널
+// 여러 대일 때는 canary → wave 순서로 진행하고, 실패가 허용치를 넘으면 멈춘다
+export function UpgradeRollout({
+  agents,
+  onFinished,
+}: {
+  agents: Agent[];
+  onFinished?: () => void;
+}) {
+  const [targetVersion, setTargetVersion] = useState('');
+  const [releaseError, setReleaseError] = useState('');
+  const [canarySize, setCanarySize] = useState(1);
+  const [waveSize, setWaveSize] = useState(10);
+  const [maxFailures, setMaxFailures] = useState(0);
+  const [status, setStatus] = useState<RolloutStatus>('idle');
+  const [waves, setWaves] = useState<Agent[][]>([]);
+  const [waveIndex, setWaveIndex] = useState(0);
+  const [progress, setProgress] = useState<Record<string, UpgradeProgress>>(
+    {},
+  );
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    fetchLatestAgentVersion()
+      .then(setTargetVersion)
+      .catch((err) =>
+        setReleaseError(
+          err instanceof Error ? err.message : 'Failed to load latest version',
+        ),
+      );
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const isGroup = agents.length > 1;
+  const behind = agents.filter(
+    (a) =>
+      a.status !== 'revoked' &&
+      targetVersion &&
+      needsUpgrade(a.version, targetVersion),
+  );
+  const unsupported = behind.filter(
+    (a) => !buildUpgradeParams(a, targetVersion),
+  );
+  const offline = behind.filter(
+    (a) => a.status !== 'online' && buildUpgradeParams(a, targetVersion),
+  );
+  const eligible = behind.filter(
+    (a) => a.status === 'online' && buildUpgradeParams(a, targetVersion),
+  );
+
+  const runWaves = async (plan: Agent[][], startWave: number) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('running');
+
+    for (let w = startWave; w < plan.length; w++) {
+      setWaveIndex(w);
+      const results = await mapWithConcurrency(
+        plan[w],
+        WAVE_CONCURRENCY,
+        (agent) =>
+          upgradeAgent(agent, targetVersion, {
+            signal: controller.signal,
+            onProgress: (p) =>
+              setProgress((prev) => ({ ...prev, [agent.id]: p })),
+          }),
+      );
+      if (controller.signal.aborted) {
+        setStatus('cancelled');
+        onFinished?.();
+        return;
+      }
+      const failures = results.filter(
+        (r) => r.stage === 'failed' || r.stage === 'unverified',
+      ).length;
+      if (failures > maxFailures && w < plan.length - 1) {
+        setWaveIndex(w + 1);
+        setStatus('halted');
+        onFinished?.();
+        return;
+      }
+    }
+    setWaveIndex(plan.length);
+    setStatus('done');
+    onFinished?.();
+  };
+
+  const handleStart = () => {
+    if (eligible.length === 0) return;
+    const plan = isGroup
+      ? planUpgradeWaves(eligible, canarySize, waveSize)
+      : [eligible];
+    const count = `${eligible.length} agent${eligible.length !== 1 ? 's' : ''}`;
+    const waveText = plan.length > 1 ? ` in ${plan.length} waves` : '';
+    if (!confirm(`Upgrade ${count} to v${targetVersion}${waveText}?`)) return;
+    setWaves(plan);
+    setProgress(
+      Object.fromEntries(
+        eligible.map((a) => [
+          a.id,
+          { stage: 'queued', command: null, version: a.version, error: '' },
+        ]),
+      ),
+    );
+    runWaves(plan, 0);
+  };
+
+  const running = status === 'running';
+  const rolloutAgents = waves.flat();
+
+  return (
+    <div className="bg-bg-secondary rounded-md border border-border-primary shadow-sm p-4 sm:p-5 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-[14px] font-semibold text-text-primary">
+          {isGroup ? 'Upgrade Agents' : 'Upgrade Agent'}
+        </h3>
+        <div className="flex items-center gap-2 text-[12px] text-text-secondary">
+          Target version
+          <input
+            value={targetVersion}
+            disabled={running}
+            onChange={(e) =>
+              setTargetVersion(normalizeVersion(e.target.value))
+            }
+            placeholder="e.g. 1.4.2"
+            className="h-8 w-28 px-2 text-[13px] font-mono bg-bg-primary border border-border-primary rounded-sm text-text-primary"
+          />
+        </div>
+      </div>
+
+      {releaseError && !targetVersion && (
+        <div className="text-[12px] text-accent-warning">
+          {releaseError} — enter the target version manually.
+        </div>
+      )}
+
+      {targetVersion && (
+        <div className="text-[12px] text-text-secondary">
+          {behind.length === 0
+            ? `All agents are on v${targetVersion} or newer.`
+            : `${eligible.length} of ${behind.length} outdated agent${
+                behind.length !== 1 ? 's' : ''
+              } can be upgraded now.`}
+          {offline.length > 0 && ` ${offline.length} offline will be skipped.`}
+          {unsupported.length > 0 &&
+            ` ${unsupported.length} on unsupported OS/arch.`}
+        </div>
+      )}
+
+      {isGroup && status === 'idle' && eligible.length > 0 && (
+        <div className="flex flex-wrap items-center gap-4 text-[12px] text-text-secondary">
+          <label className="flex items-center gap-2">
+            Canary
+            <input
+              type="number"
+              min={1}
+              value={canarySize}
+              onChange={(e) => setCanarySize(Number(e.target.value) || 1)}
+              className="h-8 w-16 px-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Wave size
+            <input
+              type="number"
+              min={1}
+              value={waveSize}
+              onChange={(e) => setWaveSize(Number(e.target.value) || 1)}
+              className="h-8 w-16 px-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Stop after failures &gt;
+            <input
+              type="number"
+              min={0}
+              value={maxFailures}
+              onChange={(e) => setMaxFailures(Number(e.target.value) || 0)}
+              className="h-8 w-16 px-2 text-[13px] bg-bg-primary border border-border-primary rounded-sm"
+            />
+          </label>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {(status === 'idle' || status === 'done' || status === 'cancelled') && (
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={eligible.length === 0}
+            className="h-9 px-4 bg-accent-primary hover:bg-accent-primary-hover text-white text-[13px] font-medium rounded-sm transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isGroup ? 'Start rollout' : 'Upgrade'}
+          </button>
+        )}
+        {status === 'halted' && (
+          <button
+            type="button"
+            onClick={() => runWaves(waves, waveIndex)}
+            className="h-9 px-4 bg-accent-warning text-white text-[13px] font-medium rounded-sm cursor-pointer"
+          >
+            Continue with wave {waveIndex + 1}
+          </button>
+        )}
+        {running && (
+          <button
+            type="button"
+            onClick={() => abortRef.current?.abort()}
+            className="h-9 px-3 text-[13px] border border-border-primary rounded-sm text-text-secondary hover:bg-bg-tertiary cursor-pointer"
+          >
+            Cancel
+          </button>
+        )}
+        {waves.length > 1 && status !== 'idle' && (
+          <span className="text-[12px] text-text-tertiary">
+            {status === 'running' && `Wave ${waveIndex + 1} of ${waves.length}`}
+            {status === 'halted' &&
+              `Halted: too many failures before wave ${waveIndex + 1} of ${waves.length}`}
+            {status === 'done' && `All ${waves.length} waves finished`}
+            {status === 'cancelled' && 'Rollout cancelled'}
+          </span>
+        )}
+      </div>
+
+      {rolloutAgents.length > 0 && (
+        <div className="rounded-sm border border-border-primary divide-y divide-border-primary max-h-72 overflow-y-auto">
+          {rolloutAgents.map((agent) => {
+            const p = progress[agent.id];
+            if (!p) return null;
+            return (
+              <div
+                key={agent.id}
+                className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-[12px]"
+              >
+                <span className="text-text-primary truncate">
+                  {agentLabel(agent)}
+                </span>
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-mono text-text-tertiary">
+                    v{normalizeVersion(p.version || '?')}
+                  </span>
+                  {p.error && (
+                    <span className="text-accent-danger truncate max-w-[240px]">
+                      {p.error}
+                    </span>
+                  )}
+                  <span
+                    className={`inline-flex text-[11px] font-medium px-2 py-0.5 rounded-full ${STAGE_STYLE[p.stage]}`}
+                  >
+                    {p.stage}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
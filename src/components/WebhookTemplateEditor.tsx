@@ -0,0 +1,131 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import type { AgentAlertOccurrence } from '@/lib/api';
+import {
+  checkRenderedBody,
+  renderWebhookTemplate,
+  validateWebhookTemplate,
+  WEBHOOK_TEMPLATE_FILTERS,
+  WEBHOOK_TEMPLATE_VARIABLES,
+} from '@/lib/webhooks';
+
+// webhook body 템플릿 편집기 — 변수 목록, 문법 검사, 실제 알림 기준 미리보기
+export function WebhookTemplateEditor({
+  value,
+  onChange,
+  previewAlert,
+  previewIsSample,
+  textareaClassName,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  previewAlert: AgentAlertOccurrence;
+  // 그룹에 발생한 알림이 없으면 샘플로 미리보기
+  previewIsSample: boolean;
+  textareaClassName: string;
+}) {
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const [showVariables, setShowVariables] = useState(false);
+
+  const errors = useMemo(() => validateWebhookTemplate(value), [value]);
+  const rendered = useMemo(
+    () => renderWebhookTemplate(value, previewAlert),
+    [value, previewAlert],
+  );
+  const jsonError = errors.length === 0 ? checkRenderedBody(rendered) : null;
+
+  // 커서 위치에 변수 태그를 넣는다
+  const insertVariable = (name: string) => {
+    const tag = `{{${name.replace('<field>', 'value')}}}`;
+    const el = textareaRef.current;
+    const start = el?.selectionStart ?? value.length;
+    const end = el?.selectionEnd ?? value.length;
+    onChange(value.slice(0, start) + tag + value.slice(end));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + tag.length, start + tag.length);
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`${textareaClassName} ${
+          errors.length > 0 ? 'border-accent-danger' : ''
+        }`}
+      />
+      <div className="flex flex-wrap items-center gap-2 text-[11px]">
+        <button
+          type="button"
+          onClick={() => setShowVariables((v) => !v)}
+          className="text-accent-primary hover:underline cursor-pointer"
+        >
+          {showVariables ? 'Hide variables' : 'Show variables'}
+        </button>
+        <span className="text-text-tertiary">
+          Use {'{{rule_name}}'} for raw text, {'{{message | json}}'} for a
+          quoted JSON string.
+        </span>
+      </div>
+
+      {showVariables && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1 p-2 rounded-sm border border-border-primary text-[11px]">
+          {WEBHOOK_TEMPLATE_VARIABLES.map((v) => (
+            <button
+              key={v.name}
+              type="button"
+              onClick={() => insertVariable(v.name)}
+              className="flex items-baseline gap-2 text-left hover:bg-bg-tertiary rounded-sm px-1 cursor-pointer"
+            >
+              <code className="font-mono text-text-primary">{v.name}</code>
+              <span className="text-text-tertiary truncate">
+                {v.description}
+              </span>
+            </button>
+          ))}
+          <div className="md:col-span-2 pt-1 mt-1 border-t border-border-primary text-text-tertiary">
+            Filters:{' '}
+            {WEBHOOK_TEMPLATE_FILTERS.map((f, i) => (
+              <span key={f.name}>
+                {i > 0 && ', '}
+                <code className="font-mono text-text-secondary">
+                  | {f.name}
+                </code>{' '}
+                {f.description}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="text-[11px] text-accent-danger space-y-0.5">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+      {jsonError && (
+        <div className="text-[11px] text-accent-warning">{jsonError}</div>
+      )}
+
+      {value.trim() && (
+        <div className="space-y-1">
+          <div className="text-[11px] text-text-tertiary">
+            Preview{' '}
+            {previewIsSample
+              ? '(sample alert — no alerts in this group yet)'
+              : `(latest alert: ${previewAlert.rule_name || previewAlert.metric}, ${new Date(previewAlert.created_at * 1000).toLocaleString('en-US')})`}
+          </div>
+          <pre className="max-h-[200px] overflow-auto px-3 py-2 text-[12px] font-mono whitespace-pre-wrap break-all bg-bg-tertiary/40 border border-border-primary rounded-sm text-text-secondary">
+            {rendered}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
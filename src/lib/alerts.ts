@@ -0,0 +1,123 @@
+import type { AgentAlertOccurrence, AlertStatus } from '@/lib/api';
+
+// ─── Alert Lifecycle ───
+// open → acknowledged → resolved, snoozed는 snoozed_until이 지나면 다시 open
+
+export const ALERT_STATUS_OPTIONS: { value: AlertStatus; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'acknowledged', label: 'Acknowledged' },
+  { value: 'snoozed', label: 'Snoozed' },
+  { value: 'resolved', label: 'Resolved' },
+];
+
+export const SNOOZE_OPTIONS = [
+  { label: '1h', seconds: 3600 },
+  { label: '4h', seconds: 4 * 3600 },
+  { label: '24h', seconds: 24 * 3600 },
+];
+
+// 상태 필드가 없는 이전 알림은 open으로 본다
+export function alertStatus(
+  alert: AgentAlertOccurrence,
+  now = Math.floor(Date.now() / 1000),
+): AlertStatus {
+  const status = alert.status ?? 'open';
+  if (
+    status === 'snoozed' &&
+    alert.snoozed_until &&
+    alert.snoozed_until <= now
+  ) {
+    return 'open';
+  }
+  return status;
+}
+
+export function timeToAcknowledge(alert: AgentAlertOccurrence): number | null {
+  return alert.acknowledged_at
+    ? Math.max(0, alert.acknowledged_at - alert.created_at)
+    : null;
+}
+
+export function timeToResolve(alert: AgentAlertOccurrence): number | null {
+  return alert.resolved_at
+    ? Math.max(0, alert.resolved_at - alert.created_at)
+    : null;
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    return m ? `${h}h ${m}m` : `${h}h`;
+  }
+  const d = Math.floor(seconds / 86400);
+  const h = Math.floor((seconds % 86400) / 3600);
+  return h ? `${d}d ${h}h` : `${d}d`;
+}
+
+// ─── Incident Grouping ───
+// 같은 rule + agent의 발생이 window 안에 이어지면 하나의 incident로 묶는다
+
+export type AlertIncident = {
+  key: string;
+  rule_id: string;
+  agent_id: string;
+  group_id: string;
+  severity: AgentAlertOccurrence['severity'];
+  first_seen: number;
+  last_seen: number;
+  // 최신순
+  occurrences: AgentAlertOccurrence[];
+};
+
+export const INCIDENT_WINDOW_OPTIONS = [
+  { label: '5 min', seconds: 5 * 60 },
+  { label: '15 min', seconds: 15 * 60 },
+  { label: '1 hour', seconds: 3600 },
+  { label: '6 hours', seconds: 6 * 3600 },
+  { label: '24 hours', seconds: 24 * 3600 },
+];
+
+const SEVERITY_RANK: Record<AgentAlertOccurrence['severity'], number> = {
+  info: 0,
+  warning: 1,
+  critical: 2,
+};
+
+export function groupIntoIncidents(
+  alerts: AgentAlertOccurrence[],
+  windowSeconds: number,
+): AlertIncident[] {
+  const incidents: AlertIncident[] = [];
+  const open = new Map<string, AlertIncident>();
+  const ordered = [...alerts].sort((a, b) => a.created_at - b.created_at);
+
+  for (const alert of ordered) {
+    const ruleAgent = `${alert.rule_id}|${alert.agent_id}`;
+    const current = open.get(ruleAgent);
+    if (current && alert.created_at - current.last_seen <= windowSeconds) {
+      current.occurrences.unshift(alert);
+      current.last_seen = alert.created_at;
+      if (SEVERITY_RANK[alert.severity] > SEVERITY_RANK[current.severity]) {
+        current.severity = alert.severity;
+      }
+      continue;
+    }
+    const incident: AlertIncident = {
+      key: `${ruleAgent}|${alert.id}`,
+      rule_id: alert.rule_id,
+      agent_id: alert.agent_id,
+      group_id: alert.group_id,
+      severity: alert.severity,
+      first_seen: alert.created_at,
+      last_seen: alert.created_at,
+      occurrences: [alert],
+    };
+    open.set(ruleAgent, incident);
+    incidents.push(incident);
+  }
+
+  return incidents.sort((a, b) => b.last_seen - a.last_seen);
+}
@@ -1,3 +1,6 @@
+import { mockScheduleApi } from '@/lib/mock/schedules';
+import { missingBuiltinTemplates } from '@/lib/rules';
+
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || '/api/v1';
 
 // ─── 토큰 관리 ───
@@ -243,6 +246,17 @@ export type Agent = {
   updated_at: number;
 };
 
+export type AgentSortKey =
+  | 'name'
+  | 'os'
+  | 'version'
+  | 'status'
+  | 'last_seen_at'
+  | 'created_at';
+
+// 24시간 넘게 연락이 없는 장비를 stale로 본다
+export const STALE_AFTER_SECONDS = 24 * 3600;
+
 export type AgentEvent = {
   id: string;
   agent_id: string;
@@ -275,6 +289,24 @@ export type AgentGroup = {
   agent_count?: number;
 };
 
+// 복합 조건 트리 — leaf는 단일 metric 비교, group은 AND/OR로 묶는다
+export type RuleConditionLeaf = {
+  type: 'condition';
+  metric: string;
+  operator: string;
+  threshold: string;
+};
+
+export type RuleConditionGroup = {
+  type: 'group';
+  logic: 'and' | 'or';
+  children: RuleCondition[];
+};
+
+export type RuleCondition = RuleConditionLeaf | RuleConditionGroup;
+
+// condition이 있으면 그것으로 평가하고, metric/operator/threshold는
+// 목록 표시와 이전 버전 호환을 위해 첫 번째 leaf를 그대로 담는다
 export type AgentGroupRule = {
   id: string;
   group_id: string;
@@ -283,28 +315,131 @@ export type AgentGroupRule = {
   metric: string;
   operator: string;
   threshold: string;
+  condition?: RuleConditionGroup | null;
   severity: 'info' | 'warning' | 'critical';
   window_seconds: number;
   enabled: number;
   webhook_url: string | null;
+  // 라이브러리에서 붙인 룰이면 원본 id와 붙이거나 마지막으로 동기화한 버전
+  library_rule_id?: string | null;
+  library_version?: number | null;
+  created_at: number;
+  updated_at: number;
+};
+
+// 계정 공용 룰 라이브러리 — 여러 그룹에 붙이고 수정하면 붙은 그룹에 반영된다
+// builtin_key는 기본 템플릿에서 만든 룰 (중복 생성 방지용)
+export type LibraryRule = {
+  id: string;
+  account_id: string;
+  name: string;
+  description: string;
+  metric: string;
+  operator: string;
+  threshold: string;
+  condition: RuleConditionGroup | null;
+  severity: 'info' | 'warning' | 'critical';
+  window_seconds: number;
+  builtin_key: string | null;
+  version: number;
+  created_at: number;
+  updated_at: number;
+};
+
+export type LibraryRuleInput = {
+  name: string;
+  description?: string;
+  metric: string;
+  operator: string;
+  threshold: string;
+  condition?: RuleConditionGroup | null;
+  severity: 'info' | 'warning' | 'critical';
+  window_seconds: number;
+  builtin_key?: string | null;
+};
+
+// 장비 하나에만 적용되는 룰 예외 — null인 항목은 그룹 룰 값을 그대로 쓴다
+// enabled가 0이면 이 장비에서는 룰을 평가하지 않는다
+export type AgentRuleOverride = {
+  id: string;
+  account_id: string;
+  agent_id: string;
+  group_id: string;
+  rule_id: string;
+  enabled: number;
+  threshold: string | null;
+  severity: 'info' | 'warning' | 'critical' | null;
+  window_seconds: number | null;
+  agent_display_name?: string;
+  agent_thing_name?: string;
   created_at: number;
   updated_at: number;
 };
 
+export type AgentRuleOverrideInput = {
+  enabled?: boolean;
+  threshold?: string | null;
+  severity?: 'info' | 'warning' | 'critical' | null;
+  window_seconds?: number | null;
+};
+
+export type AlertChannelType =
+  | 'email'
+  | 'webhook'
+  | 'slack'
+  | 'teams'
+  | 'discord'
+  | 'pagerduty';
+
+// 채널별 수신 조건 — 비어 있는 목록은 전체 허용
+// quiet_hours 동안에는 발송하지 않고, allow_critical이면 critical만 예외
+export type AlertChannelRouting = {
+  min_severity: 'info' | 'warning' | 'critical';
+  metrics: string[];
+  rule_ids: string[];
+  quiet_hours: {
+    start: string;
+    end: string;
+    timezone: string;
+    allow_critical: boolean;
+  } | null;
+};
+
+// target은 유형별로 이메일, webhook URL, PagerDuty routing key
 export type AgentGroupAlertChannel = {
   id: string;
   group_id: string;
   account_id: string;
-  type: 'email' | 'webhook';
+  type: AlertChannelType;
   target: string;
   webhook_method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | null;
   webhook_headers: string | null;
   webhook_body: string | null;
+  // 유형별 추가 설정 (JSON 문자열) — 예: Slack mention, Discord username
+  options: string | null;
+  // AlertChannelRouting JSON 문자열, null이면 모든 알림 수신
+  routing: string | null;
   enabled: number;
   created_at: number;
   updated_at: number;
 };
 
+// 채널 발송 1건 — 재시도는 같은 delivery의 attempts로 누적
+export type AlertChannelDelivery = {
+  id: string;
+  channel_id: string;
+  alert_id: string | null;
+  test: boolean;
+  status: 'pending' | 'success' | 'failed';
+  http_status: number | null;
+  latency_ms: number | null;
+  attempts: number;
+  request_body: string | null;
+  response_snippet: string | null;
+  error: string | null;
+  created_at: number;
+};
+
 export type AgentAlertOccurrence = {
   id: string;
   account_id: string;
@@ -320,8 +455,145 @@ export type AgentAlertOccurrence = {
   agent_display_name?: string | null;
   agent_thing_name?: string | null;
   rule_name?: string | null;
+  // 처리 상태 — 상태 전이 시각(_at)과 처리자(_by)는 서버가 기록
+  status?: AlertStatus;
+  assignee?: string | null;
+  acknowledged_at?: number | null;
+  acknowledged_by?: string | null;
+  resolved_at?: number | null;
+  resolved_by?: string | null;
+  resolution_note?: string | null;
+  snoozed_until?: number | null;
+  // 발생 시점에 적용된 silence — 기록은 남고 채널 발송만 생략된다
+  suppressed_by?: string | null;
+  // 에스컬레이션 진행 — 마지막으로 발송된 단계(0부터)와 그 시각
+  escalation_policy_id?: string | null;
+  escalation_step?: number | null;
+  escalated_at?: number | null;
+};
+
+// 알림 생성 후 delay_minutes가 지나도 ack/resolve되지 않으면 channel_ids로 발송
+export type EscalationStep = {
+  delay_minutes: number;
+  channel_ids: string[];
+};
+
+export type EscalationPolicy = {
+  id: string;
+  group_id: string;
+  account_id: string;
+  name: string;
+  enabled: number;
+  steps: EscalationStep[];
+  created_at: number;
+  updated_at: number;
+};
+
+export type EscalationPolicyInput = {
+  name: string;
+  enabled?: boolean;
+  steps: EscalationStep[];
 };
 
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved' | 'snoozed';
+
+// 점검 시간/임시 음소거 — group, agent, rule 중 지정된 범위에만 적용
+// starts_at~ends_at이 첫 구간이고 recurrence에 따라 repeat_until까지 반복
+export type AlertSilence = {
+  id: string;
+  account_id: string;
+  name: string;
+  group_id: string | null;
+  agent_id: string | null;
+  rule_id: string | null;
+  starts_at: number;
+  ends_at: number;
+  recurrence: 'none' | 'daily' | 'weekly';
+  repeat_until: number | null;
+  comment: string;
+  created_by: string | null;
+  created_at: number;
+  updated_at: number;
+};
+
+export type AlertSilenceInput = {
+  name: string;
+  group_id?: string | null;
+  agent_id?: string | null;
+  rule_id?: string | null;
+  starts_at: number;
+  ends_at: number;
+  recurrence?: AlertSilence['recurrence'];
+  repeat_until?: number | null;
+  comment?: string;
+};
+
+export type AlertListParams = {
+  group_id?: string;
+  agent_id?: string;
+  rule_id?: string;
+  metric?: string;
+  severity?: 'info' | 'warning' | 'critical';
+  status?: AlertStatus;
+  suppressed_by?: string;
+  since?: number;
+  until?: number;
+  limit?: number;
+  offset?: number;
+};
+
+export type AlertLifecycleUpdate = {
+  status?: AlertStatus;
+  assignee?: string | null;
+  resolution_note?: string;
+  snoozed_until?: number;
+};
+
+export type CommandSchedule = {
+  id: string;
+  account_id: string;
+  agent_id: string | null;
+  group_id: string | null;
+  name: string;
+  action: string;
+  params: Record<string, unknown>;
+  timeout: number;
+  schedule_type: 'interval' | 'cron';
+  interval_minutes: number | null;
+  cron: string | null;
+  // 실행 허용 요일(0=일요일)과 시간대("HH:MM"), 비어 있으면 제한 없음
+  active_days: number[];
+  active_start: string | null;
+  active_end: string | null;
+  // cron과 실행 허용 구간을 해석하는 IANA 타임존, 예전 스케줄은 null
+  timezone: string | null;
+  enabled: number;
+  last_run_at: number | null;
+  next_run_at: number | null;
+  created_at: number;
+  updated_at: number;
+};
+
+export type CommandScheduleInput = {
+  agent_id?: string;
+  group_id?: string;
+  name: string;
+  action: string;
+  params?: Record<string, unknown>;
+  timeout?: number;
+  schedule_type: 'interval' | 'cron';
+  interval_minutes?: number;
+  cron?: string;
+  active_days?: number[];
+  active_start?: string;
+  active_end?: string;
+  timezone?: string;
+  enabled?: boolean;
+};
+
+// 백엔드 없이 스케줄 기능을 확인할 수 있도록 localStorage mock으로 전환
+const USE_MOCK_SCHEDULES = process.env.NEXT_PUBLIC_MOCK_SCHEDULES === '1';
+
 export const agentApi = {
   // 등록 토큰
   createToken(displayName: string, expiresIn?: number, groupId?: string) {
@@ -354,15 +626,31 @@ export const agentApi = {
   },
 
   // 장비 CRUD
+  // q: display_name/thing_name/machine_id/description 부분 일치 검색
+  // seen_before: revoked가 아니고 이 시각 이전에 마지막으로 접속했거나 접속한 적 없는 장비
   list(params?: {
     status?: string;
     group_id?: string;
+    q?: string;
+    os?: string;
+    arch?: string;
+    version?: string;
+    seen_before?: number;
+    sort?: AgentSortKey;
+    order?: 'asc' | 'desc';
     limit?: number;
     offset?: number;
   }) {
     const qs = new URLSearchParams();
     if (params?.status) qs.set('status', params.status);
     if (params?.group_id) qs.set('group_id', params.group_id);
+    if (params?.q) qs.set('q', params.q);
+    if (params?.os) qs.set('os', params.os);
+    if (params?.arch) qs.set('arch', params.arch);
+    if (params?.version) qs.set('version', params.version);
+    if (params?.seen_before) qs.set('seen_before', String(params.seen_before));
+    if (params?.sort) qs.set('sort', params.sort);
+    if (params?.order) qs.set('order', params.order);
     if (params?.limit) qs.set('limit', String(params.limit));
     if (params?.offset) qs.set('offset', String(params.offset));
     const query = qs.toString() ? `?${qs}` : '';
@@ -388,10 +676,14 @@ export const agentApi = {
   },
 
   // 이벤트
-  getEvents(id: string, params?: { type?: string; limit?: number }) {
+  getEvents(
+    id: string,
+    params?: { type?: string; limit?: number; offset?: number },
+  ) {
     const qs = new URLSearchParams();
     if (params?.type) qs.set('type', params.type);
     if (params?.limit) qs.set('limit', String(params.limit));
+    if (params?.offset) qs.set('offset', String(params.offset));
     const query = qs.toString() ? `?${qs}` : '';
     return apiFetch<{ events: AgentEvent[] }>(`/agents/${id}/events${query}`);
   },
@@ -422,6 +714,47 @@ export const agentApi = {
     );
   },
 
+  getCommand(id: string, commandId: string) {
+    return apiFetch<{ command: AgentCommand }>(
+      `/agents/${id}/commands/${commandId}`,
+    );
+  },
+
+  // 예약 명령
+  listSchedules(params?: { agent_id?: string; group_id?: string }) {
+    if (USE_MOCK_SCHEDULES) return mockScheduleApi.list(params);
+    const qs = new URLSearchParams();
+    if (params?.agent_id) qs.set('agent_id', params.agent_id);
+    if (params?.group_id) qs.set('group_id', params.group_id);
+    const query = qs.toString() ? `?${qs}` : '';
+    return apiFetch<{ schedules: CommandSchedule[] }>(
+      `/agents/schedules${query}`,
+    );
+  },
+
+  createSchedule(data: CommandScheduleInput) {
+    if (USE_MOCK_SCHEDULES) return mockScheduleApi.create(data);
+    return apiFetch<{ id: string; ok: boolean }>('/agents/schedules', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  updateSchedule(id: string, data: Partial<CommandScheduleInput>) {
+    if (USE_MOCK_SCHEDULES) return mockScheduleApi.update(id, data);
+    return apiFetch<{ ok: boolean }>(`/agents/schedules/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  deleteSchedule(id: string) {
+    if (USE_MOCK_SCHEDULES) return mockScheduleApi.delete(id);
+    return apiFetch<{ ok: boolean }>(`/agents/schedules/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
   // 그룹
   listGroups() {
     return apiFetch<{ groups: AgentGroup[] }>('/agents/groups');
@@ -475,6 +808,7 @@ export const agentApi = {
       metric: string;
       operator: string;
       threshold: string;
+      condition?: RuleConditionGroup | null;
       severity?: 'info' | 'warning' | 'critical';
       window_seconds?: number;
       enabled?: boolean;
@@ -498,6 +832,7 @@ export const agentApi = {
       metric: string;
       operator: string;
       threshold: string;
+      condition: RuleConditionGroup | null;
       severity: 'info' | 'warning' | 'critical';
       window_seconds: number;
       enabled: boolean;
@@ -522,6 +857,108 @@ export const agentApi = {
     );
   },
 
+  // builtins_seeded는 계정 단위 플래그 — 한 번 채운 뒤에는 다 지워도 다시 채우지 않는다
+  listLibraryRules() {
+    return apiFetch<{ rules: LibraryRule[]; builtins_seeded: boolean }>(
+      '/agents/rule-library',
+    );
+  },
+
+  // 서버가 builtin_key 기준으로 없는 것만 한 트랜잭션에 만들고 builtins_seeded를 켠다
+  seedLibraryRules(rules: LibraryRuleInput[]) {
+    return apiFetch<{ ok: boolean; created: number }>(
+      '/agents/rule-library/seed',
+      {
+        method: 'POST',
+        body: JSON.stringify({ rules }),
+      },
+    );
+  },
+
+  createLibraryRule(data: LibraryRuleInput) {
+    return apiFetch<{ id: string; ok: boolean }>('/agents/rule-library', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // overwrite_drifted가 false면 그룹에서 직접 수정한 룰은 건너뛴다
+  updateLibraryRule(
+    id: string,
+    data: Partial<LibraryRuleInput> & { overwrite_drifted?: boolean },
+  ) {
+    return apiFetch<{ ok: boolean; updated_rules: number }>(
+      `/agents/rule-library/${id}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      },
+    );
+  },
+
+  // 붙은 그룹 룰은 지우지 않고 라이브러리 연결만 끊는다
+  deleteLibraryRule(id: string) {
+    return apiFetch<{ ok: boolean }>(`/agents/rule-library/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  attachLibraryRule(id: string, groupIds: string[]) {
+    return apiFetch<{ ok: boolean; rule_ids: string[] }>(
+      `/agents/rule-library/${id}/attach`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ group_ids: groupIds }),
+      },
+    );
+  },
+
+  // 그룹 룰을 라이브러리 최신 내용으로 되돌린다 (enabled는 유지)
+  syncLibraryRule(id: string, groupIds: string[]) {
+    return apiFetch<{ ok: boolean; updated_rules: number }>(
+      `/agents/rule-library/${id}/sync`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ group_ids: groupIds }),
+      },
+    );
+  },
+
+  listGroupRuleOverrides(groupId: string) {
+    return apiFetch<{ overrides: AgentRuleOverride[] }>(
+      `/agents/groups/${groupId}/rule-overrides`,
+    );
+  },
+
+  listAgentRuleOverrides(agentId: string) {
+    return apiFetch<{ overrides: AgentRuleOverride[] }>(
+      `/agents/${agentId}/rule-overrides`,
+    );
+  },
+
+  setAgentRuleOverride(
+    agentId: string,
+    ruleId: string,
+    data: AgentRuleOverrideInput,
+  ) {
+    return apiFetch<{ ok: boolean }>(
+      `/agents/${agentId}/rule-overrides/${ruleId}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      },
+    );
+  },
+
+  deleteAgentRuleOverride(agentId: string, ruleId: string) {
+    return apiFetch<{ ok: boolean }>(
+      `/agents/${agentId}/rule-overrides/${ruleId}`,
+      {
+        method: 'DELETE',
+      },
+    );
+  },
+
   listGroupAlertChannels(groupId: string) {
     return apiFetch<{ channels: AgentGroupAlertChannel[] }>(
       `/agents/groups/${groupId}/alert-channels`,
@@ -531,12 +968,14 @@ export const agentApi = {
   createGroupAlertChannel(
     groupId: string,
     data: {
-      type: 'email' | 'webhook';
+      type: AlertChannelType;
       target: string;
       enabled?: boolean;
       webhook_method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
       webhook_headers?: Record<string, string>;
       webhook_body?: string;
+      options?: Record<string, string>;
+      routing?: AlertChannelRouting | null;
     },
   ) {
     return apiFetch<{ id: string; ok: boolean }>(
@@ -557,6 +996,8 @@ export const agentApi = {
       webhook_method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
       webhook_headers?: Record<string, string>;
       webhook_body?: string;
+      options?: Record<string, string>;
+      routing?: AlertChannelRouting | null;
     },
   ) {
     return apiFetch<{ ok: boolean }>(
@@ -577,16 +1018,459 @@ export const agentApi = {
     );
   },
 
-  listGroupAlerts(
+  // 저장된 채널 설정으로 샘플 알림을 즉시 발송 — 결과는 발송 이력에도 남는다
+  testGroupAlertChannel(
+    groupId: string,
+    channelId: string,
+    alert: AgentAlertOccurrence,
+  ) {
+    return apiFetch<{ delivery: AlertChannelDelivery }>(
+      `/agents/groups/${groupId}/alert-channels/${channelId}/test`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ alert }),
+      },
+    );
+  },
+
+  listGroupAlertChannelDeliveries(
     groupId: string,
+    channelId: string,
     params?: { limit?: number; offset?: number },
   ) {
     const qs = new URLSearchParams();
     if (params?.limit) qs.set('limit', String(params.limit));
     if (params?.offset) qs.set('offset', String(params.offset));
     const query = qs.toString() ? `?${qs}` : '';
+    return apiFetch<{ deliveries: AlertChannelDelivery[]; total: number }>(
+      `/agents/groups/${groupId}/alert-channels/${channelId}/deliveries${query}`,
+    );
+  },
+
+  listGroupEscalationPolicies(groupId: string) {
+    return apiFetch<{ policies: EscalationPolicy[] }>(
+      `/agents/groups/${groupId}/escalation-policies`,
+    );
+  },
+
+  createGroupEscalationPolicy(groupId: string, data: EscalationPolicyInput) {
+    return apiFetch<{ id: string; ok: boolean }>(
+      `/agents/groups/${groupId}/escalation-policies`,
+      {
+        method: 'POST',
+        body: JSON.stringify(data),
+      },
+    );
+  },
+
+  updateGroupEscalationPolicy(
+    groupId: string,
+    policyId: string,
+    data: Partial<EscalationPolicyInput>,
+  ) {
+    return apiFetch<{ ok: boolean }>(
+      `/agents/groups/${groupId}/escalation-policies/${policyId}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      },
+    );
+  },
+
+  deleteGroupEscalationPolicy(groupId: string, policyId: string) {
+    return apiFetch<{ ok: boolean }>(
+      `/agents/groups/${groupId}/escalation-policies/${policyId}`,
+      {
+        method: 'DELETE',
+      },
+    );
+  },
+
+  listGroupAlerts(
+    groupId: string,
+    params?: { status?: AlertStatus; limit?: number; offset?: number },
+  ) {
+    const qs = new URLSearchParams();
+    if (params?.status) qs.set('status', params.status);
+    if (params?.limit) qs.set('limit', String(params.limit));
+    if (params?.offset) qs.set('offset', String(params.offset));
+    const query = qs.toString() ? `?${qs}` : '';
     return apiFetch<{ alerts: AgentAlertOccurrence[]; total: number }>(
       `/agents/groups/${groupId}/alerts${query}`,
     );
   },
+
+  // 계정 전체 알림 — 모든 그룹의 발생 이력을 최신순으로 합쳐서 반환
+  listAlerts(params?: AlertListParams) {
+    const qs = new URLSearchParams();
+    if (params?.group_id) qs.set('group_id', params.group_id);
+    if (params?.agent_id) qs.set('agent_id', params.agent_id);
+    if (params?.rule_id) qs.set('rule_id', params.rule_id);
+    if (params?.metric) qs.set('metric', params.metric);
+    if (params?.severity) qs.set('severity', params.severity);
+    if (params?.status) qs.set('status', params.status);
+    if (params?.suppressed_by) qs.set('suppressed_by', params.suppressed_by);
+    if (params?.since) qs.set('since', String(params.since));
+    if (params?.until) qs.set('until', String(params.until));
+    if (params?.limit) qs.set('limit', String(params.limit));
+    if (params?.offset) qs.set('offset', String(params.offset));
+    const query = qs.toString() ? `?${qs}` : '';
+    return apiFetch<{ alerts: AgentAlertOccurrence[]; total: number }>(
+      `/agents/alerts${query}`,
+    );
+  },
+
+  // 점검 시간 / 알림 음소거
+  listSilences(params?: { group_id?: string }) {
+    const qs = new URLSearchParams();
+    if (params?.group_id) qs.set('group_id', params.group_id);
+    const query = qs.toString() ? `?${qs}` : '';
+    return apiFetch<{ silences: AlertSilence[] }>(
+      `/agents/silences${query}`,
+    );
+  },
+
+  createSilence(data: AlertSilenceInput) {
+    return apiFetch<{ id: string; ok: boolean }>('/agents/silences', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  updateSilence(id: string, data: Partial<AlertSilenceInput>) {
+    return apiFetch<{ ok: boolean }>(`/agents/silences/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  deleteSilence(id: string) {
+    return apiFetch<{ ok: boolean }>(`/agents/silences/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  // 알림 처리: 확인(ack), 담당자 지정, 해결, 일시 중지(snooze), 재오픈
+  updateGroupAlert(
+    groupId: string,
+    alertId: string,
+    data: AlertLifecycleUpdate,
+  ) {
+    return apiFetch<{ alert: AgentAlertOccurrence }>(
+      `/agents/groups/${groupId}/alerts/${alertId}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      },
+    );
+  },
 };
+
+// ─── Agent Stream (SSE) ───
+// EventSource는 Authorization 헤더를 붙일 수 없어서 fetch 스트림을 직접 파싱한다
+
+export type AgentStreamState =
+  | 'connecting'
+  | 'open'
+  | 'reconnecting'
+  | 'polling'
+  | 'closed';
+
+export type AgentStreamHandlers = {
+  onEvent?: (event: AgentEvent) => void;
+  onCommand?: (command: AgentCommand) => void;
+  onStateChange?: (state: AgentStreamState) => void;
+};
+
+const STREAM_RETRY_BASE_MS = 1000;
+const STREAM_RETRY_MAX_MS = 15000;
+// 연속 실패가 이 횟수를 넘으면 polling으로 전환하고 느린 주기로 재연결만 시도
+const STREAM_MAX_FAILURES = 4;
+const STREAM_FALLBACK_RETRY_MS = 60000;
+
+type ServerSentEvent = { id: string | null; event: string; data: string };
+
+async function openEventStream(
+  path: string,
+  lastEventId: string | null,
+  signal: AbortSignal,
+): Promise<Response> {
+  const url = `${API_BASE}${path}`;
+  const buildHeaders = () => {
+    const headers: Record<string, string> = { Accept: 'text/event-stream' };
+    const token = getAccessToken();
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    if (lastEventId) headers['Last-Event-ID'] = lastEventId;
+    return headers;
+  };
+
+  const res = await fetch(url, {
+    headers: buildHeaders(),
+    signal,
+    cache: 'no-store',
+  });
+  if (res.status === 401 && getAccessToken() && (await tryRefresh())) {
+    return fetch(url, { headers: buildHeaders(), signal, cache: 'no-store' });
+  }
+  return res;
+}
+
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: ServerSentEvent) => void,
+  onRetry: (ms: number) => void,
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let id: string | null = null;
+  let event = 'message';
+  let data: string[] = [];
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const raw of lines) {
+      const line = raw.endsWith('\r') ? raw.slice(0, -1) : raw;
+      if (line === '') {
+        if (data.length > 0) onMessage({ id, event, data: data.join('\n') });
+        event = 'message';
+        data = [];
+        continue;
+      }
+      // ':'로 시작하는 줄은 heartbeat 주석
+      if (line.startsWith(':')) continue;
+      const sep = line.indexOf(':');
+      const field = sep === -1 ? line : line.slice(0, sep);
+      const fieldValue =
+        sep === -1 ? '' : line.slice(sep + 1).replace(/^ /, '');
+      if (field === 'id') id = fieldValue;
+      else if (field === 'event') event = fieldValue;
+      else if (field === 'data') data.push(fieldValue);
+      else if (field === 'retry' && /^\d+$/.test(fieldValue))
+        onRetry(Number(fieldValue));
+    }
+  }
+}
+
+export function streamAgent(
+  agentId: string,
+  handlers: AgentStreamHandlers,
+): () => void {
+  let closed = false;
+  let controller: AbortController | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastEventId: string | null = null;
+  let retryBase = STREAM_RETRY_BASE_MS;
+  let failures = 0;
+
+  const scheduleReconnect = () => {
+    if (closed) return;
+    failures += 1;
+    const fallback = failures >= STREAM_MAX_FAILURES;
+    handlers.onStateChange?.(fallback ? 'polling' : 'reconnecting');
+    const delay = fallback
+      ? STREAM_FALLBACK_RETRY_MS
+      : Math.min(retryBase * 2 ** (failures - 1), STREAM_RETRY_MAX_MS);
+    timer = setTimeout(connect, delay);
+  };
+
+  const dispatch = (message: ServerSentEvent) => {
+    if (message.id) lastEventId = message.id;
+    try {
+      const payload = JSON.parse(message.data) as unknown;
+      if (message.event === 'event') handlers.onEvent?.(payload as AgentEvent);
+      else if (message.event === 'command')
+        handlers.onCommand?.(payload as AgentCommand);
+    } catch {
+      /* ignore malformed payload */
+    }
+  };
+
+  async function connect() {
+    if (closed) return;
+    controller = new AbortController();
+    try {
+      const res = await openEventStream(
+        `/agents/${agentId}/stream`,
+        lastEventId,
+        controller.signal,
+      );
+      if (!res.ok || !res.body) {
+        throw new ApiError(res.status, `HTTP ${res.status}`);
+      }
+      failures = 0;
+      handlers.onStateChange?.('open');
+      await readEventStream(res.body, dispatch, (ms) => {
+        retryBase = ms;
+      });
+    } catch {
+      if (closed) return;
+    }
+    scheduleReconnect();
+  }
+
+  handlers.onStateChange?.('connecting');
+  connect();
+
+  return () => {
+    closed = true;
+    if (timer) clearTimeout(timer);
+    controller?.abort();
+    handlers.onStateChange?.('closed');
+  };
+}
+
+// ─── Agent List Helpers ───
+
+const LIST_ALL_PAGE_SIZE = 200;
+
+// total에 도달할 때까지 offset으로 페이지를 넘겨 전체 장비를 읽는다
+export async function listAllAgents(params?: {
+  status?: string;
+  group_id?: string;
+}): Promise<Agent[]> {
+  const agents: Agent[] = [];
+  for (;;) {
+    const res = await agentApi.list({
+      ...params,
+      limit: LIST_ALL_PAGE_SIZE,
+      offset: agents.length,
+    });
+    agents.push(...res.agents);
+    if (res.agents.length === 0 || agents.length >= res.total) return agents;
+  }
+}
+
+// ─── Event History Helpers ───
+
+// 페이지 한도 — 7일 범위가 끝없는 요청으로 번지지 않게 막는다
+const EVENT_HISTORY_PAGE_SIZE = 200;
+const EVENT_HISTORY_MAX_PAGES = 30;
+
+// 최신순으로 페이지를 넘기며 since 이후 이벤트만 모은다
+// 페이지 한도에 걸려 since까지 닿지 못하면 truncated가 true
+export async function listEventsSince(
+  agentId: string,
+  type: string,
+  since: number,
+): Promise<{ events: AgentEvent[]; truncated: boolean }> {
+  const events: AgentEvent[] = [];
+  for (let page = 0; page < EVENT_HISTORY_MAX_PAGES; page++) {
+    const res = await agentApi.getEvents(agentId, {
+      type,
+      limit: EVENT_HISTORY_PAGE_SIZE,
+      offset: page * EVENT_HISTORY_PAGE_SIZE,
+    });
+    events.push(...res.events.filter((ev) => ev.created_at >= since));
+    const oldest = res.events[res.events.length - 1];
+    if (res.events.length < EVENT_HISTORY_PAGE_SIZE || !oldest) {
+      return { events, truncated: false };
+    }
+    if (oldest.created_at < since) return { events, truncated: false };
+  }
+  return { events, truncated: true };
+}
+
+// ─── Rule Library Helpers ───
+
+// 계정에서 아직 기본 템플릿을 채운 적이 없으면 빠진 것만 한 번에 채운다
+// seed는 builtin_key 기준으로 멱등이라 여러 탭에서 동시에 불려도 중복되지 않는다
+export async function loadRuleLibrary(): Promise<LibraryRule[]> {
+  const res = await agentApi.listLibraryRules();
+  if (res.builtins_seeded) return res.rules;
+  // 빠진 게 없어도 호출해 플래그를 켠다
+  const missing = missingBuiltinTemplates(res.rules);
+  const seeded = await agentApi.seedLibraryRules(missing);
+  if (seeded.created === 0) return res.rules;
+  return (await agentApi.listLibraryRules()).rules;
+}
+
+// ─── Command Tracking ───
+
+export const COMMAND_TERMINAL_STATUSES = [
+  'completed',
+  'failed',
+  'timeout',
+] as const;
+
+export const DEFAULT_COMMAND_TIMEOUT_SECONDS = 60;
+
+const COMMAND_POLL_INTERVAL_MS = 2000;
+// 에이전트 응답이 timeout 직후에 도착하는 경우를 위한 여유 시간
+const COMMAND_TIMEOUT_GRACE_SECONDS = 10;
+
+export function isCommandTerminal(status: string): boolean {
+  return (COMMAND_TERMINAL_STATUSES as readonly string[]).includes(status);
+}
+
+// sendCommand 응답만으로 추적을 시작할 수 있도록 pending 상태의 명령을 만든다
+export function pendingCommand(
+  agentId: string,
+  action: string,
+  params: Record<string, unknown> | undefined,
+  res: { commandId: string; status: string },
+): AgentCommand {
+  return {
+    id: res.commandId,
+    agent_id: agentId,
+    action,
+    params: params ?? {},
+    status: res.status || 'pending',
+    exit_code: null,
+    result: null,
+    error: null,
+    created_at: Math.floor(Date.now() / 1000),
+    completed_at: null,
+  };
+}
+
+// sendCommand 직후의 pending 상태부터 종료 상태까지 명령을 추적한다
+// timeout(초)이 지나도 종료되지 않으면 로컬에서 timeout으로 처리
+export function trackCommand(
+  initial: AgentCommand,
+  options: {
+    timeout?: number;
+    onUpdate: (command: AgentCommand) => void;
+  },
+): () => void {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let last = initial;
+  const timeoutSeconds = options.timeout ?? DEFAULT_COMMAND_TIMEOUT_SECONDS;
+  const deadline =
+    Date.now() + (timeoutSeconds + COMMAND_TIMEOUT_GRACE_SECONDS) * 1000;
+
+  const poll = async () => {
+    if (stopped) return;
+    try {
+      const res = await agentApi.getCommand(initial.agent_id, initial.id);
+      if (stopped) return;
+      last = res.command;
+      options.onUpdate(res.command);
+      if (isCommandTerminal(res.command.status)) return;
+    } catch {
+      /* 일시적인 오류는 다음 poll에서 재시도 */
+    }
+    if (Date.now() >= deadline) {
+      options.onUpdate({
+        ...last,
+        status: 'timeout',
+        error: last.error ?? `No result within ${timeoutSeconds}s`,
+      });
+      return;
+    }
+    timer = setTimeout(poll, COMMAND_POLL_INTERVAL_MS);
+  };
+
+  timer = setTimeout(poll, COMMAND_POLL_INTERVAL_MS);
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
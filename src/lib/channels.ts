@@ -0,0 +1,424 @@
+import type {
+  AgentAlertOccurrence,
+  AgentGroupAlertChannel,
+  AlertChannelRouting,
+  AlertChannelType,
+} from '@/lib/api';
+import { parseClock } from '@/lib/schedules';
+
+// ─── Alert Channel Types ───
+// email/webhook 외 채팅·온콜 도구는 서버가 도구별 payload를 만든다
+// 여기 payload 빌더는 미리보기용이며 서버 구현과 같은 모양을 유지한다
+
+export type ChannelOptionField = {
+  key: string;
+  label: string;
+  placeholder: string;
+};
+
+export type ChannelTypeDefinition = {
+  value: AlertChannelType;
+  label: string;
+  targetLabel: string;
+  targetPlaceholder: string;
+  options: ChannelOptionField[];
+};
+
+export const CHANNEL_TYPES: ChannelTypeDefinition[] = [
+  {
+    value: 'email',
+    label: 'Email',
+    targetLabel: 'Email address',
+    targetPlaceholder: 'alert@example.com',
+    options: [],
+  },
+  {
+    value: 'webhook',
+    label: 'Webhook',
+    targetLabel: 'Webhook URL',
+    targetPlaceholder: 'https://example.com/webhook/socquery',
+    options: [],
+  },
+  {
+    value: 'slack',
+    label: 'Slack',
+    targetLabel: 'Incoming webhook URL',
+    targetPlaceholder: 'https://hooks.slack.com/services/T000/B000/XXXX',
+    options: [
+      {
+        key: 'mention',
+        label: 'Mention on critical (optional)',
+        placeholder: '<!here> or <!subteam^S012345>',
+      },
+    ],
+  },
+  {
+    value: 'teams',
+    label: 'Microsoft Teams',
+    targetLabel: 'Workflow webhook URL',
+    targetPlaceholder: 'https://prod-00.westus.logic.azure.com/workflows/...',
+    options: [],
+  },
+  {
+    value: 'discord',
+    label: 'Discord',
+    targetLabel: 'Discord webhook URL',
+    targetPlaceholder: 'https://discord.com/api/webhooks/000/XXXX',
+    options: [
+      {
+        key: 'username',
+        label: 'Bot name (optional)',
+        placeholder: 'SocQuery',
+      },
+      {
+        key: 'mention',
+        label: 'Mention on critical (optional)',
+        placeholder: '<@&role_id>',
+      },
+    ],
+  },
+  {
+    value: 'pagerduty',
+    label: 'PagerDuty',
+    targetLabel: 'Integration (routing) key',
+    targetPlaceholder: '32-character Events API v2 key',
+    options: [],
+  },
+];
+
+export function getChannelType(type: AlertChannelType): ChannelTypeDefinition {
+  return CHANNEL_TYPES.find((t) => t.value === type) ?? CHANNEL_TYPES[0];
+}
+
+export function validateChannelTarget(
+  type: AlertChannelType,
+  target: string,
+): string | null {
+  switch (type) {
+    case 'email':
+      return /^[^\s@]+@[^\s@]+$/.test(target)
+        ? null
+        : 'Enter a valid email address.';
+    case 'slack':
+      return target.startsWith('https://hooks.slack.com/')
+        ? null
+        : 'Slack webhook URLs start with https://hooks.slack.com/';
+    case 'discord':
+      return /^https:\/\/(discord|discordapp)\.com\/api\/webhooks\//.test(
+        target,
+      )
+        ? null
+        : 'Discord webhook URLs start with https://discord.com/api/webhooks/';
+    case 'pagerduty':
+      return /^[A-Za-z0-9]{32}$/.test(target)
+        ? null
+        : 'PagerDuty routing keys are 32 letters and digits.';
+    default:
+      return /^https?:\/\//.test(target) ? null : 'Enter a valid URL.';
+  }
+}
+
+export function parseChannelOptions(
+  channel: Pick<AgentGroupAlertChannel, 'options'>,
+): Record<string, string> {
+  if (!channel.options) return {};
+  try {
+    return JSON.parse(channel.options) as Record<string, string>;
+  } catch {
+    return {};
+  }
+}
+
+export function parseChannelHeaders(
+  channel: Pick<AgentGroupAlertChannel, 'webhook_headers'>,
+): Record<string, string> | undefined {
+  if (!channel.webhook_headers) return undefined;
+  try {
+    return JSON.parse(channel.webhook_headers) as Record<string, string>;
+  } catch {
+    return undefined;
+  }
+}
+
+// 도구별 severity 색상 — Slack은 hex, Teams는 Adaptive Card 색 이름, Discord는 정수
+const SEVERITY_COLORS: Record<
+  AgentAlertOccurrence['severity'],
+  { hex: string; teams: string; discord: number }
+> = {
+  critical: { hex: '#d93025', teams: 'attention', discord: 0xd93025 },
+  warning: { hex: '#f29900', teams: 'warning', discord: 0xf29900 },
+  info: { hex: '#1a73e8', teams: 'accent', discord: 0x1a73e8 },
+};
+
+export function severityColor(
+  severity: AgentAlertOccurrence['severity'],
+): string {
+  return SEVERITY_COLORS[severity].hex;
+}
+
+// 같은 rule + agent의 trigger/resolve가 PagerDuty에서 한 incident로 묶이도록
+export function pagerDutyDedupKey(alert: AgentAlertOccurrence): string {
+  return `socquery-${alert.rule_id}-${alert.agent_id}`;
+}
+
+function agentLabel(alert: AgentAlertOccurrence): string {
+  return alert.agent_display_name || alert.agent_thing_name || alert.agent_id;
+}
+
+export function buildChannelPayload(
+  type: AlertChannelType,
+  alert: AgentAlertOccurrence,
+  options: Record<string, string> = {},
+  action: 'trigger' | 'resolve' = 'trigger',
+): unknown {
+  const title = `${alert.severity.toUpperCase()}: ${alert.rule_name || alert.metric}`;
+  const agent = agentLabel(alert);
+  const occurredAt = new Date(alert.created_at * 1000).toISOString();
+  const mention =
+    alert.severity === 'critical' && options.mention ? options.mention : '';
+
+  switch (type) {
+    case 'slack':
+      return {
+        text: `${mention ? `${mention} ` : ''}${title} on ${agent}`,
+        attachments: [
+          {
+            color: SEVERITY_COLORS[alert.severity].hex,
+            blocks: [
+              {
+                type: 'header',
+                text: { type: 'plain_text', text: title },
+              },
+              {
+                type: 'section',
+                text: { type: 'mrkdwn', text: alert.message },
+                fields: [
+                  { type: 'mrkdwn', text: `*Agent*\n${agent}` },
+                  { type: 'mrkdwn', text: `*Metric*\n${alert.metric}` },
+                ],
+              },
+              {
+                type: 'context',
+                elements: [{ type: 'mrkdwn', text: occurredAt }],
+              },
+            ],
+          },
+        ],
+      };
+    case 'teams':
+      return {
+        type: 'message',
+        attachments: [
+          {
+            contentType: 'application/vnd.microsoft.card.adaptive',
+            content: {
+              $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+              type: 'AdaptiveCard',
+              version: '1.4',
+              body: [
+                {
+                  type: 'TextBlock',
+                  text: title,
+                  weight: 'Bolder',
+                  size: 'Medium',
+                  color: SEVERITY_COLORS[alert.severity].teams,
+                },
+                { type: 'TextBlock', text: alert.message, wrap: true },
+                {
+                  type: 'FactSet',
+                  facts: [
+                    { title: 'Agent', value: agent },
+                    { title: 'Metric', value: alert.metric },
+                    { title: 'Time', value: occurredAt },
+                  ],
+                },
+              ],
+            },
+          },
+        ],
+      };
+    case 'discord':
+      return {
+        username: options.username || undefined,
+        content: mention || undefined,
+        embeds: [
+          {
+            title,
+            description: alert.message,
+            color: SEVERITY_COLORS[alert.severity].discord,
+            fields: [
+              { name: 'Agent', value: agent, inline: true },
+              { name: 'Metric', value: alert.metric, inline: true },
+            ],
+            timestamp: occurredAt,
+          },
+        ],
+      };
+    case 'pagerduty':
+      return {
+        routing_key: '<routing key>',
+        event_action: action,
+        dedup_key: pagerDutyDedupKey(alert),
+        payload:
+          action === 'trigger'
+            ? {
+                summary: `${title} on ${agent}`,
+                source: alert.agent_thing_name || alert.agent_id,
+                severity: alert.severity,
+                component: alert.metric,
+                timestamp: occurredAt,
+                custom_details: {
+                  message: alert.message,
+                  ...alert.anomaly_data,
+                },
+              }
+            : undefined,
+      };
+    default:
+      return null;
+  }
+}
+
+// ─── Channel Routing ───
+// 서버가 발송 전에 같은 순서로 검사한다: 활성 → silence → severity → metric
+// → rule → quiet hours
+
+export const DEFAULT_ROUTING: AlertChannelRouting = {
+  min_severity: 'info',
+  metrics: [],
+  rule_ids: [],
+  quiet_hours: null,
+};
+
+const SEVERITY_RANK: Record<AgentAlertOccurrence['severity'], number> = {
+  info: 0,
+  warning: 1,
+  critical: 2,
+};
+
+export function parseChannelRouting(
+  channel: Pick<AgentGroupAlertChannel, 'routing'>,
+): AlertChannelRouting {
+  if (!channel.routing) return DEFAULT_ROUTING;
+  try {
+    return {
+      ...DEFAULT_ROUTING,
+      ...(JSON.parse(channel.routing) as Partial<AlertChannelRouting>),
+    };
+  } catch {
+    return DEFAULT_ROUTING;
+  }
+}
+
+export function isDefaultRouting(routing: AlertChannelRouting): boolean {
+  return (
+    routing.min_severity === 'info' &&
+    routing.metrics.length === 0 &&
+    routing.rule_ids.length === 0 &&
+    !routing.quiet_hours
+  );
+}
+
+// 브라우저가 지원하는 IANA 타임존 목록, 없으면 현재 타임존만
+export function timezoneOptions(): string[] {
+  try {
+    return Intl.supportedValuesOf('timeZone');
+  } catch {
+    return [Intl.DateTimeFormat().resolvedOptions().timeZone];
+  }
+}
+
+function minuteOfDayInZone(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(timestamp * 1000));
+  const hour = Number(parts.find((p) => p.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find((p) => p.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+export function isInQuietHours(
+  quiet: NonNullable<AlertChannelRouting['quiet_hours']>,
+  timestamp: number,
+): boolean {
+  const start = parseClock(quiet.start);
+  const end = parseClock(quiet.end);
+  if (start === null || end === null || start === end) return false;
+  let minute: number;
+  try {
+    minute = minuteOfDayInZone(timestamp, quiet.timezone);
+  } catch {
+    return false;
+  }
+  return start < end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end;
+}
+
+export type RouteDecision = { routed: boolean; reason: string };
+
+export function routeAlertToChannel(
+  channel: AgentGroupAlertChannel,
+  alert: AgentAlertOccurrence,
+): RouteDecision {
+  if (!channel.enabled) return { routed: false, reason: 'Channel disabled' };
+  if (alert.suppressed_by) return { routed: false, reason: 'Silenced' };
+
+  const routing = parseChannelRouting(channel);
+  if (SEVERITY_RANK[alert.severity] < SEVERITY_RANK[routing.min_severity]) {
+    return {
+      routed: false,
+      reason: `Below minimum severity (${routing.min_severity})`,
+    };
+  }
+  if (routing.metrics.length > 0 && !routing.metrics.includes(alert.metric)) {
+    return { routed: false, reason: `Metric ${alert.metric} not routed` };
+  }
+  if (
+    routing.rule_ids.length > 0 &&
+    !routing.rule_ids.includes(alert.rule_id)
+  ) {
+    return { routed: false, reason: 'Rule not routed' };
+  }
+  if (
+    routing.quiet_hours &&
+    isInQuietHours(routing.quiet_hours, alert.created_at) &&
+    !(routing.quiet_hours.allow_critical && alert.severity === 'critical')
+  ) {
+    return { routed: false, reason: 'Quiet hours' };
+  }
+  return { routed: true, reason: 'Routed' };
+}
+
+export function describeRouting(
+  routing: AlertChannelRouting,
+  ruleNames: Record<string, string> = {},
+): string {
+  if (isDefaultRouting(routing)) return 'All alerts';
+  const parts: string[] = [];
+  if (routing.min_severity !== 'info') {
+    parts.push(
+      routing.min_severity === 'critical' ? 'Critical only' : 'Warning+',
+    );
+  }
+  if (routing.metrics.length > 0) parts.push(routing.metrics.join(', '));
+  if (routing.rule_ids.length > 0) {
+    parts.push(
+      routing.rule_ids.length === 1
+        ? `Rule: ${ruleNames[routing.rule_ids[0]] ?? routing.rule_ids[0]}`
+        : `${routing.rule_ids.length} rules`,
+    );
+  }
+  if (routing.quiet_hours) {
+    const q = routing.quiet_hours;
+    parts.push(
+      `Quiet ${q.start}–${q.end} ${q.timezone}${
+        q.allow_critical ? ' (critical bypasses)' : ''
+      }`,
+    );
+  }
+  return parts.join(' · ');
+}
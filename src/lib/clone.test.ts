@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { AgentGroupAlertChannel } from '@/lib/api';
+import { DEFAULT_ROUTING } from '@/lib/channels';
+import { remapChannelRouting } from '@/lib/clone';
+
+function channel(routing: object | null): AgentGroupAlertChannel {
+  return {
+    id: 'c1',
+    group_id: 'g1',
+    account_id: 'acc',
+    type: 'slack',
+    target: 'https://hooks.slack.com/services/x',
+    webhook_method: null,
+    webhook_headers: null,
+    webhook_body: null,
+    options: null,
+    routing: routing
+      ? JSON.stringify({ ...DEFAULT_ROUTING, ...routing })
+      : null,
+    enabled: 1,
+    created_at: 0,
+    updated_at: 0,
+  };
+}
+
+describe('remapChannelRouting', () => {
+  it('keeps channels without routing as-is', () => {
+    expect(remapChannelRouting(channel(null), {})).toEqual({
+      routing: null,
+      unmatched: false,
+    });
+  });
+
+  it('maps source rule ids to target rule ids and drops unknown ones', () => {
+    const result = remapChannelRouting(channel({ rule_ids: ['r1', 'r2'] }), {
+      r1: 't1',
+    });
+    expect(result.unmatched).toBe(false);
+    expect(result.routing?.rule_ids).toEqual(['t1']);
+  });
+
+  it('flags routing that would widen to every rule', () => {
+    const result = remapChannelRouting(channel({ rule_ids: ['r1'] }), {});
+    expect(result.unmatched).toBe(true);
+  });
+
+  it('does not flag routing that already covered every rule', () => {
+    const result = remapChannelRouting(channel({ rule_ids: [] }), {});
+    expect(result.unmatched).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+import type {
+  AgentGroupAlertChannel,
+  AgentGroupRule,
+  AlertChannelRouting,
+} from '@/lib/api';
+import { parseChannelRouting } from '@/lib/channels';
+import { describeCondition } from '@/lib/rules';
+
+// ─── Group Config Clone ───
+// 원본 그룹의 룰/채널을 대상 그룹과 비교해 복사 계획을 만든다
+// 룰은 이름(대소문자 무시), 채널은 유형+대상으로 같은 항목을 찾는다
+
+export type RuleConflictAction = 'skip' | 'overwrite' | 'rename';
+
+export type RuleClonePlan = {
+  source: AgentGroupRule;
+  existing: AgentGroupRule | null;
+  kind: 'new' | 'identical' | 'conflict';
+  changes: string[];
+};
+
+export type ChannelClonePlan = {
+  source: AgentGroupAlertChannel;
+  existing: AgentGroupAlertChannel | null;
+  kind: 'new' | 'identical' | 'changed';
+};
+
+function ruleKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function describeRuleCondition(rule: AgentGroupRule): string {
+  return rule.condition
+    ? describeCondition(rule.condition)
+    : `${rule.metric} ${rule.operator} ${rule.threshold}`;
+}
+
+// 대상 룰 → 원본 룰로 바뀌는 항목 ("threshold: 90 → 95" 형식)
+export function ruleChanges(
+  target: AgentGroupRule,
+  source: AgentGroupRule,
+): string[] {
+  const changes: string[] = [];
+  const from = describeRuleCondition(target);
+  const to = describeRuleCondition(source);
+  if (from !== to) changes.push(`condition: ${from} → ${to}`);
+  if (target.severity !== source.severity) {
+    changes.push(`severity: ${target.severity} → ${source.severity}`);
+  }
+  if (target.window_seconds !== source.window_seconds) {
+    changes.push(
+      `window: ${target.window_seconds}s → ${source.window_seconds}s`,
+    );
+  }
+  if (Boolean(target.enabled) !== Boolean(source.enabled)) {
+    changes.push(source.enabled ? 'enabled' : 'disabled');
+  }
+  return changes;
+}
+
+export function planRuleClone(
+  source: AgentGroupRule[],
+  target: AgentGroupRule[],
+): RuleClonePlan[] {
+  return source.map((rule) => {
+    const existing =
+      target.find((t) => ruleKey(t.name) === ruleKey(rule.name)) ?? null;
+    if (!existing) return { source: rule, existing, kind: 'new', changes: [] };
+    const changes = ruleChanges(existing, rule);
+    return {
+      source: rule,
+      existing,
+      kind: changes.length > 0 ? 'conflict' : 'identical',
+      changes,
+    };
+  });
+}
+
+// "CPU spike" → "CPU spike (copy)", 이미 있으면 "(copy 2)"...
+export function uniqueRuleName(name: string, taken: string[]): string {
+  const keys = new Set(taken.map(ruleKey));
+  let candidate = `${name} (copy)`;
+  for (let n = 2; keys.has(ruleKey(candidate)); n++) {
+    candidate = `${name} (copy ${n})`;
+  }
+  return candidate;
+}
+
+function channelConfig(channel: AgentGroupAlertChannel): string {
+  return JSON.stringify([
+    channel.webhook_method,
+    channel.webhook_headers,
+    channel.webhook_body,
+    channel.options,
+    channel.routing,
+    Boolean(channel.enabled),
+  ]);
+}
+
+export function planChannelClone(
+  source: AgentGroupAlertChannel[],
+  target: AgentGroupAlertChannel[],
+): ChannelClonePlan[] {
+  return source.map((channel) => {
+    const existing =
+      target.find(
+        (t) =>
+          t.type === channel.type && t.target.trim() === channel.target.trim(),
+      ) ?? null;
+    if (!existing) return { source: channel, existing, kind: 'new' };
+    return {
+      source: channel,
+      existing,
+      kind:
+        channelConfig(existing) === channelConfig(channel)
+          ? 'identical'
+          : 'changed',
+    };
+  });
+}
+
+// routing.rule_ids는 원본 그룹의 룰 id라 대상 그룹 룰 id로 바꾼다
+// 대응되는 룰이 없으면 뺀다. 빈 rule_ids는 "모든 룰"이라 하나도 남지 않으면
+// 수신 범위가 넓어지므로 unmatched로 알려 복사하지 않게 한다
+export function remapChannelRouting(
+  channel: AgentGroupAlertChannel,
+  ruleIdMap: Record<string, string>,
+): { routing: AlertChannelRouting | null; unmatched: boolean } {
+  if (!channel.routing) return { routing: null, unmatched: false };
+  const routing = parseChannelRouting(channel);
+  const ruleIds = routing.rule_ids
+    .map((id) => ruleIdMap[id])
+    .filter((id): id is string => Boolean(id));
+  return {
+    routing: { ...routing, rule_ids: ruleIds },
+    unmatched: routing.rule_ids.length > 0 && ruleIds.length === 0,
+  };
+}
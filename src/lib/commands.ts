@@ -0,0 +1,244 @@
+// ─── Command Catalog ───
+// 에이전트가 지원하는 명령과 각 명령의 파라미터 스키마
+// 폼 렌더링, 기본값, 전송 전 검증이 모두 이 정의를 따른다
+
+type CommandParamBase = {
+  key: string;
+  label: string;
+  help?: string;
+  required?: boolean;
+};
+
+export type CommandParamField =
+  | (CommandParamBase & {
+      type: 'string';
+      default?: string;
+      placeholder?: string;
+      maxLength?: number;
+      pattern?: RegExp;
+      patternMessage?: string;
+    })
+  | (CommandParamBase & {
+      type: 'number';
+      default?: number;
+      min?: number;
+      max?: number;
+    })
+  | (CommandParamBase & { type: 'boolean'; default?: boolean })
+  | (CommandParamBase & {
+      type: 'select';
+      options: readonly string[];
+      default?: string;
+    });
+
+export type CommandDefinition = {
+  action: string;
+  label: string;
+  description: string;
+  defaultTimeout: number;
+  params: CommandParamField[];
+};
+
+// 폼 입력값은 문자열/불리언으로 보관하고 payload 생성 시 변환한다
+export type CommandFormValues = Record<string, string | boolean>;
+
+const HOST_PATTERN =
+  /^(?:(?:\d{1,3}\.){3}\d{1,3}|[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*)$/;
+
+export const COMMAND_CATALOG: CommandDefinition[] = [
+  {
+    action: 'ping',
+    label: 'Ping',
+    description: 'Check that the agent is reachable and responding.',
+    defaultTimeout: 30,
+    params: [],
+  },
+  {
+    action: 'scan_health',
+    label: 'Health scan',
+    description: 'Collect CPU, memory and disk usage.',
+    defaultTimeout: 60,
+    params: [],
+  },
+  {
+    action: 'scan_usb',
+    label: 'USB scan',
+    description: 'List connected USB devices.',
+    defaultTimeout: 60,
+    params: [
+      {
+        key: 'vendor_id',
+        label: 'Vendor ID filter',
+        type: 'string',
+        placeholder: 'e.g. 046d',
+        pattern: /^[0-9a-fA-F]{4}$/,
+        patternMessage: 'Vendor ID must be 4 hex digits.',
+      },
+    ],
+  },
+  {
+    action: 'scan_process',
+    label: 'Process scan',
+    description: 'List the top processes by CPU or memory.',
+    defaultTimeout: 60,
+    params: [
+      {
+        key: 'name_filter',
+        label: 'Process name filter',
+        type: 'string',
+        placeholder: 'e.g. chrome',
+        maxLength: 128,
+        help: 'Only processes whose name contains this text.',
+      },
+      {
+        key: 'sort_by',
+        label: 'Sort by',
+        type: 'select',
+        options: ['cpu', 'mem'],
+        default: 'cpu',
+      },
+      {
+        key: 'limit',
+        label: 'Max processes',
+        type: 'number',
+        default: 15,
+        min: 1,
+        max: 100,
+      },
+    ],
+  },
+  {
+    action: 'scan_network',
+    label: 'Network scan',
+    description: 'Check connectivity, optionally against a specific host.',
+    defaultTimeout: 90,
+    params: [
+      {
+        key: 'target_host',
+        label: 'Target host',
+        type: 'string',
+        placeholder: 'e.g. 8.8.8.8 or pos.example.com',
+        maxLength: 253,
+        pattern: HOST_PATTERN,
+        patternMessage: 'Enter a hostname or IPv4 address.',
+      },
+      {
+        key: 'port',
+        label: 'Port',
+        type: 'number',
+        min: 1,
+        max: 65535,
+        help: 'Leave empty to ping the host instead of opening a TCP port.',
+      },
+      {
+        key: 'count',
+        label: 'Attempts',
+        type: 'number',
+        default: 3,
+        min: 1,
+        max: 10,
+      },
+    ],
+  },
+  {
+    action: 'scan_all',
+    label: 'Full scan',
+    description: 'Run health, USB, process and network scans together.',
+    defaultTimeout: 180,
+    params: [
+      {
+        key: 'include_network',
+        label: 'Include network scan',
+        type: 'boolean',
+        default: true,
+      },
+    ],
+  },
+];
+
+export const COMMAND_ACTIONS = COMMAND_CATALOG.map((c) => c.action);
+
+export function getCommandDefinition(
+  action: string,
+): CommandDefinition | undefined {
+  return COMMAND_CATALOG.find((c) => c.action === action);
+}
+
+export function defaultCommandValues(
+  definition: CommandDefinition | undefined,
+): CommandFormValues {
+  const values: CommandFormValues = {};
+  for (const field of definition?.params ?? []) {
+    if (field.type === 'boolean') {
+      values[field.key] = field.default ?? false;
+    } else {
+      values[field.key] = field.default != null ? String(field.default) : '';
+    }
+  }
+  return values;
+}
+
+// 폼 값을 검증해서 sendCommand에 넘길 params를 만든다
+// 비어 있는 선택 파라미터는 payload에서 제외
+export function buildCommandParams(
+  definition: CommandDefinition | undefined,
+  values: CommandFormValues,
+): {
+  params: Record<string, unknown> | undefined;
+  errors: Record<string, string>;
+} {
+  const params: Record<string, unknown> = {};
+  const errors: Record<string, string> = {};
+
+  for (const field of definition?.params ?? []) {
+    const raw = values[field.key];
+
+    if (field.type === 'boolean') {
+      params[field.key] = raw === true;
+      continue;
+    }
+
+    const text = typeof raw === 'string' ? raw.trim() : '';
+    if (!text) {
+      if (field.required) errors[field.key] = `${field.label} is required.`;
+      continue;
+    }
+
+    if (field.type === 'number') {
+      const num = Number(text);
+      if (!Number.isInteger(num)) {
+        errors[field.key] = `${field.label} must be a whole number.`;
+      } else if (field.min != null && num < field.min) {
+        errors[field.key] = `${field.label} must be at least ${field.min}.`;
+      } else if (field.max != null && num > field.max) {
+        errors[field.key] = `${field.label} must be at most ${field.max}.`;
+      } else {
+        params[field.key] = num;
+      }
+      continue;
+    }
+
+    if (field.type === 'select') {
+      if (!field.options.includes(text)) {
+        errors[field.key] = `${field.label} must be one of ${field.options.join(', ')}.`;
+      } else {
+        params[field.key] = text;
+      }
+      continue;
+    }
+
+    if (field.maxLength != null && text.length > field.maxLength) {
+      errors[field.key] =
+        `${field.label} must be ${field.maxLength} characters or fewer.`;
+    } else if (field.pattern && !field.pattern.test(text)) {
+      errors[field.key] = field.patternMessage || `${field.label} is invalid.`;
+    } else {
+      params[field.key] = text;
+    }
+  }
+
+  return {
+    params: Object.keys(params).length > 0 ? params : undefined,
+    errors,
+  };
+}
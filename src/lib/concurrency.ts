@@ -0,0 +1,24 @@
+// 동시에 실행되는 작업 수를 limit으로 제한하면서 items를 처리한다
+// 결과는 입력 순서를 유지하고, 개별 실패는 호출부의 worker에서 처리한다
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    run,
+  );
+  await Promise.all(workers);
+  return results;
+}
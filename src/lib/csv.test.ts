@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from '@/lib/csv';
+
+describe('toCsv', () => {
+  it('quotes values containing commas, quotes and newlines', () => {
+    expect(toCsv(['a', 'b'], [['x,y', 'say "hi"\n']])).toBe(
+      'a,b\r\n"x,y","say ""hi""\n"',
+    );
+  });
+
+  it('neutralizes strings a spreadsheet would run as formulas', () => {
+    expect(
+      toCsv(['v'], [['=1+1'], ['+cmd'], ['-2'], ['@SUM(A1)'], ['\tx']]),
+    ).toBe("v\r\n'=1+1\r\n'+cmd\r\n'-2\r\n'@SUM(A1)\r\n'\tx");
+  });
+
+  it('keeps numbers and empty values as they are', () => {
+    expect(toCsv(['n', 'e'], [[-5, null]])).toBe('n,e\r\n-5,');
+  });
+
+  it('quotes a prefixed value that also needs quoting', () => {
+    expect(toCsv(['v'], [['=A1,B1']])).toBe(`v\r\n"'=A1,B1"`);
+  });
+});
@@ -0,0 +1,32 @@
+// ─── CSV Export ───
+// 엑셀에서 한글이 깨지지 않도록 UTF-8 BOM을 붙여 내려받는다
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// 스프레드시트가 수식으로 실행하는 첫 글자 — 장비가 보고한 문자열은 믿을 수 없다
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows]
+    .map((row) => row.map(escapeCsvValue).join(','))
+    .join('\r\n');
+}
+
+export function downloadCsv(filename: string, csv: string) {
+  const blob = new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
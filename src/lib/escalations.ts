@@ -0,0 +1,77 @@
+import type {
+  AgentAlertOccurrence,
+  EscalationPolicy,
+  EscalationStep,
+} from '@/lib/api';
+import { alertStatus } from '@/lib/alerts';
+
+// ─── Escalation ───
+// 단계는 알림 생성 시각 기준 delay_minutes 순으로 발송, ack/resolve/snooze되면 멈춘다
+
+export type EscalationProgress = {
+  // 발송된 마지막 단계 (없으면 -1)
+  reached: number;
+  next: { index: number; at: number } | null;
+  stoppedBy: 'acknowledged' | 'resolved' | 'snoozed' | null;
+};
+
+export function sortSteps(steps: EscalationStep[]): EscalationStep[] {
+  return [...steps].sort((a, b) => a.delay_minutes - b.delay_minutes);
+}
+
+// 알림에 기록된 정책이 우선, 없으면 그룹의 첫 활성 정책
+export function policyForAlert(
+  policies: EscalationPolicy[],
+  alert: AgentAlertOccurrence,
+): EscalationPolicy | null {
+  if (alert.escalation_policy_id) {
+    return policies.find((p) => p.id === alert.escalation_policy_id) ?? null;
+  }
+  return policies.find((p) => p.enabled) ?? null;
+}
+
+export function escalationProgress(
+  policy: EscalationPolicy,
+  alert: AgentAlertOccurrence,
+  now = Math.floor(Date.now() / 1000),
+): EscalationProgress {
+  const steps = sortSteps(policy.steps);
+  const status = alertStatus(alert, now);
+  const stoppedBy = status === 'open' ? null : status;
+
+  // 서버가 기록한 단계가 있으면 그대로, 없으면 경과 시간으로 추정
+  let reached = alert.escalation_step ?? -1;
+  if (alert.escalation_step == null && !stoppedBy) {
+    steps.forEach((step, i) => {
+      if (alert.created_at + step.delay_minutes * 60 <= now) reached = i;
+    });
+  }
+
+  const nextIndex = reached + 1;
+  const next =
+    !stoppedBy && policy.enabled && nextIndex < steps.length
+      ? {
+          index: nextIndex,
+          at: alert.created_at + steps[nextIndex].delay_minutes * 60,
+        }
+      : null;
+  return { reached, next, stoppedBy };
+}
+
+export function validateEscalationSteps(steps: EscalationStep[]): string[] {
+  const errors: string[] = [];
+  if (steps.length === 0) errors.push('Add at least one step.');
+  steps.forEach((step, i) => {
+    if (!Number.isFinite(step.delay_minutes) || step.delay_minutes < 0) {
+      errors.push(`Step ${i + 1}: delay must be 0 or more minutes.`);
+    }
+    if (step.channel_ids.length === 0) {
+      errors.push(`Step ${i + 1}: select at least one channel.`);
+    }
+  });
+  const delays = steps.map((s) => s.delay_minutes);
+  if (new Set(delays).size !== delays.length) {
+    errors.push('Each step needs a different delay.');
+  }
+  return errors;
+}
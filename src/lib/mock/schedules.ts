@@ -0,0 +1,125 @@
+import type { CommandSchedule, CommandScheduleInput } from '@/lib/api';
+import { computeNextRun } from '@/lib/schedules';
+
+// ─── Command Schedule Mock ───
+// NEXT_PUBLIC_MOCK_SCHEDULES=1 일 때 agentApi의 스케줄 메서드가 이 구현을 사용한다
+// 실제 명령은 보내지 않고, 조회 시점에 도래한 실행을 last_run_at/next_run_at에만 반영
+
+const STORAGE_KEY = 'mock_command_schedules';
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function load(): CommandSchedule[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as CommandSchedule[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function save(schedules: CommandSchedule[]) {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(schedules));
+}
+
+// 마지막 조회 이후 도래한 실행을 한 번으로 합쳐 기록한다
+function advance(schedule: CommandSchedule, at: number): CommandSchedule {
+  if (!schedule.enabled) return { ...schedule, next_run_at: null };
+  if (schedule.next_run_at !== null && schedule.next_run_at <= at) {
+    const ran = { ...schedule, last_run_at: schedule.next_run_at };
+    return { ...ran, next_run_at: computeNextRun(ran, at + 1) };
+  }
+  return schedule;
+}
+
+function fromInput(
+  base: CommandSchedule,
+  data: Partial<CommandScheduleInput>,
+): CommandSchedule {
+  const next: CommandSchedule = {
+    ...base,
+    agent_id: data.agent_id ?? base.agent_id,
+    group_id: data.group_id ?? base.group_id,
+    name: data.name ?? base.name,
+    action: data.action ?? base.action,
+    params: data.params ?? base.params,
+    timeout: data.timeout ?? base.timeout,
+    schedule_type: data.schedule_type ?? base.schedule_type,
+    interval_minutes: data.interval_minutes ?? base.interval_minutes,
+    cron: data.cron ?? base.cron,
+    active_days: data.active_days ?? base.active_days,
+    active_start:
+      data.active_start !== undefined
+        ? data.active_start || null
+        : base.active_start,
+    active_end:
+      data.active_end !== undefined ? data.active_end || null : base.active_end,
+    timezone: data.timezone ?? base.timezone,
+    enabled: data.enabled === undefined ? base.enabled : data.enabled ? 1 : 0,
+    updated_at: now(),
+  };
+  return {
+    ...next,
+    next_run_at: next.enabled ? computeNextRun(next, now()) : null,
+  };
+}
+
+export const mockScheduleApi = {
+  async list(params?: { agent_id?: string; group_id?: string }) {
+    const at = now();
+    const schedules = load().map((s) => advance(s, at));
+    save(schedules);
+    return {
+      schedules: schedules.filter(
+        (s) =>
+          (!params?.agent_id || s.agent_id === params.agent_id) &&
+          (!params?.group_id || s.group_id === params.group_id),
+      ),
+    };
+  },
+
+  async create(data: CommandScheduleInput) {
+    const id = crypto.randomUUID();
+    const created = fromInput(
+      {
+        id,
+        account_id: 'mock',
+        agent_id: null,
+        group_id: null,
+        name: '',
+        action: data.action,
+        params: {},
+        timeout: 60,
+        schedule_type: data.schedule_type,
+        interval_minutes: null,
+        cron: null,
+        active_days: [],
+        active_start: null,
+        active_end: null,
+        timezone: null,
+        enabled: 1,
+        last_run_at: null,
+        next_run_at: null,
+        created_at: now(),
+        updated_at: now(),
+      },
+      data,
+    );
+    save([...load(), created]);
+    return { id, ok: true };
+  },
+
+  async update(id: string, data: Partial<CommandScheduleInput>) {
+    save(load().map((s) => (s.id === id ? fromInput(s, data) : s)));
+    return { ok: true };
+  },
+
+  async delete(id: string) {
+    save(load().filter((s) => s.id !== id));
+    return { ok: true };
+  },
+};
@@ -0,0 +1,109 @@
+// ─── Agent Release ───
+// 에이전트 바이너리 배포 위치와 버전 비교
+
+export const AGENT_RELEASE_BASE =
+  process.env.NEXT_PUBLIC_AGENT_RELEASE_URL ||
+  'https://download.socquery.com/releases/latest';
+
+// 배포 바이너리 목록 — os/arch는 에이전트가 보고하는 Go GOOS/GOARCH 값
+export const OS_OPTIONS = [
+  {
+    id: 'linux',
+    label: 'Linux (x64)',
+    asset: 'soc-linux',
+    isWindows: false,
+    os: 'linux',
+    arch: 'amd64',
+  },
+  {
+    id: 'linux-arm64',
+    label: 'Linux (ARM64 / Raspberry Pi 4/5)',
+    asset: 'soc-linux-arm64',
+    isWindows: false,
+    os: 'linux',
+    arch: 'arm64',
+  },
+  {
+    id: 'darwin-arm64',
+    label: 'macOS (Apple Silicon)',
+    asset: 'soc-darwin-arm64',
+    isWindows: false,
+    os: 'darwin',
+    arch: 'arm64',
+  },
+  {
+    id: 'darwin-amd64',
+    label: 'macOS (Intel)',
+    asset: 'soc-darwin-amd64',
+    isWindows: false,
+    os: 'darwin',
+    arch: 'amd64',
+  },
+  {
+    id: 'windows',
+    label: 'Windows (x64)',
+    asset: 'soc.exe',
+    isWindows: true,
+    os: 'windows',
+    arch: 'amd64',
+  },
+] as const;
+
+export type ReleaseTarget = (typeof OS_OPTIONS)[number];
+
+// 에이전트가 보고한 os/arch에 맞는 바이너리 — 지원하지 않는 조합이면 undefined
+export function findReleaseTarget(
+  os: string,
+  arch: string,
+): ReleaseTarget | undefined {
+  const normalizedArch =
+    arch === 'x86_64' ? 'amd64' : arch === 'aarch64' ? 'arm64' : arch;
+  return OS_OPTIONS.find(
+    (o) => o.os === os.toLowerCase() && o.arch === normalizedArch,
+  );
+}
+
+export function releaseAssetUrl(target: ReleaseTarget): string {
+  return `${AGENT_RELEASE_BASE}/${target.asset}`;
+}
+
+// 릴리스 디렉터리의 VERSION 파일 (예: "1.4.2" 또는 "v1.4.2")
+export async function fetchLatestAgentVersion(): Promise<string> {
+  const res = await fetch(`${AGENT_RELEASE_BASE}/VERSION`, {
+    cache: 'no-store',
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to load latest version (HTTP ${res.status})`);
+  }
+  const version = normalizeVersion(await res.text());
+  if (!version) throw new Error('Latest version file is empty');
+  return version;
+}
+
+export function normalizeVersion(version: string): string {
+  return version.trim().replace(/^v/i, '');
+}
+
+// 점으로 구분된 숫자 비교 — "1.10.0" > "1.9.3", pre-release 접미사는 무시
+export function compareVersions(a: string, b: string): number {
+  const pa = normalizeVersion(a).split(/[.-]/);
+  const pb = normalizeVersion(b).split(/[.-]/);
+  const length = Math.max(pa.length, pb.length);
+  for (let i = 0; i < length; i++) {
+    const na = parseInt(pa[i] ?? '0', 10);
+    const nb = parseInt(pb[i] ?? '0', 10);
+    if (Number.isNaN(na) || Number.isNaN(nb)) break;
+    if (na !== nb) return na < nb ? -1 : 1;
+  }
+  return 0;
+}
+
+// 숫자로 시작하지 않는 version("", "dev" 등)은 비교할 수 없다
+export function isKnownVersion(version: string): boolean {
+  return /^\d/.test(normalizeVersion(version || ''));
+}
+
+export function isVersionBehind(version: string, latest: string): boolean {
+  if (!version || !latest) return false;
+  return compareVersions(version, latest) < 0;
+}
@@ -0,0 +1,242 @@
+import type {
+  AgentGroupRule,
+  AgentRuleOverride,
+  LibraryRule,
+  LibraryRuleInput,
+  RuleCondition,
+  RuleConditionGroup,
+  RuleConditionLeaf,
+} from '@/lib/api';
+
+// ─── Rule Metrics ───
+
+export const METRIC_OPTIONS = [
+  { value: 'cpu', label: 'CPU usage (%)', thresholdHint: 'e.g. 90' },
+  { value: 'memory', label: 'Memory usage (%)', thresholdHint: 'e.g. 90' },
+  { value: 'disk', label: 'Disk usage (%)', thresholdHint: 'e.g. 95' },
+  {
+    value: 'process',
+    label: 'Process status',
+    thresholdHint: 'e.g. offline, missing',
+  },
+  {
+    value: 'network',
+    label: 'Network status',
+    thresholdHint: 'e.g. disconnected, fail',
+  },
+  { value: 'usb', label: 'USB device change', thresholdHint: 'e.g. removed, added' },
+] as const;
+
+export const RULE_OPERATORS = ['>=', '>', '<=', '<', '==', '!='] as const;
+
+// 수치 비교가 가능한 metric — 나머지는 상태 문자열이라 ==, != 만 허용
+export const NUMERIC_METRICS = ['cpu', 'memory', 'disk'];
+
+// ─── Compound Conditions ───
+
+export const MAX_CONDITION_DEPTH = 3;
+
+export function leafCondition(metric = 'cpu'): RuleConditionLeaf {
+  const numeric = NUMERIC_METRICS.includes(metric);
+  return {
+    type: 'condition',
+    metric,
+    operator: numeric ? '>=' : '==',
+    threshold: numeric ? '90' : '',
+  };
+}
+
+export function conditionGroup(
+  logic: RuleConditionGroup['logic'] = 'and',
+  children: RuleCondition[] = [leafCondition()],
+): RuleConditionGroup {
+  return { type: 'group', logic, children };
+}
+
+export function conditionLeaves(node: RuleCondition): RuleConditionLeaf[] {
+  return node.type === 'condition'
+    ? [node]
+    : node.children.flatMap(conditionLeaves);
+}
+
+// leaf가 하나뿐인 트리는 단순 룰로 저장한다
+export function isCompoundCondition(node: RuleCondition): boolean {
+  return conditionLeaves(node).length > 1;
+}
+
+export function validateCondition(
+  node: RuleCondition,
+  depth = 1,
+  path = 'Condition',
+): string[] {
+  if (node.type === 'condition') {
+    const errors: string[] = [];
+    if (!METRIC_OPTIONS.some((m) => m.value === node.metric)) {
+      errors.push(`${path}: unknown metric "${node.metric}".`);
+    }
+    if (!node.threshold.trim()) {
+      errors.push(`${path}: threshold is required.`);
+    } else if (NUMERIC_METRICS.includes(node.metric)) {
+      if (Number.isNaN(Number(node.threshold))) {
+        errors.push(`${path}: ${node.metric} threshold must be a number.`);
+      }
+    } else if (node.operator !== '==' && node.operator !== '!=') {
+      errors.push(`${path}: ${node.metric} only supports == and !=.`);
+    }
+    return errors;
+  }
+  if (depth > MAX_CONDITION_DEPTH) {
+    return [`${path}: groups can be nested ${MAX_CONDITION_DEPTH} deep.`];
+  }
+  if (node.children.length === 0) return [`${path}: group is empty.`];
+  return node.children.flatMap((child, i) =>
+    validateCondition(child, depth + 1, `${path}.${i + 1}`),
+  );
+}
+
+export function describeCondition(node: RuleCondition, nested = false): string {
+  if (node.type === 'condition') {
+    return `${node.metric} ${node.operator} ${node.threshold}`;
+  }
+  const text = node.children
+    .map((child) => describeCondition(child, true))
+    .join(` ${node.logic.toUpperCase()} `);
+  return nested && node.children.length > 1 ? `(${text})` : text;
+}
+
+// ─── Agent Overrides ───
+
+// 장비 예외를 반영한 실제 적용 룰. threshold 예외는 단일 조건 룰에만 적용된다
+export function applyRuleOverride(
+  rule: AgentGroupRule,
+  override: AgentRuleOverride | undefined,
+): AgentGroupRule {
+  if (!override) return rule;
+  return {
+    ...rule,
+    enabled: rule.enabled && override.enabled ? 1 : 0,
+    threshold:
+      override.threshold !== null && !rule.condition
+        ? override.threshold
+        : rule.threshold,
+    severity: override.severity ?? rule.severity,
+    window_seconds: override.window_seconds ?? rule.window_seconds,
+  };
+}
+
+export function describeOverride(override: AgentRuleOverride): string {
+  if (!override.enabled) return 'disabled';
+  const parts: string[] = [];
+  if (override.threshold !== null) parts.push(`threshold ${override.threshold}`);
+  if (override.severity) parts.push(override.severity);
+  if (override.window_seconds !== null) {
+    parts.push(`${override.window_seconds}s window`);
+  }
+  return parts.length > 0 ? parts.join(', ') : 'no changes';
+}
+
+// ─── Rule Library ───
+
+// 계정 라이브러리가 비어 있을 때 채워 넣는 기본 룰
+export const BUILTIN_RULE_TEMPLATES: LibraryRuleInput[] = [
+  {
+    builtin_key: 'cpu-spike-90-30s',
+    name: 'CPU > 90% (30s)',
+    description: 'CPU usage >= 90% for 30s or longer',
+    metric: 'cpu',
+    operator: '>=',
+    threshold: '90',
+    severity: 'warning',
+    window_seconds: 30,
+  },
+  {
+    builtin_key: 'memory-high-90-300s',
+    name: 'Memory > 90% (5m)',
+    description: 'Memory usage >= 90% for 5min or longer',
+    metric: 'memory',
+    operator: '>=',
+    threshold: '90',
+    severity: 'warning',
+    window_seconds: 300,
+  },
+  {
+    builtin_key: 'disk-critical-95-60s',
+    name: 'Disk > 95% (60s)',
+    description: 'Disk usage >= 95% for 60s or longer',
+    metric: 'disk',
+    operator: '>=',
+    threshold: '95',
+    severity: 'critical',
+    window_seconds: 60,
+  },
+  {
+    builtin_key: 'network-disconnected',
+    name: 'Network disconnected',
+    description: 'Trigger when network status is disconnected',
+    metric: 'network',
+    operator: '==',
+    threshold: 'disconnected',
+    severity: 'critical',
+    window_seconds: 1,
+  },
+  {
+    builtin_key: 'usb-removed',
+    name: 'USB removed',
+    description: 'Trigger when critical USB device is removed',
+    metric: 'usb',
+    operator: '==',
+    threshold: 'removed',
+    severity: 'critical',
+    window_seconds: 1,
+  },
+];
+
+export function missingBuiltinTemplates(
+  library: LibraryRule[],
+): LibraryRuleInput[] {
+  const keys = new Set(library.map((r) => r.builtin_key));
+  return BUILTIN_RULE_TEMPLATES.filter((t) => !keys.has(t.builtin_key ?? null));
+}
+
+export type LibrarySyncStatus =
+  | { status: 'in_sync' }
+  | { status: 'drifted'; fields: string[] }
+  | { status: 'detached' };
+
+const SYNCED_FIELDS = [
+  'name',
+  'metric',
+  'operator',
+  'threshold',
+  'severity',
+  'window_seconds',
+] as const;
+
+// 그룹 룰이 라이브러리 원본과 다른 항목 (enabled와 장비 예외는 그룹 설정이라 비교하지 않음)
+export function libraryRuleDrift(
+  rule: AgentGroupRule,
+  source: LibraryRule,
+): string[] {
+  const fields: string[] = SYNCED_FIELDS.filter(
+    (field) => rule[field] !== source[field],
+  );
+  if (
+    JSON.stringify(rule.condition ?? null) !==
+    JSON.stringify(source.condition ?? null)
+  ) {
+    fields.push('condition');
+  }
+  return fields;
+}
+
+// 라이브러리와 연결되지 않은 룰이면 null
+export function librarySyncStatus(
+  rule: AgentGroupRule,
+  library: LibraryRule[],
+): LibrarySyncStatus | null {
+  if (!rule.library_rule_id) return null;
+  const source = library.find((r) => r.id === rule.library_rule_id);
+  if (!source) return { status: 'detached' };
+  const fields = libraryRuleDrift(rule, source);
+  return fields.length > 0 ? { status: 'drifted', fields } : { status: 'in_sync' };
+}
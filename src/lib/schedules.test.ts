@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeNextRun,
+  isWithinActiveWindow,
+  nextCronTime,
+  parseCron,
+  type ScheduleTiming,
+} from '@/lib/schedules';
+
+const utc = (...args: [number, number, number, number?, number?]) =>
+  Date.UTC(args[0], args[1], args[2], args[3] ?? 0, args[4] ?? 0) / 1000;
+
+function timing(patch: Partial<ScheduleTiming>): ScheduleTiming {
+  return {
+    schedule_type: 'interval',
+    interval_minutes: 60,
+    cron: null,
+    active_days: [],
+    active_start: null,
+    active_end: null,
+    timezone: 'UTC',
+    last_run_at: null,
+    ...patch,
+  };
+}
+
+describe('parseCron', () => {
+  it('expands steps, ranges and lists', () => {
+    const spec = parseCron('*/15 9-17 * * 1-5');
+    expect([...spec.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...spec.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...spec.weekdays]).toEqual([1, 2, 3, 4, 5]);
+    expect(spec.daysRestricted).toBe(false);
+    expect(spec.weekdaysRestricted).toBe(true);
+  });
+
+  it('runs a single value with a step up to the field maximum', () => {
+    expect([...parseCron('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+  });
+
+  it('treats weekday 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').weekdays]).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow(/5 fields/);
+    expect(() => parseCron('60 * * * *')).toThrow(/minute/);
+    expect(() => parseCron('*/0 * * * *')).toThrow(/step/);
+    expect(() => parseCron('5-1 * * * *')).toThrow(/minute/);
+    expect(() => parseCron('0 0 32 * *')).toThrow(/day of month/);
+  });
+});
+
+describe('nextCronTime', () => {
+  it('returns the next matching minute strictly after the given time', () => {
+    const spec = parseCron('*/15 * * * *');
+    expect(nextCronTime(spec, utc(2026, 0, 1, 10, 7), 'UTC')).toBe(
+      utc(2026, 0, 1, 10, 15),
+    );
+    expect(nextCronTime(spec, utc(2026, 0, 1, 10, 15), 'UTC')).toBe(
+      utc(2026, 0, 1, 10, 30),
+    );
+  });
+
+  it('evaluates fields in the given time zone', () => {
+    // 2026-01-01 09:30 KST
+    expect(
+      nextCronTime(
+        parseCron('0 9 * * *'),
+        utc(2026, 0, 1, 0, 30),
+        'Asia/Seoul',
+      ),
+    ).toBe(utc(2026, 0, 2, 0, 0));
+  });
+
+  it('matches either day of month or weekday when both are set', () => {
+    // 2026-01-02 is a Friday
+    expect(
+      nextCronTime(parseCron('0 0 13 * 5'), utc(2026, 0, 1), 'UTC'),
+    ).toBe(utc(2026, 0, 2));
+  });
+
+  it('skips a wall time that daylight saving jumps over', () => {
+    // New York springs forward from 02:00 to 03:00 on 2026-03-08
+    expect(
+      nextCronTime(
+        parseCron('30 2 * * *'),
+        utc(2026, 2, 7, 12),
+        'America/New_York',
+      ),
+    ).toBe(utc(2026, 2, 9, 6, 30));
+  });
+
+  it('returns null when the expression never matches', () => {
+    expect(nextCronTime(parseCron('0 0 31 2 *'), utc(2026, 0, 1), 'UTC')).toBe(
+      null,
+    );
+  });
+});
+
+describe('isWithinActiveWindow', () => {
+  const storeHours = timing({
+    active_days: [1, 2, 3, 4, 5],
+    active_start: '09:00',
+    active_end: '21:00',
+    timezone: 'Asia/Seoul',
+  });
+
+  it('checks days and hours in the schedule time zone', () => {
+    // 2026-01-05 is a Monday
+    expect(isWithinActiveWindow(storeHours, utc(2026, 0, 5, 1))).toBe(true);
+    expect(isWithinActiveWindow(storeHours, utc(2026, 0, 5, 13))).toBe(false);
+    expect(isWithinActiveWindow(storeHours, utc(2026, 0, 3, 1))).toBe(false);
+  });
+
+  it('wraps windows that cross midnight', () => {
+    const night = timing({ active_start: '22:00', active_end: '06:00' });
+    expect(isWithinActiveWindow(night, utc(2026, 0, 5, 23))).toBe(true);
+    expect(isWithinActiveWindow(night, utc(2026, 0, 5, 5))).toBe(true);
+    expect(isWithinActiveWindow(night, utc(2026, 0, 5, 12))).toBe(false);
+  });
+});
+
+describe('computeNextRun', () => {
+  it('moves an interval run to the next window start in the time zone', () => {
+    const schedule = timing({
+      active_start: '09:00',
+      active_end: '21:00',
+      timezone: 'Asia/Seoul',
+    });
+    // 2026-01-05 22:30 KST → 2026-01-06 09:00 KST
+    expect(computeNextRun(schedule, utc(2026, 0, 5, 13, 30))).toBe(
+      utc(2026, 0, 6, 0, 0),
+    );
+  });
+
+  it('skips cron runs outside the window', () => {
+    const schedule = timing({
+      schedule_type: 'cron',
+      cron: '0 * * * *',
+      active_start: '09:00',
+      active_end: '10:00',
+      timezone: 'Asia/Seoul',
+    });
+    // 2026-01-05 11:00 KST → 2026-01-06 09:00 KST
+    expect(computeNextRun(schedule, utc(2026, 0, 5, 2, 0))).toBe(
+      utc(2026, 0, 6, 0, 0),
+    );
+  });
+
+  it('returns null for an invalid cron expression', () => {
+    expect(
+      computeNextRun(
+        timing({ schedule_type: 'cron', cron: 'bad' }),
+        utc(2026, 0, 1),
+      ),
+    ).toBe(null);
+  });
+});
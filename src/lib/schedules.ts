@@ -0,0 +1,352 @@
+import type { CommandSchedule } from '@/lib/api';
+
+// ─── Command Schedule 계산 ───
+// interval/cron 스케줄의 다음 실행 시각 계산과 표시용 문구를 담당한다
+// 시각은 API와 동일하게 unix seconds, 요일/시간은 스케줄의 timezone 기준
+
+export type ScheduleTiming = Pick<
+  CommandSchedule,
+  | 'schedule_type'
+  | 'interval_minutes'
+  | 'cron'
+  | 'active_days'
+  | 'active_start'
+  | 'active_end'
+  | 'timezone'
+  | 'last_run_at'
+>;
+
+type CronSpec = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+// 4년 이상 맞는 시각이 없으면 (예: 2월 31일) 실행 불가로 본다
+const CRON_SEARCH_LIMIT_SECONDS = 4 * 366 * 86400;
+const WINDOW_SEARCH_LIMIT = 1000;
+
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>();
+
+function wallClockFormat(timeZone: string): Intl.DateTimeFormat {
+  let format = wallClockFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+    wallClockFormats.set(timeZone, format);
+  }
+  return format;
+}
+
+// timezone이 없거나 잘못된 스케줄은 브라우저 로컬 시간으로 계산한다
+function scheduleTimeZone(timing: ScheduleTiming): string {
+  if (!timing.timezone) return localTimeZone();
+  try {
+    wallClockFormat(timing.timezone);
+    return timing.timezone;
+  } catch {
+    return localTimeZone();
+  }
+}
+
+// timeZone의 벽시계 시각을 UTC 필드에 담은 Date — getUTC*/setUTC*로만 다룬다
+function toWallClock(timestamp: number, timeZone: string): Date {
+  const parts = wallClockFormat(timeZone).formatToParts(
+    new Date(timestamp * 1000),
+  );
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return new Date(
+    Date.UTC(
+      get('year'),
+      get('month') - 1,
+      get('day'),
+      get('hour'),
+      get('minute'),
+      get('second'),
+    ),
+  );
+}
+
+// 벽시계 시각 → unix seconds, DST로 건너뛴 시각이면 null
+function fromWallClock(wall: Date, timeZone: string): number | null {
+  const local = wall.getTime() / 1000;
+  const offsetAt = (ts: number) =>
+    toWallClock(ts, timeZone).getTime() / 1000 - ts;
+  const guess = local - offsetAt(local);
+  const timestamp = local - offsetAt(guess);
+  return toWallClock(timestamp, timeZone).getTime() === wall.getTime()
+    ? timestamp
+    : null;
+}
+
+function parseCronField(
+  expr: string,
+  field: (typeof CRON_FIELDS)[number],
+): Set<number> {
+  const values = new Set<number>();
+  for (const part of expr.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${part}" in ${field.name}.`);
+    }
+
+    let start: number = field.min;
+    let end: number = field.max;
+    if (rangePart !== '*') {
+      const [a, b] = rangePart.split('-');
+      start = Number(a);
+      // "5/15"처럼 단일 값에 step이 붙으면 해당 값부터 최대값까지
+      if (b !== undefined) end = Number(b);
+      else end = stepPart === undefined ? start : field.max;
+      if (
+        a === '' ||
+        !Number.isInteger(start) ||
+        !Number.isInteger(end) ||
+        start < field.min ||
+        end > field.max ||
+        start > end
+      ) {
+        throw new Error(`Invalid value "${part}" in ${field.name}.`);
+      }
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+// 표준 5필드 cron (분 시 일 월 요일) — 잘못된 식이면 Error를 던진다
+export function parseCron(expression: string): CronSpec {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(
+      'Cron expression must have 5 fields: minute hour day month weekday.',
+    );
+  }
+  const [minutes, hours, days, months, rawWeekdays] = parts.map((p, i) =>
+    parseCronField(p, CRON_FIELDS[i]),
+  );
+  // 요일 7은 일요일(0)과 같다
+  const weekdays = new Set(Array.from(rawWeekdays, (d) => d % 7));
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    daysRestricted: parts[2] !== '*',
+    weekdaysRestricted: parts[4] !== '*',
+  };
+}
+
+function cronMatchesDay(spec: CronSpec, date: Date): boolean {
+  const dayMatch = spec.days.has(date.getUTCDate());
+  const weekdayMatch = spec.weekdays.has(date.getUTCDay());
+  // cron 관례: 일/요일이 둘 다 지정되면 둘 중 하나만 맞아도 실행
+  if (spec.daysRestricted && spec.weekdaysRestricted) {
+    return dayMatch || weekdayMatch;
+  }
+  return dayMatch && weekdayMatch;
+}
+
+// after 이후 cron이 timeZone의 벽시계 기준으로 처음 맞는 시각
+export function nextCronTime(
+  spec: CronSpec,
+  after: number,
+  timeZone: string = localTimeZone(),
+): number | null {
+  const date = toWallClock((Math.floor(after / 60) + 1) * 60, timeZone);
+  const limit = toWallClock(
+    after + CRON_SEARCH_LIMIT_SECONDS,
+    timeZone,
+  ).getTime();
+
+  while (date.getTime() <= limit) {
+    if (!spec.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cronMatchesDay(spec, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!spec.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!spec.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    // DST로 건너뛴 시각이거나 시계를 되돌려 이미 지난 시각이면 다음 분으로
+    const timestamp = fromWallClock(date, timeZone);
+    if (timestamp !== null && timestamp > after) return timestamp;
+    date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+  }
+  return null;
+}
+
+// "HH:MM" → 자정부터의 분
+export function parseClock(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const h = Number(match[1]);
+  const m = Number(match[2]);
+  if (h > 23 || m > 59) return null;
+  return h * 60 + m;
+}
+
+function hasActiveWindow(timing: ScheduleTiming): boolean {
+  return (
+    timing.active_days.length > 0 ||
+    (!!timing.active_start && !!timing.active_end)
+  );
+}
+
+// 매장 운영 시간 등 실행 허용 구간 — end가 start보다 이르면 자정을 넘기는 구간
+export function isWithinActiveWindow(
+  timing: ScheduleTiming,
+  timestamp: number,
+): boolean {
+  const date = toWallClock(timestamp, scheduleTimeZone(timing));
+  if (
+    timing.active_days.length > 0 &&
+    !timing.active_days.includes(date.getUTCDay())
+  ) {
+    return false;
+  }
+  const start = parseClock(timing.active_start ?? '');
+  const end = parseClock(timing.active_end ?? '');
+  if (start === null || end === null) return true;
+  const minute = date.getUTCHours() * 60 + date.getUTCMinutes();
+  return start <= end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end;
+}
+
+// 다음 실행 허용 구간이 시작되는 시각 (최대 7일 뒤까지 탐색)
+function nextWindowStart(timing: ScheduleTiming, after: number): number | null {
+  const timeZone = scheduleTimeZone(timing);
+  const start = parseClock(timing.active_start ?? '');
+  const date = toWallClock(after, timeZone);
+  date.setUTCSeconds(0, 0);
+  for (let day = 0; day <= 7; day++) {
+    if (start !== null) {
+      date.setUTCHours(Math.floor(start / 60), start % 60, 0, 0);
+    } else if (day > 0) {
+      date.setUTCHours(0, 0, 0, 0);
+    }
+    const ts = fromWallClock(date, timeZone);
+    if (ts !== null && ts >= after && isWithinActiveWindow(timing, ts)) {
+      return ts;
+    }
+    date.setUTCDate(date.getUTCDate() + 1);
+    date.setUTCHours(0, 0, 0, 0);
+  }
+  return null;
+}
+
+// now 이후의 다음 실행 시각. 실행할 수 없는 스케줄이면 null
+export function computeNextRun(
+  timing: ScheduleTiming,
+  now: number,
+): number | null {
+  if (timing.schedule_type === 'cron') {
+    let spec: CronSpec;
+    try {
+      spec = parseCron(timing.cron ?? '');
+    } catch {
+      return null;
+    }
+    const timeZone = scheduleTimeZone(timing);
+    let candidate = nextCronTime(spec, now - 1, timeZone);
+    let attempts = 0;
+    while (candidate !== null && attempts < WINDOW_SEARCH_LIMIT) {
+      if (!hasActiveWindow(timing) || isWithinActiveWindow(timing, candidate)) {
+        return candidate;
+      }
+      candidate = nextCronTime(spec, candidate, timeZone);
+      attempts++;
+    }
+    return null;
+  }
+
+  const interval = (timing.interval_minutes ?? 0) * 60;
+  if (interval <= 0) return null;
+  let candidate = timing.last_run_at ? timing.last_run_at + interval : now;
+  // 밀린 실행은 한 번만 즉시 실행하고 이후는 interval 간격을 유지
+  if (candidate < now) candidate = now;
+  if (!hasActiveWindow(timing) || isWithinActiveWindow(timing, candidate)) {
+    return candidate;
+  }
+  return nextWindowStart(timing, candidate);
+}
+
+export function describeSchedule(timing: ScheduleTiming): string {
+  const base =
+    timing.schedule_type === 'cron'
+      ? `Cron "${timing.cron ?? ''}"`
+      : formatInterval(timing.interval_minutes ?? 0);
+
+  const parts = [base];
+  if (timing.active_days.length > 0 && timing.active_days.length < 7) {
+    parts.push(
+      [...timing.active_days]
+        .sort((a, b) => a - b)
+        .map((d) => WEEKDAY_LABELS[d])
+        .join(', '),
+    );
+  }
+  if (timing.active_start && timing.active_end) {
+    parts.push(`${timing.active_start}–${timing.active_end}`);
+  }
+  // interval만 있으면 타임존과 무관하다
+  if (
+    timing.timezone &&
+    (timing.schedule_type === 'cron' || hasActiveWindow(timing))
+  ) {
+    parts.push(timing.timezone);
+  }
+  return parts.join(' · ');
+}
+
+function formatInterval(minutes: number): string {
+  if (minutes % 1440 === 0) {
+    const days = minutes / 1440;
+    return days === 1 ? 'Every day' : `Every ${days} days`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return hours === 1 ? 'Every hour' : `Every ${hours} hours`;
+  }
+  return minutes === 1 ? 'Every minute' : `Every ${minutes} minutes`;
+}
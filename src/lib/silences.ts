@@ -0,0 +1,76 @@
+import type { AlertSilence } from '@/lib/api';
+
+// ─── Alert Silence ───
+// 반복 silence는 첫 구간(starts_at~ends_at)을 하루/일주일 단위로 평행 이동한 구간들
+
+export type SilenceState = 'active' | 'scheduled' | 'expired';
+
+const RECURRENCE_PERIOD: Record<AlertSilence['recurrence'], number> = {
+  none: 0,
+  daily: 86400,
+  weekly: 7 * 86400,
+};
+
+export const RECURRENCE_OPTIONS: {
+  value: AlertSilence['recurrence'];
+  label: string;
+}[] = [
+  { value: 'none', label: 'Once' },
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekly', label: 'Every week' },
+];
+
+// now가 속한 구간, 없으면 now 이후 첫 구간. 더 이상 구간이 없으면 null
+export function currentOrNextWindow(
+  silence: AlertSilence,
+  now: number,
+): { start: number; end: number } | null {
+  const duration = silence.ends_at - silence.starts_at;
+  if (duration <= 0) return null;
+  const period = RECURRENCE_PERIOD[silence.recurrence];
+
+  let start = silence.starts_at;
+  if (period > 0 && now > silence.starts_at) {
+    start += Math.floor((now - silence.starts_at) / period) * period;
+    if (start + duration <= now) start += period;
+  }
+  if (start + duration <= now) return null;
+  if (period > 0 && silence.repeat_until && start > silence.repeat_until) {
+    return null;
+  }
+  return { start, end: start + duration };
+}
+
+export function silenceState(silence: AlertSilence, now: number): SilenceState {
+  const window = currentOrNextWindow(silence, now);
+  if (!window) return 'expired';
+  return window.start <= now ? 'active' : 'scheduled';
+}
+
+export function isSilenceActive(silence: AlertSilence, now: number): boolean {
+  return silenceState(silence, now) === 'active';
+}
+
+export function silenceScope(
+  silence: Pick<AlertSilence, 'group_id' | 'agent_id' | 'rule_id'>,
+): 'rule' | 'agent' | 'group' {
+  if (silence.rule_id) return 'rule';
+  if (silence.agent_id) return 'agent';
+  return 'group';
+}
+
+// <input type="datetime-local">은 타임존 없는 로컬 시각 문자열을 쓴다
+export function toLocalDateTimeInput(timestamp: number): string {
+  const d = new Date(timestamp * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}` +
+    `T${pad(d.getHours())}:${pad(d.getMinutes())}`
+  );
+}
+
+export function fromLocalDateTimeInput(value: string): number | null {
+  if (!value) return null;
+  const ms = new Date(value).getTime();
+  return Number.isNaN(ms) ? null : Math.floor(ms / 1000);
+}
@@ -0,0 +1,289 @@
+import { describe, expect, it } from 'vitest';
+import type { AgentEvent, RuleConditionGroup } from '@/lib/api';
+import {
+  compareValue,
+  evaluateCondition,
+  extractMetricValue,
+  simulateAgent,
+  simulateRule,
+  type RuleSpec,
+} from '@/lib/simulation';
+
+let nextId = 0;
+
+function telemetry(
+  at: number,
+  usage: { cpu?: number; memory?: number; disk?: number },
+): AgentEvent {
+  return {
+    id: String(++nextId),
+    agent_id: 'a1',
+    type: 'telemetry',
+    created_at: at,
+    data: Object.fromEntries(
+      Object.entries(usage).map(([metric, value]) => [
+        metric,
+        { usagePercent: value },
+      ]),
+    ),
+  };
+}
+
+function scan(at: number, action: string, status: string): AgentEvent {
+  return {
+    id: String(++nextId),
+    agent_id: 'a1',
+    type: 'scan',
+    created_at: at,
+    data: { action, status },
+  };
+}
+
+function cpuRule(windowSeconds: number): RuleSpec {
+  return {
+    metric: 'cpu',
+    operator: '>=',
+    threshold: '90',
+    window_seconds: windowSeconds,
+  };
+}
+
+describe('extractMetricValue', () => {
+  it('reads usagePercent from telemetry', () => {
+    expect(extractMetricValue(telemetry(0, { cpu: 42 }), 'cpu')).toBe(42);
+    expect(extractMetricValue(telemetry(0, { cpu: 42 }), 'disk')).toBe(
+      undefined,
+    );
+  });
+
+  it('reads status from a scan with the matching action only', () => {
+    const event = scan(0, 'network', 'disconnected');
+    expect(extractMetricValue(event, 'network')).toBe('disconnected');
+    expect(extractMetricValue(event, 'usb')).toBe(undefined);
+    expect(extractMetricValue(event, 'cpu')).toBe(undefined);
+  });
+});
+
+describe('compareValue', () => {
+  it('compares numbers numerically', () => {
+    expect(compareValue(95, '>=', '90')).toBe(true);
+    expect(compareValue(90, '>', '90')).toBe(false);
+    expect(compareValue(10, '<', '20')).toBe(true);
+  });
+
+  it('compares strings with == and != only, ignoring case', () => {
+    expect(compareValue('Disconnected', '==', 'disconnected')).toBe(true);
+    expect(compareValue('connected', '!=', 'disconnected')).toBe(true);
+    expect(compareValue('connected', '>=', 'disconnected')).toBe(false);
+  });
+});
+
+describe('evaluateCondition', () => {
+  const tree: RuleConditionGroup = {
+    type: 'group',
+    logic: 'and',
+    children: [
+      { type: 'condition', metric: 'cpu', operator: '>=', threshold: '90' },
+      {
+        type: 'group',
+        logic: 'or',
+        children: [
+          {
+            type: 'condition',
+            metric: 'memory',
+            operator: '>=',
+            threshold: '80',
+          },
+          {
+            type: 'condition',
+            metric: 'network',
+            operator: '==',
+            threshold: 'disconnected',
+          },
+        ],
+      },
+    ],
+  };
+
+  it('evaluates nested AND/OR groups', () => {
+    expect(evaluateCondition(tree, { cpu: 95, memory: 85 })).toBe(true);
+    expect(
+      evaluateCondition(tree, { cpu: 95, memory: 10, network: 'disconnected' }),
+    ).toBe(true);
+    expect(evaluateCondition(tree, { cpu: 95, memory: 10 })).toBe(false);
+    expect(evaluateCondition(tree, { cpu: 50, memory: 99 })).toBe(false);
+  });
+
+  it('treats a leaf without a value as false', () => {
+    expect(evaluateCondition(tree, { cpu: 95 })).toBe(false);
+    expect(
+      evaluateCondition(
+        { type: 'group', logic: 'or', children: tree.children },
+        { cpu: 95 },
+      ),
+    ).toBe(true);
+  });
+});
+
+describe('simulateAgent', () => {
+  it('does not fire before the window is reached', () => {
+    const { firings, samples } = simulateAgent(cpuRule(60), {
+      agent_id: 'a1',
+      events: [
+        telemetry(0, { cpu: 95 }),
+        telemetry(30, { cpu: 96 }),
+        telemetry(59, { cpu: 97 }),
+        telemetry(70, { cpu: 10 }),
+      ],
+    });
+    expect(firings).toHaveLength(0);
+    expect(samples).toBe(4);
+  });
+
+  it('fires once per breach and re-arms after the condition clears', () => {
+    const { firings } = simulateAgent(cpuRule(60), {
+      agent_id: 'a1',
+      events: [
+        telemetry(0, { cpu: 95 }),
+        telemetry(60, { cpu: 95 }),
+        telemetry(120, { cpu: 95 }),
+        telemetry(180, { cpu: 20 }),
+        telemetry(240, { cpu: 92 }),
+        telemetry(300, { cpu: 93 }),
+      ],
+    });
+    expect(firings.map((f) => [f.breach_started_at, f.fired_at])).toEqual([
+      [0, 60],
+      [240, 300],
+    ]);
+    expect(firings[0].values).toEqual({ cpu: 95 });
+  });
+
+  it('fires on the first matching sample when window_seconds <= 1', () => {
+    const { firings } = simulateAgent(cpuRule(1), {
+      agent_id: 'a1',
+      events: [
+        telemetry(0, { cpu: 95 }),
+        telemetry(10, { cpu: 95 }),
+        telemetry(20, { cpu: 5 }),
+        telemetry(30, { cpu: 99 }),
+      ],
+    });
+    expect(firings.map((f) => f.fired_at)).toEqual([0, 30]);
+  });
+
+  it('matches string metrics with == and !=', () => {
+    const events = [
+      scan(0, 'network', 'connected'),
+      scan(10, 'network', 'disconnected'),
+      scan(20, 'network', 'connected'),
+    ];
+    const equal = simulateAgent(
+      {
+        metric: 'network',
+        operator: '==',
+        threshold: 'disconnected',
+        window_seconds: 1,
+      },
+      { agent_id: 'a1', events },
+    );
+    expect(equal.firings.map((f) => f.fired_at)).toEqual([10]);
+
+    const notEqual = simulateAgent(
+      {
+        metric: 'network',
+        operator: '!=',
+        threshold: 'disconnected',
+        window_seconds: 1,
+      },
+      { agent_id: 'a1', events },
+    );
+    expect(notEqual.firings.map((f) => f.fired_at)).toEqual([0, 20]);
+  });
+
+  it('carries the latest value per metric forward for compound rules', () => {
+    const rule: RuleSpec = {
+      metric: 'cpu',
+      operator: '>=',
+      threshold: '90',
+      window_seconds: 1,
+      condition: {
+        type: 'group',
+        logic: 'and',
+        children: [
+          { type: 'condition', metric: 'cpu', operator: '>=', threshold: '90' },
+          {
+            type: 'condition',
+            metric: 'network',
+            operator: '==',
+            threshold: 'disconnected',
+          },
+        ],
+      },
+    };
+    const { firings } = simulateAgent(rule, {
+      agent_id: 'a1',
+      events: [
+        telemetry(0, { cpu: 95 }),
+        scan(10, 'network', 'disconnected'),
+      ],
+    });
+    expect(firings.map((f) => f.fired_at)).toEqual([10]);
+    expect(firings[0].values).toEqual({ cpu: 95, network: 'disconnected' });
+  });
+
+  it('replays events in time order regardless of input order', () => {
+    const { firings } = simulateAgent(cpuRule(60), {
+      agent_id: 'a1',
+      events: [
+        telemetry(120, { cpu: 95 }),
+        telemetry(0, { cpu: 95 }),
+        telemetry(60, { cpu: 95 }),
+      ],
+    });
+    expect(firings.map((f) => [f.breach_started_at, f.fired_at])).toEqual([
+      [0, 60],
+    ]);
+  });
+
+  it('ignores events that carry none of the rule metrics', () => {
+    const { firings, samples } = simulateAgent(cpuRule(60), {
+      agent_id: 'a1',
+      events: [
+        telemetry(0, { cpu: 95 }),
+        telemetry(30, { memory: 10 }),
+        scan(40, 'usb', 'removed'),
+        telemetry(60, { cpu: 95 }),
+      ],
+    });
+    expect(samples).toBe(2);
+    expect(firings).toHaveLength(1);
+  });
+});
+
+describe('simulateRule', () => {
+  it('aggregates firings per agent and sorts them by time', () => {
+    const result = simulateRule(cpuRule(1), [
+      { agent_id: 'a1', events: [telemetry(50, { cpu: 95 })] },
+      {
+        agent_id: 'a2',
+        events: [telemetry(10, { cpu: 99 }), telemetry(20, { cpu: 10 })],
+      },
+      { agent_id: 'a3', events: [] },
+    ]);
+    expect(result.firings.map((f) => f.agent_id)).toEqual(['a2', 'a1']);
+    expect(result.firingsByAgent).toEqual({ a1: 1, a2: 1 });
+    expect(result.samples).toBe(3);
+    expect(result.from).toBe(10);
+    expect(result.to).toBe(50);
+  });
+
+  it('uses the per-agent rule when a series carries one', () => {
+    const events = [telemetry(0, { cpu: 85 }), telemetry(10, { cpu: 85 })];
+    const result = simulateRule(cpuRule(1), [
+      { agent_id: 'a1', events },
+      { agent_id: 'a2', events, rule: { ...cpuRule(1), threshold: '80' } },
+    ]);
+    expect(result.firingsByAgent).toEqual({ a2: 1 });
+  });
+});
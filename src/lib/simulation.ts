@@ -0,0 +1,210 @@
+import type {
+  AgentEvent,
+  AgentGroupRule,
+  RuleCondition,
+  RuleConditionLeaf,
+} from '@/lib/api';
+import { conditionLeaves } from '@/lib/rules';
+
+// ─── Rule Dry-run ───
+// 과거 telemetry/scan 이벤트를 시간순으로 재생해 룰이 언제 발생했을지 계산한다
+// API 호출 없이 입력만으로 결과가 정해지는 순수 함수들
+
+export type RuleSpec = Pick<
+  AgentGroupRule,
+  'metric' | 'operator' | 'threshold' | 'window_seconds'
+> & { condition?: AgentGroupRule['condition'] };
+
+export type AgentEventSeries = {
+  agent_id: string;
+  events: AgentEvent[];
+  // 장비별 예외가 적용된 룰, 없으면 공통 룰로 평가
+  rule?: RuleSpec;
+};
+
+export type SimulatedFiring = {
+  agent_id: string;
+  // 조건이 처음 참이 된 시각과 window를 채워 알림이 나갔을 시각
+  breach_started_at: number;
+  fired_at: number;
+  values: Record<string, number | string>;
+};
+
+export type SimulationResult = {
+  firings: SimulatedFiring[];
+  firingsByAgent: Record<string, number>;
+  samples: number;
+  from: number | null;
+  to: number | null;
+};
+
+type MetricValue = number | string;
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+function asValue(value: unknown): MetricValue | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value) return value;
+  return undefined;
+}
+
+// 수치 metric은 telemetry의 usagePercent, 상태 metric은 같은 action의 scan 결과에서 꺼낸다
+// 해당 metric이 없는 이벤트면 undefined
+export function extractMetricValue(
+  event: AgentEvent,
+  metric: string,
+): MetricValue | undefined {
+  const data = event.data;
+  if (metric === 'cpu' || metric === 'memory' || metric === 'disk') {
+    if (event.type !== 'telemetry') return undefined;
+    return asValue(asRecord(data[metric])?.usagePercent);
+  }
+  if (event.type !== 'scan' || data.action !== metric) return undefined;
+  const block = asRecord(data[metric]);
+  return asValue(block?.status ?? data.status ?? data.change);
+}
+
+export function compareValue(
+  value: MetricValue,
+  operator: string,
+  threshold: string,
+): boolean {
+  const numericThreshold = Number(threshold);
+  if (typeof value === 'number' && !Number.isNaN(numericThreshold)) {
+    switch (operator) {
+      case '>=':
+        return value >= numericThreshold;
+      case '>':
+        return value > numericThreshold;
+      case '<=':
+        return value <= numericThreshold;
+      case '<':
+        return value < numericThreshold;
+      case '==':
+        return value === numericThreshold;
+      case '!=':
+        return value !== numericThreshold;
+      default:
+        return false;
+    }
+  }
+  const text = String(value).toLowerCase();
+  const expected = threshold.trim().toLowerCase();
+  if (operator === '==') return text === expected;
+  if (operator === '!=') return text !== expected;
+  return false;
+}
+
+// 값이 아직 없는 metric의 leaf는 거짓으로 본다
+export function evaluateCondition(
+  node: RuleCondition,
+  values: Record<string, MetricValue>,
+): boolean {
+  if (node.type === 'condition') {
+    const value = values[node.metric];
+    return (
+      value !== undefined &&
+      compareValue(value, node.operator, node.threshold)
+    );
+  }
+  return node.logic === 'and'
+    ? node.children.every((child) => evaluateCondition(child, values))
+    : node.children.some((child) => evaluateCondition(child, values));
+}
+
+export function ruleCondition(rule: RuleSpec): RuleCondition {
+  if (rule.condition) return rule.condition;
+  const leaf: RuleConditionLeaf = {
+    type: 'condition',
+    metric: rule.metric,
+    operator: rule.operator,
+    threshold: rule.threshold,
+  };
+  return leaf;
+}
+
+// 조건이 window_seconds 동안 계속 참이면 1회 발생, 거짓이 되면 다시 무장
+export function simulateAgent(
+  rule: RuleSpec,
+  series: AgentEventSeries,
+): { firings: SimulatedFiring[]; samples: number } {
+  const condition = ruleCondition(rule);
+  const metrics = [
+    ...new Set(conditionLeaves(condition).map((leaf) => leaf.metric)),
+  ];
+  const ordered = [...series.events].sort(
+    (a, b) => a.created_at - b.created_at,
+  );
+
+  const values: Record<string, MetricValue> = {};
+  const firings: SimulatedFiring[] = [];
+  let samples = 0;
+  let breachStart: number | null = null;
+  let fired = false;
+
+  for (const event of ordered) {
+    let touched = false;
+    for (const metric of metrics) {
+      const value = extractMetricValue(event, metric);
+      if (value !== undefined) {
+        values[metric] = value;
+        touched = true;
+      }
+    }
+    if (!touched) continue;
+    samples++;
+
+    if (!evaluateCondition(condition, values)) {
+      breachStart = null;
+      fired = false;
+      continue;
+    }
+    if (breachStart === null) breachStart = event.created_at;
+    if (
+      !fired &&
+      (rule.window_seconds <= 1 ||
+        event.created_at - breachStart >= rule.window_seconds)
+    ) {
+      fired = true;
+      firings.push({
+        agent_id: series.agent_id,
+        breach_started_at: breachStart,
+        fired_at: event.created_at,
+        values: { ...values },
+      });
+    }
+  }
+
+  return { firings, samples };
+}
+
+export function simulateRule(
+  rule: RuleSpec,
+  series: AgentEventSeries[],
+): SimulationResult {
+  const firings: SimulatedFiring[] = [];
+  const firingsByAgent: Record<string, number> = {};
+  let samples = 0;
+  let from: number | null = null;
+  let to: number | null = null;
+
+  for (const agentSeries of series) {
+    const result = simulateAgent(agentSeries.rule ?? rule, agentSeries);
+    samples += result.samples;
+    if (result.firings.length > 0) {
+      firingsByAgent[agentSeries.agent_id] = result.firings.length;
+      firings.push(...result.firings);
+    }
+    for (const event of agentSeries.events) {
+      if (from === null || event.created_at < from) from = event.created_at;
+      if (to === null || event.created_at > to) to = event.created_at;
+    }
+  }
+
+  firings.sort((a, b) => a.fired_at - b.fired_at);
+  return { firings, firingsByAgent, samples, from, to };
+}
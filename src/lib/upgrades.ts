@@ -0,0 +1,226 @@
+import {
+  agentApi,
+  ApiError,
+  isCommandTerminal,
+  pendingCommand,
+  trackCommand,
+  type Agent,
+  type AgentCommand,
+} from '@/lib/api';
+import {
+  findReleaseTarget,
+  isKnownVersion,
+  isVersionBehind,
+  normalizeVersion,
+  releaseAssetUrl,
+} from '@/lib/releases';
+
+// ─── Agent Upgrade ───
+// upgrade 명령 전송 → 명령 완료 대기 → 재접속한 에이전트의 version 확인 순서로 진행
+
+export type UpgradeStage =
+  | 'queued'
+  | 'sending'
+  | 'installing'
+  | 'verifying'
+  | 'upgraded'
+  | 'unverified'
+  | 'failed'
+  | 'skipped'
+  | 'cancelled';
+
+export type UpgradeProgress = {
+  stage: UpgradeStage;
+  command: AgentCommand | null;
+  version: string;
+  error: string;
+};
+
+export const UPGRADE_ACTION = 'upgrade';
+// 바이너리 다운로드 + 재시작까지 포함하므로 일반 명령보다 길게 잡는다
+export const UPGRADE_COMMAND_TIMEOUT_SECONDS = 300;
+const VERIFY_TIMEOUT_SECONDS = 300;
+const VERIFY_POLL_INTERVAL_MS = 5000;
+
+const UPGRADE_FINAL_STAGES: UpgradeStage[] = [
+  'upgraded',
+  'unverified',
+  'failed',
+  'skipped',
+  'cancelled',
+];
+
+export function isUpgradeFinal(stage: UpgradeStage): boolean {
+  return UPGRADE_FINAL_STAGES.includes(stage);
+}
+
+export function buildUpgradeParams(
+  agent: Pick<Agent, 'os' | 'arch'>,
+  version: string,
+): Record<string, unknown> | null {
+  const target = findReleaseTarget(agent.os || '', agent.arch || '');
+  if (!target) return null;
+  return {
+    version: normalizeVersion(version),
+    asset: target.asset,
+    url: releaseAssetUrl(target),
+  };
+}
+
+// version을 알 수 없는 장비는 최신이라고 볼 수 없으니 업그레이드 대상에 넣는다
+export function needsUpgrade(version: string, targetVersion: string): boolean {
+  if (!targetVersion) return false;
+  return !isKnownVersion(version) || isVersionBehind(version, targetVersion);
+}
+
+// 첫 wave는 canary, 이후는 waveSize씩 나눈다
+export function planUpgradeWaves<T>(
+  items: readonly T[],
+  canarySize: number,
+  waveSize: number,
+): T[][] {
+  const waves: T[][] = [];
+  const canary = Math.max(1, canarySize);
+  const size = Math.max(1, waveSize);
+  if (items.length > 0) waves.push(items.slice(0, canary));
+  for (let i = canary; i < items.length; i += size) {
+    waves.push(items.slice(i, i + size));
+  }
+  return waves;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+}
+
+function waitForCommand(
+  initial: AgentCommand,
+  timeout: number,
+  onUpdate: (command: AgentCommand) => void,
+  signal?: AbortSignal,
+): Promise<AgentCommand> {
+  return new Promise((resolve) => {
+    let last = initial;
+    const stop = trackCommand(initial, {
+      timeout,
+      onUpdate: (command) => {
+        last = command;
+        onUpdate(command);
+        if (isCommandTerminal(command.status)) {
+          stop();
+          resolve(command);
+        }
+      },
+    });
+    signal?.addEventListener(
+      'abort',
+      () => {
+        stop();
+        resolve(last);
+      },
+      { once: true },
+    );
+  });
+}
+
+export async function upgradeAgent(
+  agent: Agent,
+  targetVersion: string,
+  options: {
+    signal?: AbortSignal;
+    onProgress: (progress: UpgradeProgress) => void;
+  },
+): Promise<UpgradeProgress> {
+  const { signal } = options;
+  let progress: UpgradeProgress = {
+    stage: 'queued',
+    command: null,
+    version: agent.version,
+    error: '',
+  };
+  const update = (patch: Partial<UpgradeProgress>) => {
+    progress = { ...progress, ...patch };
+    options.onProgress(progress);
+    return progress;
+  };
+
+  if (!needsUpgrade(agent.version, targetVersion)) {
+    return update({ stage: 'skipped', error: 'Already on this version' });
+  }
+  const params = buildUpgradeParams(agent, targetVersion);
+  if (!params) {
+    return update({
+      stage: 'skipped',
+      error: `No release asset for ${agent.os || '?'}/${agent.arch || '?'}`,
+    });
+  }
+  if (agent.status !== 'online') {
+    return update({ stage: 'failed', error: 'Agent is offline' });
+  }
+
+  let command: AgentCommand;
+  try {
+    update({ stage: 'sending' });
+    const res = await agentApi.sendCommand(
+      agent.id,
+      UPGRADE_ACTION,
+      params,
+      UPGRADE_COMMAND_TIMEOUT_SECONDS,
+    );
+    command = pendingCommand(agent.id, UPGRADE_ACTION, params, res);
+  } catch (err) {
+    return update({
+      stage: 'failed',
+      error: err instanceof ApiError ? err.message : 'Failed to send command',
+    });
+  }
+
+  update({ stage: 'installing', command });
+  const finished = await waitForCommand(
+    command,
+    UPGRADE_COMMAND_TIMEOUT_SECONDS,
+    (cmd) => update({ command: cmd }),
+    signal,
+  );
+  if (signal?.aborted) return update({ stage: 'cancelled' });
+  if (finished.status !== 'completed') {
+    return update({
+      stage: 'failed',
+      error: finished.error || `Upgrade command ${finished.status}`,
+    });
+  }
+
+  // 에이전트가 재시작 후 다시 보고한 version이 목표와 같아야 완료로 본다
+  update({ stage: 'verifying' });
+  const deadline = Date.now() + VERIFY_TIMEOUT_SECONDS * 1000;
+  while (Date.now() < deadline) {
+    await sleep(VERIFY_POLL_INTERVAL_MS, signal);
+    if (signal?.aborted) return update({ stage: 'cancelled' });
+    try {
+      const res = await agentApi.get(agent.id);
+      update({ version: res.agent.version });
+      if (
+        isKnownVersion(res.agent.version) &&
+        !isVersionBehind(res.agent.version, targetVersion)
+      ) {
+        return update({ stage: 'upgraded' });
+      }
+    } catch {
+      /* 재시작 중에는 조회가 실패할 수 있다 */
+    }
+  }
+  return update({
+    stage: 'unverified',
+    error: `Version still ${progress.version || 'unknown'} after ${VERIFY_TIMEOUT_SECONDS}s`,
+  });
+}
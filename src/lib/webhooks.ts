@@ -0,0 +1,169 @@
+import type { AgentAlertOccurrence, AgentGroup } from '@/lib/api';
+
+// ─── Webhook Test ───
+// 테스트 발송용 샘플 알림 — 실제 CPU 룰 발생과 같은 모양으로 만든다
+
+export function sampleAlertOccurrence(
+  group: Pick<AgentGroup, 'id' | 'account_id' | 'name'>,
+  now = Math.floor(Date.now() / 1000),
+): AgentAlertOccurrence {
+  return {
+    id: `test-${now}`,
+    account_id: group.account_id,
+    group_id: group.id,
+    agent_id: 'test-agent',
+    rule_id: 'test-rule',
+    severity: 'warning',
+    metric: 'cpu',
+    message: `[TEST] CPU usage 93.5% >= 90% (${group.name})`,
+    anomaly_type: 'threshold',
+    anomaly_data: {
+      value: 93.5,
+      operator: '>=',
+      threshold: 90,
+      window_seconds: 300,
+    },
+    created_at: now,
+    agent_display_name: 'Test POS 01',
+    agent_thing_name: 'test-pos-01',
+    rule_name: 'High CPU (test)',
+    status: 'open',
+  };
+}
+
+export function formatLatency(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+// ─── Webhook Body Template ───
+// {{ path }}는 값을 그대로, {{ path | json }}은 JSON 리터럴로 넣는다
+// 서버 발송 시 같은 규칙으로 렌더링되므로 문법을 바꾸면 서버도 함께 바꿔야 한다
+
+export const WEBHOOK_TEMPLATE_VARIABLES: {
+  name: string;
+  description: string;
+}[] = [
+  { name: 'id', description: 'Alert occurrence ID' },
+  { name: 'group_id', description: 'Group ID' },
+  { name: 'agent_id', description: 'Agent ID' },
+  { name: 'agent_display_name', description: 'Agent display name' },
+  { name: 'agent_thing_name', description: 'Agent thing name' },
+  { name: 'rule_id', description: 'Rule ID' },
+  { name: 'rule_name', description: 'Rule name' },
+  { name: 'severity', description: 'info, warning or critical' },
+  { name: 'metric', description: 'cpu, memory, disk, process, network, usb' },
+  { name: 'message', description: 'Human readable alert message' },
+  { name: 'anomaly_type', description: 'Anomaly type' },
+  { name: 'anomaly_data.<field>', description: 'Raw anomaly data field' },
+  { name: 'created_at', description: 'Unix timestamp (seconds)' },
+];
+
+export const WEBHOOK_TEMPLATE_FILTERS: {
+  name: string;
+  description: string;
+}[] = [
+  { name: 'json', description: 'JSON-encode (adds quotes, escapes)' },
+  { name: 'upper', description: 'Uppercase' },
+  { name: 'lower', description: 'Lowercase' },
+  { name: 'iso', description: 'Unix timestamp → ISO 8601' },
+];
+
+export const DEFAULT_WEBHOOK_BODY = `{
+  "event": "anomaly",
+  "severity": "{{severity}}",
+  "metric": "{{metric}}",
+  "agent": {{agent_display_name | json}},
+  "rule": {{rule_name | json}},
+  "message": {{message | json}},
+  "occurred_at": "{{created_at | iso}}"
+}`;
+
+const TEMPLATE_TAG = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const KNOWN_FIELDS = new Set(
+  WEBHOOK_TEMPLATE_VARIABLES.map((v) => v.name).filter(
+    (name) => !name.includes('<'),
+  ),
+);
+
+type TemplateTag = { path: string; filters: string[] };
+
+function parseTag(expression: string): TemplateTag {
+  const [path, ...filters] = expression.split('|').map((p) => p.trim());
+  return { path, filters };
+}
+
+export function validateWebhookTemplate(template: string): string[] {
+  const errors: string[] = [];
+  const withoutTags = template.replace(TEMPLATE_TAG, '');
+  if (withoutTags.includes('{{') || withoutTags.includes('}}')) {
+    errors.push('Unbalanced "{{" or "}}".');
+  }
+  for (const match of template.matchAll(TEMPLATE_TAG)) {
+    const { path, filters } = parseTag(match[1]);
+    if (!path) {
+      errors.push(`Empty tag "${match[0]}".`);
+      continue;
+    }
+    if (!KNOWN_FIELDS.has(path) && !/^anomaly_data\.[\w.]+$/.test(path)) {
+      errors.push(`Unknown variable "${path}".`);
+    }
+    for (const filter of filters) {
+      if (!WEBHOOK_TEMPLATE_FILTERS.some((f) => f.name === filter)) {
+        errors.push(`Unknown filter "${filter}" in "${match[0]}".`);
+      }
+    }
+  }
+  return errors;
+}
+
+function lookup(alert: AgentAlertOccurrence, path: string): unknown {
+  let current: unknown = alert;
+  for (const key of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function applyFilter(value: unknown, filter: string): unknown {
+  switch (filter) {
+    case 'json':
+      return JSON.stringify(value ?? null);
+    case 'upper':
+      return String(value ?? '').toUpperCase();
+    case 'lower':
+      return String(value ?? '').toLowerCase();
+    case 'iso':
+      return typeof value === 'number'
+        ? new Date(value * 1000).toISOString()
+        : value;
+    default:
+      return value;
+  }
+}
+
+export function renderWebhookTemplate(
+  template: string,
+  alert: AgentAlertOccurrence,
+): string {
+  return template.replace(TEMPLATE_TAG, (_, expression: string) => {
+    const { path, filters } = parseTag(expression);
+    const value = filters.reduce(applyFilter, lookup(alert, path));
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+// 렌더링 결과가 JSON처럼 보이면 파싱까지 확인 — 값 안의 따옴표 누락을 잡는다
+export function checkRenderedBody(rendered: string): string | null {
+  const trimmed = rendered.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return null;
+  try {
+    JSON.parse(trimmed);
+    return null;
+  } catch (err) {
+    return `Rendered body is not valid JSON: ${
+      err instanceof Error ? err.message : String(err)
+    }`;
+  }
+}